@@ -0,0 +1,54 @@
+/**
+ * Session archives
+ * Reads and unpacks the compressed archives DevPattern packs finished
+ * sessions into (storage/archive.ts on the server). Loose files always take
+ * precedence over the archive.
+ */
+
+import { readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { gunzip } from 'zlib';
+import { promisify } from 'util';
+import { writeFileAtomic } from './file-lock.js';
+
+const gunzipAsync = promisify(gunzip);
+
+export const ARCHIVE_FILE = 'archive.json.gz';
+
+const ARCHIVED_FILES = ['session.json', 'thoughts.jsonl', 'tasks.jsonl', 'documentation.json'];
+
+async function readArchive(sessionDir: string): Promise<Record<string, string> | null> {
+  let compressed: Buffer;
+  try {
+    compressed = await readFile(join(sessionDir, ARCHIVE_FILE));
+  } catch {
+    return null;
+  }
+  const archive = JSON.parse((await gunzipAsync(compressed)).toString('utf-8')) as { files?: Record<string, string> };
+  return archive.files ?? null;
+}
+
+/**
+ * Content of one archived file, or null when the session has no archive or
+ * the archive does not hold that file
+ */
+export async function readArchivedFile(sessionDir: string, file: string): Promise<string | null> {
+  const files = await readArchive(sessionDir);
+  return files?.[file] ?? null;
+}
+
+/**
+ * Restore an archived session's files and remove the archive, so it can be
+ * written to again. Call with the session lock held.
+ */
+export async function unpackSession(sessionDir: string): Promise<void> {
+  const files = await readArchive(sessionDir);
+  if (!files) return;
+
+  for (const file of ARCHIVED_FILES) {
+    if (typeof files[file] === 'string') {
+      await writeFileAtomic(join(sessionDir, file), files[file]);
+    }
+  }
+  await rm(join(sessionDir, ARCHIVE_FILE), { force: true });
+}
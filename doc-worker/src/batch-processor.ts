@@ -96,8 +96,11 @@ export class BatchProcessor {
           tags: parsed.tags,
         };
 
-        await this.storage.saveDocumentation(doc);
-        console.log(`  ✅ Saved documentation for session ${session.session.id}`);
+        if (await this.storage.saveDocumentation(doc)) {
+          console.log(`  ✅ Saved documentation for session ${session.session.id}`);
+        } else {
+          console.warn(`  ⚠️ Session ${session.session.id} was deleted; documentation not saved`);
+        }
       } else {
         console.warn(`  ⚠️ No parsed documentation for session ${session.session.id}`);
       }
@@ -3,9 +3,12 @@
  * All settings are loaded from environment variables with sensible defaults
  */
 
+import { readFileSync } from 'fs';
+
 export interface Config {
   // Data storage
   dataPath: string;
+  encryptionKeys: string[]; // current key first, then previous keys
 
   // Redis connection
   redisUrl: string;
@@ -48,10 +51,30 @@ function getEnvIntOrDefault(key: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+/**
+ * Encryption keys, matching the DevPattern server: ENCRYPTION_KEY or the
+ * lines of ENCRYPTION_KEY_FILE, then comma-separated ENCRYPTION_PREVIOUS_KEYS
+ */
+function getEncryptionKeys(): string[] {
+  const keys: string[] = [];
+  if (process.env.ENCRYPTION_KEY) {
+    keys.push(process.env.ENCRYPTION_KEY);
+  } else if (process.env.ENCRYPTION_KEY_FILE) {
+    keys.push(...readFileSync(process.env.ENCRYPTION_KEY_FILE, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim() && !line.trim().startsWith('#')));
+  }
+  if (keys.length > 0 && process.env.ENCRYPTION_PREVIOUS_KEYS) {
+    keys.push(...process.env.ENCRYPTION_PREVIOUS_KEYS.split(',').filter(key => key.trim()));
+  }
+  return keys;
+}
+
 export function loadConfig(): Config {
   return {
     // Data storage
     dataPath: getEnvOrDefault('DATA_PATH', './data'),
+    encryptionKeys: getEncryptionKeys(),
 
     // Redis connection
     redisUrl: getEnvOrDefault('REDIS_URL', 'redis://localhost:6379'),
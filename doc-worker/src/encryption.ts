@@ -0,0 +1,107 @@
+/**
+ * Encryption at rest
+ * Reads and writes the AES-256-GCM record envelopes used by the DevPattern
+ * server (storage/encryption.ts), so both processes can share an encrypted
+ * data directory
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export interface EncryptedRecord {
+  encrypted: {
+    alg: typeof ALGORITHM;
+    keyId: string;
+    iv: string;
+    tag: string;
+    data: string;
+  };
+}
+
+export function isEncryptedRecord(value: unknown): value is EncryptedRecord {
+  const envelope = (value as Partial<EncryptedRecord> | null)?.encrypted;
+  return typeof envelope === 'object'
+    && envelope !== null
+    && envelope.alg === ALGORITHM
+    && typeof envelope.keyId === 'string'
+    && typeof envelope.data === 'string';
+}
+
+function keyIdOf(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+function parseKey(text: string): Buffer {
+  const trimmed = text.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Encryption keys must be ${KEY_BYTES} bytes, encoded as base64 or hex`);
+  }
+  return key;
+}
+
+export class RecordCipher {
+  private keys: Map<string, Buffer>;
+  readonly keyId: string;
+
+  /**
+   * @param keys Current key first, then keys accepted for reading only
+   */
+  constructor(keys: string[]) {
+    const [current, ...previous] = keys.map(parseKey);
+    this.keyId = keyIdOf(current);
+    this.keys = new Map(previous.map(key => [keyIdOf(key), key]));
+    this.keys.set(this.keyId, current);
+  }
+
+  seal(value: unknown): EncryptedRecord {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.keys.get(this.keyId)!, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()]);
+    return {
+      encrypted: {
+        alg: ALGORITHM,
+        keyId: this.keyId,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      },
+    };
+  }
+
+  open(record: EncryptedRecord, filePath: string): unknown {
+    const { keyId, iv, tag, data } = record.encrypted;
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`${filePath} is encrypted with key ${keyId}, which is not configured`);
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf-8'));
+  }
+}
+
+/**
+ * Decrypt `value` if it is an envelope, otherwise return it unchanged
+ */
+export function openRecord(value: unknown, cipher: RecordCipher | undefined, filePath: string): unknown {
+  if (!isEncryptedRecord(value)) return value;
+  if (!cipher) {
+    throw new Error(`${filePath} is encrypted but no encryption key is configured`);
+  }
+  return cipher.open(value, filePath);
+}
+
+/**
+ * Cipher for the configured keys, or undefined when encryption is off
+ */
+export function createCipher(keys: string[]): RecordCipher | undefined {
+  return keys.length > 0 ? new RecordCipher(keys) : undefined;
+}
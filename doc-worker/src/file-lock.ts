@@ -0,0 +1,121 @@
+/**
+ * File safety helpers
+ * Atomic writes and advisory lock files, using the same protocol as the
+ * DevPattern server so both processes can share a data directory
+ */
+
+import { mkdir, open, readFile, rename, rm, stat, utimes, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+
+const LOCK_TIMEOUT_MS = 10000;
+const LOCK_STALE_MS = 30000;
+const LOCK_RETRY_MS = 15;
+
+/**
+ * Write to a temp file in the same directory and rename it into place
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+  try {
+    await writeFile(tempPath, content, 'utf-8');
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+async function readOwner(lockPath: string): Promise<string | null> {
+  try {
+    return await readFile(lockPath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the lock if its holder died. Waiters take turns through
+ * <lockPath>.break and only remove a lock that still has the owner they saw
+ */
+async function breakIfStale(lockPath: string): Promise<void> {
+  const isStale = async () => Date.now() - (await stat(lockPath)).mtimeMs > LOCK_STALE_MS;
+  try {
+    if (!(await isStale())) return;
+  } catch {
+    // Lock was released in the meantime
+    return;
+  }
+  const owner = await readOwner(lockPath);
+  if (owner === null) return;
+
+  const breakPath = `${lockPath}.break`;
+  try {
+    await (await open(breakPath, 'wx')).close();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    try {
+      if (Date.now() - (await stat(breakPath)).mtimeMs > LOCK_STALE_MS) {
+        await rm(breakPath, { force: true });
+      }
+    } catch {
+      // Marker was removed in the meantime
+    }
+    return;
+  }
+
+  try {
+    if (await readOwner(lockPath) === owner && await isStale()) {
+      await rm(lockPath, { force: true });
+    }
+  } catch {
+    // Lock was released in the meantime
+  } finally {
+    await rm(breakPath, { force: true });
+  }
+}
+
+async function tryAcquire(lockPath: string, owner: string): Promise<boolean> {
+  try {
+    const handle = await open(lockPath, 'wx');
+    await handle.writeFile(owner, 'utf-8');
+    await handle.close();
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+  }
+  await breakIfStale(lockPath);
+  return false;
+}
+
+/**
+ * Run `fn` while holding the lock file at `lockPath`, creating its
+ * directory if needed. The lock's mtime is refreshed while `fn` runs.
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  await mkdir(dirname(lockPath), { recursive: true });
+
+  const owner = JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString(), token: randomUUID() });
+  while (!(await tryAcquire(lockPath, owner))) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock: ${lockPath}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS + Math.random() * LOCK_RETRY_MS));
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    utimes(lockPath, now, now).catch(() => {});
+  }, LOCK_STALE_MS / 3);
+  heartbeat.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    if (await readOwner(lockPath) === owner) {
+      await rm(lockPath, { force: true });
+    }
+  }
+}
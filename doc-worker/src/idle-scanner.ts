@@ -7,6 +7,7 @@
 import { Redis } from 'ioredis';
 import { config } from './config.js';
 import { Storage } from './storage.js';
+import { createCipher } from './encryption.js';
 import type { DocumentationWorker } from './worker.js';
 import type { DevPatternEvent, Session } from './types.js';
 
@@ -19,7 +20,7 @@ export class IdleSessionScanner {
 
   constructor(worker: DocumentationWorker) {
     this.worker = worker;
-    this.storage = new Storage(config.dataPath);
+    this.storage = new Storage(config.dataPath, createCipher(config.encryptionKeys));
     this.redis = new Redis(config.redisUrl);
   }
 
@@ -65,12 +66,20 @@ export class IdleSessionScanner {
     const completedTasks = tasks.filter(t => t.status === 'completed').length;
     const outcome = completedTasks > 0 ? 'completed' : 'abandoned';
 
-    // Update session
-    session.status = 'finalized';
-    session.outcome = outcome;
-    session.autoFinalized = true;
-    session.updatedAt = new Date();
-    await this.storage.updateSession(session);
+    // Update session, re-reading it under the lock so a thought saved since
+    // the scan is not overwritten
+    const finalized = await this.storage.withSessionLock(session.id, async () => {
+      const latest = await this.storage.getSession(session.id);
+      if (!latest || latest.status === 'finalized') return false;
+
+      latest.status = 'finalized';
+      latest.outcome = outcome;
+      latest.autoFinalized = true;
+      latest.updatedAt = new Date();
+      await this.storage.updateSession(latest);
+      return true;
+    });
+    if (!finalized) return;
 
     // Publish event
     const event: DevPatternEvent = {
@@ -15,6 +15,7 @@ async function main() {
   console.log('🔧 DevPattern Doc Worker starting...');
   console.log(`   Version: ${VERSION}`);
   console.log(`   Data path: ${config.dataPath}`);
+  console.log(`   Encryption: ${config.encryptionKeys.length > 0 ? 'on' : 'off'}`);
   console.log(`   Redis: ${config.redisUrl}`);
   console.log(`   Basic model: ${config.basicModel}`);
   console.log(`   Premium model: ${config.premiumModel}`);
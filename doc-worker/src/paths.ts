@@ -0,0 +1,41 @@
+/**
+ * Session paths
+ * Session IDs arrive in events and name directories, so every session path
+ * is validated and checked to stay inside the data directory. Must accept
+ * the same IDs as the DevPattern server's context-layer/ids.ts.
+ */
+
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+
+const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === 'string' && ID_PATTERN.test(id);
+}
+
+/**
+ * <dataPath>/locks/<sessionId>.lock, where the DevPattern server keeps
+ * session locks: outside the session directory, so deleting a session does
+ * not delete its lock
+ */
+export function sessionLockPath(dataPath: string, sessionId: string): string {
+  if (!isValidSessionId(sessionId)) {
+    throw new Error(`Invalid session ID ${JSON.stringify(sessionId)}`);
+  }
+  return join(dataPath, 'locks', `${sessionId}.lock`);
+}
+
+/**
+ * <sessionsDir>/<sessionId>; throws for invalid IDs or paths outside sessionsDir
+ */
+export function sessionDirPath(sessionsDir: string, sessionId: string): string {
+  if (!isValidSessionId(sessionId)) {
+    throw new Error(`Invalid session ID ${JSON.stringify(sessionId)}`);
+  }
+  const path = join(sessionsDir, sessionId);
+  const rel = relative(resolve(sessionsDir), resolve(path));
+  if (rel.split(sep)[0] === '..' || isAbsolute(rel)) {
+    throw new Error(`Session path ${sessionId} resolves outside ${sessionsDir}`);
+  }
+  return path;
+}
@@ -3,15 +3,40 @@
  * Reads from the shared /data directory used by DevPattern
  */
 
-import { readFile, writeFile, readdir, stat } from 'fs/promises';
-import { join } from 'path';
-import type { Session, ThoughtRecord, TaskCommit, DocumentationEntry, SessionContext } from './types.js';
+import { readFile, readdir, stat, access, appendFile } from 'fs/promises';
+import { join, dirname, basename } from 'path';
+import { writeFileAtomic, withFileLock } from './file-lock.js';
+import { openRecord, type RecordCipher } from './encryption.js';
+import { readArchivedFile, unpackSession } from './archive.js';
+import { isValidSessionId, sessionDirPath, sessionLockPath } from './paths.js';
+import type { Session, ThoughtRecord, TaskCommit, TaskLogEntry, DocumentationEntry, SessionContext } from './types.js';
+
+/**
+ * On-disk format version this worker understands. Must match FORMAT_VERSION
+ * in the DevPattern server's storage/format.ts. Files without a
+ * formatVersion are version 1.
+ */
+export const FORMAT_VERSION = 2;
+
+function formatVersionOf(record: unknown): number {
+  const version = (record as { formatVersion?: unknown } | null)?.formatVersion;
+  return typeof version === 'number' ? version : 1;
+}
 
 export class Storage {
   private dataPath: string;
+  private cipher?: RecordCipher;
 
-  constructor(dataPath: string) {
+  /**
+   * @param cipher Encrypts everything written; plaintext records are still read
+   */
+  constructor(dataPath: string, cipher?: RecordCipher) {
     this.dataPath = dataPath;
+    this.cipher = cipher;
+  }
+
+  private seal(record: unknown): unknown {
+    return this.cipher ? this.cipher.seal(record) : record;
   }
 
   private getSessionsDir(): string {
@@ -19,20 +44,97 @@ export class Storage {
   }
 
   private getSessionDir(sessionId: string): string {
-    return join(this.getSessionsDir(), sessionId);
+    return sessionDirPath(this.getSessionsDir(), sessionId);
+  }
+
+  /**
+   * Read a session file, falling back to the session's archive
+   */
+  private async readText(filePath: string): Promise<string | null> {
+    try {
+      return await readFile(filePath, 'utf-8');
+    } catch {
+      // Not loose: try the archive
+    }
+    try {
+      return await readArchivedFile(dirname(filePath), basename(filePath))
+        ?? await readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
   }
 
   private async readJson<T>(filePath: string): Promise<T | null> {
+    const data = await this.readText(filePath);
+    if (data === null) return null;
+
+    let raw: unknown;
     try {
-      const data = await readFile(filePath, 'utf-8');
-      return JSON.parse(data) as T;
+      raw = JSON.parse(data);
     } catch {
       return null;
     }
+    // Decryption failures are raised: a missing key is not a missing file
+    return openRecord(raw, this.cipher, filePath) as T;
+  }
+
+  /**
+   * Read a JSONL log written by DevPattern, ignoring a truncated last line.
+   * Returns null when the log does not exist.
+   */
+  private async readJsonLines<T>(filePath: string): Promise<T[] | null> {
+    const data = await this.readText(filePath);
+    if (data === null) return null;
+
+    const lines = data.split('\n').filter(line => line.trim());
+    const records: T[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      let record: unknown;
+      try {
+        record = JSON.parse(lines[i]);
+      } catch (error) {
+        if (i === lines.length - 1) break;
+        throw error;
+      }
+      // Skip the { formatVersion } header line
+      const isHeader = i === 0 && typeof record === 'object' && record !== null
+        && Object.keys(record).length === 1 && 'formatVersion' in record;
+      if (!isHeader) records.push(openRecord(record, this.cipher, filePath) as T);
+    }
+    return records;
+  }
+
+  /**
+   * Write a JSON document stamped with FORMAT_VERSION. Refuses to overwrite
+   * a file written in a newer format than this worker understands. Callers
+   * hold the session lock, since writing unpacks an archived session.
+   */
+  private async writeJson(filePath: string, data: object): Promise<void> {
+    // Writing reopens an archived session
+    await unpackSession(dirname(filePath));
+
+    const existing = await this.readJson<unknown>(filePath);
+    const existingVersion = formatVersionOf(existing);
+    if (existing && existingVersion > FORMAT_VERSION) {
+      throw new Error(
+        `${filePath} uses format version ${existingVersion}; this worker supports up to ${FORMAT_VERSION}`
+      );
+    }
+
+    const document = { ...data, formatVersion: FORMAT_VERSION };
+    const content = this.cipher
+      ? { formatVersion: FORMAT_VERSION, ...this.cipher.seal(document) }
+      : document;
+    await writeFileAtomic(filePath, JSON.stringify(content, null, 2));
   }
 
-  private async writeJson(filePath: string, data: unknown): Promise<void> {
-    await writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+  /**
+   * Hold the session's advisory lock (shared with the DevPattern server)
+   * for the duration of `fn`. Read-modify-write cycles on session.json must
+   * run inside it.
+   */
+  async withSessionLock<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+    return withFileLock(sessionLockPath(this.dataPath, sessionId), fn);
   }
 
   async getSession(sessionId: string): Promise<Session | null> {
@@ -40,17 +142,31 @@ export class Storage {
   }
 
   async getThoughts(sessionId: string): Promise<ThoughtRecord[]> {
-    const thoughts = await this.readJson<ThoughtRecord[]>(
-      join(this.getSessionDir(sessionId), 'thoughts.json')
-    );
+    const sessionDir = this.getSessionDir(sessionId);
+    const thoughts = await this.readJsonLines<ThoughtRecord>(join(sessionDir, 'thoughts.jsonl'))
+      || await this.readJson<ThoughtRecord[]>(join(sessionDir, 'thoughts.json'));
     return thoughts || [];
   }
 
   async getTasks(sessionId: string): Promise<TaskCommit[]> {
-    const tasks = await this.readJson<TaskCommit[]>(
-      join(this.getSessionDir(sessionId), 'tasks.json')
-    );
-    return tasks || [];
+    const sessionDir = this.getSessionDir(sessionId);
+    const entries = await this.readJsonLines<TaskLogEntry>(join(sessionDir, 'tasks.jsonl'));
+    if (!entries) {
+      const tasks = await this.readJson<TaskCommit[]>(join(sessionDir, 'tasks.json'));
+      return tasks || [];
+    }
+
+    // Replay the task log: 'save' adds a record, 'update' replaces the first match
+    const tasks: TaskCommit[] = [];
+    for (const entry of entries) {
+      if (entry.op === 'save') {
+        tasks.push(entry.task);
+      } else {
+        const index = tasks.findIndex(t => t.taskId === entry.task.taskId);
+        if (index >= 0) tasks[index] = entry.task;
+      }
+    }
+    return tasks;
   }
 
   async getSessionContext(sessionId: string): Promise<SessionContext | null> {
@@ -71,18 +187,48 @@ export class Storage {
     );
   }
 
-  async saveDocumentation(doc: DocumentationEntry): Promise<void> {
-    await this.writeJson(
-      join(this.getSessionDir(doc.sessionId), 'documentation.json'),
-      doc
-    );
+  /**
+   * Save documentation under the session's lock. Returns false, writing
+   * nothing, when the session was deleted in the meantime.
+   */
+  async saveDocumentation(doc: DocumentationEntry): Promise<boolean> {
+    return this.withSessionLock(doc.sessionId, async () => {
+      if (!await this.getSession(doc.sessionId)) return false;
+      await this.writeJson(
+        join(this.getSessionDir(doc.sessionId), 'documentation.json'),
+        doc
+      );
+      return true;
+    });
   }
 
+  /**
+   * Callers hold the session lock
+   */
   async updateSession(session: Session): Promise<void> {
     await this.writeJson(
       join(this.getSessionDir(session.id), 'session.json'),
       session
     );
+    await this.appendToSessionIndex(session);
+  }
+
+  /**
+   * Keep DevPattern's session index (session-index.jsonl) in step with
+   * session.json. If there is no index yet, DevPattern builds one from the
+   * session directories on its next listing.
+   */
+  private async appendToSessionIndex(session: Session): Promise<void> {
+    const indexPath = join(this.dataPath, 'session-index.jsonl');
+    await withFileLock(join(this.dataPath, '.session-index.lock'), async () => {
+      try {
+        await access(indexPath);
+      } catch {
+        return;
+      }
+      const entry = { op: 'put', session: { ...session, formatVersion: FORMAT_VERSION } };
+      await appendFile(indexPath, JSON.stringify(this.seal(entry)) + '\n', 'utf-8');
+    });
   }
 
   async listActiveSessions(): Promise<Session[]> {
@@ -93,6 +239,7 @@ export class Storage {
       const entries = await readdir(sessionsDir);
 
       for (const entry of entries) {
+        if (!isValidSessionId(entry)) continue;
         const sessionPath = join(sessionsDir, entry);
         const stats = await stat(sessionPath);
 
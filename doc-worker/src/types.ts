@@ -9,8 +9,10 @@ export interface ThoughtRecord {
   thoughtNumber: number;
   totalThoughts: number;
   branchId?: string;
+  branchFromThought?: number;
   isRevision?: boolean;
   revisesThought?: number;
+  taskId?: string;
   timestamp: Date;
 }
 
@@ -23,6 +25,22 @@ export interface TaskCommit {
   status: 'pending' | 'in_progress' | 'completed';
   createdAt: Date;
   completedAt?: Date;
+  parentTaskId?: string;
+  blockedBy?: string[];
+  history?: Array<{
+    from?: TaskCommit['status'];
+    status: TaskCommit['status'];
+    at: Date;
+    atThought: number;
+  }>;
+  createdAtThought?: number;
+  thoughtRefs?: number[];
+}
+
+// One line of tasks.jsonl
+export interface TaskLogEntry {
+  op: 'save' | 'update';
+  task: TaskCommit;
 }
 
 export interface Session {
@@ -37,6 +55,14 @@ export interface Session {
   tier?: 'basic' | 'premium';
   agentSummary?: string;
   autoFinalized?: boolean;
+  template?: {
+    name: string;
+    totalThoughts?: number;
+    documentation?: {
+      title?: string;
+      sections?: Array<'summary' | 'tasks' | 'task-reasoning' | 'branches' | 'thoughts' | 'alternatives'>;
+    };
+  };
   metadata?: Record<string, unknown>;
 }
 
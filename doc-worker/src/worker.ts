@@ -6,8 +6,10 @@
 import { Redis } from 'ioredis';
 import { config } from './config.js';
 import { Storage } from './storage.js';
+import { createCipher } from './encryption.js';
 import { Summarizer } from './summarizer.js';
 import { BatchProcessor } from './batch-processor.js';
+import { isValidSessionId } from './paths.js';
 import type { DevPatternEvent, SessionContext } from './types.js';
 
 export class DocumentationWorker {
@@ -22,7 +24,7 @@ export class DocumentationWorker {
   constructor() {
     this.subscriber = new Redis(config.redisUrl);
     this.publisher = new Redis(config.redisUrl);
-    this.storage = new Storage(config.dataPath);
+    this.storage = new Storage(config.dataPath, createCipher(config.encryptionKeys));
     this.summarizer = new Summarizer(this.storage);
     this.batchProcessor = new BatchProcessor(this.storage);
   }
@@ -54,6 +56,12 @@ export class DocumentationWorker {
       return; // Only process finalization events
     }
 
+    if (!isValidSessionId(event.sessionId)) {
+      // Retrying cannot fix a bad ID
+      console.error(`Ignoring ${event.type} event with invalid session ID ${JSON.stringify(event.sessionId)}`);
+      return;
+    }
+
     console.log(`📥 Received ${event.type} event for session ${event.sessionId}`);
 
     const retryCount = event.payload.retryCount || 0;
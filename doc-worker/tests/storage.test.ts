@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, mkdir, writeFile, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { gzipSync } from 'zlib';
+import { Storage, FORMAT_VERSION } from '../src/storage.js';
+import { RecordCipher } from '../src/encryption.js';
+import type { Session } from '../src/types.js';
+
+describe('Storage', () => {
+  let dataPath: string;
+  let storage: Storage;
+  const sessionDir = () => join(dataPath, 'sessions', 's1');
+
+  const session: Session = {
+    id: 's1',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+    status: 'completed',
+    thoughtCount: 2,
+    taskCount: 1,
+  };
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'doc-worker-storage-'));
+    storage = new Storage(dataPath);
+    await mkdir(sessionDir(), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should read JSONL logs written by DevPattern', async () => {
+    const thought = { sessionId: 's1', thought: 'First', thoughtNumber: 1, totalThoughts: 2, timestamp: '2024-01-01' };
+    const task = { sessionId: 's1', taskId: 't1', taskTitle: 'Task', completedAtThought: 0, status: 'pending', createdAt: '2024-01-01' };
+    await writeFile(
+      join(sessionDir(), 'thoughts.jsonl'),
+      `{"formatVersion":2}\n${JSON.stringify(thought)}\n{"sessionId":"s1","thou`,
+      'utf-8'
+    );
+    await writeFile(
+      join(sessionDir(), 'tasks.jsonl'),
+      [{ formatVersion: 2 }, { op: 'save', task }, { op: 'update', task: { ...task, status: 'completed' } }]
+        .map(line => JSON.stringify(line)).join('\n') + '\n',
+      'utf-8'
+    );
+
+    const thoughts = await storage.getThoughts('s1');
+    const tasks = await storage.getTasks('s1');
+
+    expect(thoughts.map(t => t.thought)).toEqual(['First']);
+    expect(tasks.map(t => t.status)).toEqual(['completed']);
+  });
+
+  it('should fall back to legacy thoughts.json', async () => {
+    await writeFile(join(sessionDir(), 'thoughts.json'), JSON.stringify([{ thought: 'Legacy' }]), 'utf-8');
+
+    const thoughts = await storage.getThoughts('s1');
+
+    expect(thoughts.map(t => t.thought)).toEqual(['Legacy']);
+  });
+
+  it('should stamp the format version on write', async () => {
+    await storage.updateSession(session);
+
+    const raw = JSON.parse(await readFile(join(sessionDir(), 'session.json'), 'utf-8'));
+    expect(raw.formatVersion).toBe(FORMAT_VERSION);
+  });
+
+  it('should refuse to overwrite files in a newer format', async () => {
+    await writeFile(
+      join(sessionDir(), 'session.json'),
+      JSON.stringify({ ...session, formatVersion: FORMAT_VERSION + 1 }),
+      'utf-8'
+    );
+
+    await expect(storage.updateSession(session)).rejects.toThrow(/format version/);
+  });
+
+  it('should append session updates to an existing session index', async () => {
+    const indexPath = join(dataPath, 'session-index.jsonl');
+
+    await storage.updateSession(session);
+    await expect(readFile(indexPath, 'utf-8')).rejects.toThrow();
+
+    await writeFile(indexPath, `{"formatVersion":${FORMAT_VERSION}}\n`, 'utf-8');
+    await storage.updateSession({ ...session, status: 'finalized' });
+
+    const lines = (await readFile(indexPath, 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toMatchObject({ op: 'put', session: { id: 's1', status: 'finalized' } });
+  });
+
+  it('should encrypt what it writes and read encrypted and plaintext records', async () => {
+    const cipher = new RecordCipher([randomBytes(32).toString('base64')]);
+    const encrypted = new Storage(dataPath, cipher);
+    const thought = { sessionId: 's1', thought: 'Secret', thoughtNumber: 1, totalThoughts: 2, timestamp: '2024-01-01' };
+    await writeFile(
+      join(sessionDir(), 'thoughts.jsonl'),
+      `{"formatVersion":2}\n${JSON.stringify(thought)}\n${JSON.stringify(cipher.seal({ ...thought, thoughtNumber: 2 }))}\n`,
+      'utf-8'
+    );
+
+    await encrypted.updateSession({ ...session, metadata: { project: 'Secret' } });
+
+    expect(await readFile(join(sessionDir(), 'session.json'), 'utf-8')).not.toContain('Secret');
+    expect((await encrypted.getSession('s1'))?.metadata).toEqual({ project: 'Secret' });
+    expect((await encrypted.getThoughts('s1')).map(t => t.thoughtNumber)).toEqual([1, 2]);
+    await expect(storage.getSession('s1')).rejects.toThrow(/no encryption key/);
+  });
+
+  it('should read archived sessions and unpack them before writing', async () => {
+    const thought = { sessionId: 's1', thought: 'First', thoughtNumber: 1, totalThoughts: 2, timestamp: '2024-01-01' };
+    const archive = {
+      formatVersion: FORMAT_VERSION,
+      archivedAt: '2024-01-02T00:00:00.000Z',
+      files: {
+        'session.json': JSON.stringify({ ...session, formatVersion: FORMAT_VERSION }),
+        'thoughts.jsonl': `{"formatVersion":2}\n${JSON.stringify(thought)}\n`,
+      },
+    };
+    await writeFile(join(sessionDir(), 'archive.json.gz'), gzipSync(JSON.stringify(archive)));
+
+    expect((await storage.getSession('s1'))?.status).toBe('completed');
+    expect(await storage.getThoughts('s1')).toHaveLength(1);
+
+    await storage.updateSession({ ...session, status: 'finalized' });
+
+    await expect(readFile(join(sessionDir(), 'archive.json.gz'))).rejects.toThrow();
+    expect(await readFile(join(sessionDir(), 'thoughts.jsonl'), 'utf-8')).toContain('First');
+    expect((await storage.getSession('s1'))?.status).toBe('finalized');
+  });
+
+  it('should not save documentation for a deleted session', async () => {
+    const doc = { sessionId: 's1', generatedAt: new Date(), summary: 'S', thoughtCount: 0, taskCount: 0, branches: [], content: '# S' };
+    await writeFile(join(sessionDir(), 'session.json'), JSON.stringify(session));
+    expect(await storage.saveDocumentation(doc)).toBe(true);
+
+    await rm(join(sessionDir(), 'session.json'));
+    await rm(join(sessionDir(), 'documentation.json'));
+
+    expect(await storage.saveDocumentation(doc)).toBe(false);
+    expect(await storage.getDocumentation('s1')).toBeNull();
+  });
+
+  it('should refuse session IDs that escape the data directory', async () => {
+    await writeFile(join(dataPath, 'session.json'), JSON.stringify(session));
+
+    for (const id of ['..', '../s1', '/etc/passwd', 's1/../..']) {
+      await expect(storage.getSession(id)).rejects.toThrow('Invalid session ID');
+    }
+  });
+});
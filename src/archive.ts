@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+
+/**
+ * DevPattern - Session Archive CLI
+ * Packs completed and finalized sessions into compressed archives
+ *
+ * Usage: devpattern-archive [--dry-run] [--min-idle-minutes=N] [dataPath]
+ * dataPath defaults to $DATA_PATH or ./data
+ */
+
+import { FileStorage } from './context-layer/storage/file-storage.js';
+import { loadCipherFromEnv } from './context-layer/storage/encryption.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const minIdleArg = args.find(arg => arg.startsWith('--min-idle-minutes='));
+  const minIdleMinutes = minIdleArg ? Number(minIdleArg.split('=')[1]) : 0;
+  const dataPath = args.find(arg => !arg.startsWith('--')) || process.env.DATA_PATH || './data';
+
+  if (!Number.isFinite(minIdleMinutes) || minIdleMinutes < 0) {
+    console.error(`Invalid ${minIdleArg}`);
+    process.exit(1);
+  }
+
+  // Session status is read to pick sessions, so encrypted data needs the key
+  const storage = new FileStorage(dataPath, { cipher: await loadCipherFromEnv() });
+  const report = await storage.archiveSessions({ dryRun, minIdleMs: minIdleMinutes * 60 * 1000 });
+
+  const before = report.archived.reduce((sum, a) => sum + a.bytesBefore, 0);
+  const after = report.archived.reduce((sum, a) => sum + a.bytesAfter, 0);
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    `${dryRun ? '[dry run] ' : ''}${report.sessionsArchived}/${report.sessionsScanned} sessions ` +
+    `${dryRun ? 'would be archived' : 'archived'} (${before} -> ${after} bytes), ${report.errors.length} errors`
+  );
+
+  if (report.errors.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error archiving sessions:", error);
+  process.exit(1);
+});
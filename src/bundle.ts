@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+
+/**
+ * DevPattern - Bundle CLI
+ * Exports sessions into a portable bundle file and imports bundles into the
+ * configured storage backend
+ *
+ * Usage:
+ *   devpattern-bundle export [--session=id ...] [--status=s] [--tag=t] [--out=file] [dataPath]
+ *   devpattern-bundle import <file> [--on-conflict=skip|overwrite|reid] [--dry-run] [dataPath]
+ * Bundles are written to stdout unless --out is given; names ending in .gz are
+ * gzip-compressed. dataPath defaults to $DATA_PATH or ./data
+ */
+
+import { loadStorage } from './context-layer/storage/factory.js';
+import { loadCipherFromEnv } from './context-layer/storage/encryption.js';
+import {
+  exportBundle,
+  importBundle,
+  readBundleFile,
+  writeBundleFile,
+  CONFLICT_STRATEGIES,
+  type ConflictStrategy,
+} from './context-layer/bundle.js';
+import type { SessionQuery } from './context-layer/session-query.js';
+import type { Session } from './context-layer/types.js';
+
+const USAGE = 'Usage: devpattern-bundle export|import ... (see README)';
+
+function option(args: string[], name: string): string | undefined {
+  return options(args, name)[0];
+}
+
+function options(args: string[], name: string): string[] {
+  const prefix = `--${name}=`;
+  return args.filter(arg => arg.startsWith(prefix)).map(arg => arg.slice(prefix.length));
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const positional = args.filter(arg => !arg.startsWith('--'));
+
+  if (command !== 'export' && command !== 'import') {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const bundleFile = command === 'import' ? positional.shift() : undefined;
+  if (command === 'import' && !bundleFile) {
+    console.error('No bundle file given');
+    process.exit(1);
+  }
+  const dataPath = positional[0] || process.env.DATA_PATH || './data';
+
+  const storage = await loadStorage(process.env.STORAGE_BACKEND || 'file', {
+    dataPath,
+    cipher: await loadCipherFromEnv(),
+  });
+
+  if (command === 'export') {
+    const sessionIds = options(args, 'session');
+    const query: SessionQuery = {};
+    const status = option(args, 'status');
+    if (status) query.status = status as Session['status'];
+    const tag = option(args, 'tag');
+    if (tag) query.tag = tag;
+
+    const bundle = await exportBundle(storage, {
+      sessionIds: sessionIds.length > 0 ? sessionIds : undefined,
+      query,
+    });
+    const out = option(args, 'out');
+    if (out) {
+      await writeBundleFile(out, bundle);
+    } else {
+      console.log(JSON.stringify(bundle, null, 2));
+    }
+    console.error(`Exported ${bundle.sessions.length} sessions${out ? ` to ${out}` : ''}`);
+    return;
+  }
+
+  const onConflict = (option(args, 'on-conflict') ?? 'skip') as ConflictStrategy;
+  if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+    console.error(`Invalid --on-conflict: expected one of ${CONFLICT_STRATEGIES.join(', ')}`);
+    process.exit(1);
+  }
+  const dryRun = args.includes('--dry-run');
+
+  const report = await importBundle(storage, await readBundleFile(bundleFile!), { onConflict, dryRun });
+
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    `${dryRun ? '[dry run] ' : ''}${report.imported.length} imported, ` +
+    `${report.overwritten.length} overwritten, ${report.reassigned.length} re-IDed, ` +
+    `${report.skipped.length} skipped, ${report.errors.length} errors`
+  );
+
+  if (report.errors.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error running bundle command:", error);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+/**
+ * Branch Manager
+ * Branch lifecycle: a branch opened with branchFromThought/branchId stays
+ * open until it is merged back into the main line with a conclusion, or
+ * abandoned with a reason. Resolutions are kept on the session record.
+ */
+
+import { withSessionLock, type Storage } from './storage/storage.js';
+import type { BranchResolution, BranchStatus } from './types.js';
+
+/**
+ * Status of each branch, given the branch IDs seen in a session's thoughts
+ */
+export function branchStatuses(
+  branchIds: string[],
+  resolutions: Record<string, BranchResolution> = {}
+): Record<string, BranchStatus> {
+  return Object.fromEntries(branchIds.map(id => [id, resolutions[id]?.status ?? 'open']));
+}
+
+export class BranchManager {
+  private storage: Storage;
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  async mergeBranch(sessionId: string, branchId: string, conclusion: string): Promise<BranchResolution> {
+    return this.resolve(sessionId, branchId, { status: 'merged', conclusion });
+  }
+
+  async abandonBranch(sessionId: string, branchId: string, reason: string): Promise<BranchResolution> {
+    return this.resolve(sessionId, branchId, { status: 'abandoned', reason });
+  }
+
+  private async resolve(
+    sessionId: string,
+    branchId: string,
+    outcome: Pick<BranchResolution, 'status' | 'conclusion' | 'reason'>
+  ): Promise<BranchResolution> {
+    return withSessionLock(this.storage, sessionId, async () => {
+      const session = await this.storage.getSession(sessionId);
+      if (!session) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+
+      const thoughts = await this.storage.getThoughts(sessionId);
+      if (!thoughts.some(t => t.branchId === branchId)) {
+        throw new Error(`Branch not found: ${branchId}`);
+      }
+      const existing = session.branchResolutions?.[branchId];
+      if (existing) {
+        throw new Error(`Branch ${branchId} is already ${existing.status}`);
+      }
+
+      const now = new Date();
+      const resolution: BranchResolution = {
+        ...outcome,
+        atThought: Math.max(...thoughts.map(t => t.thoughtNumber)),
+        resolvedAt: now,
+      };
+      session.branchResolutions = { ...session.branchResolutions, [branchId]: resolution };
+      session.updatedAt = now;
+      await this.storage.updateSession(session);
+      return resolution;
+    });
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Session Briefing
+ * A condensed view of a session for an agent picking it back up: where the
+ * thinking got to, what is still open, and which thought number comes next.
+ */
+
+import type { BranchResolution, DocumentationEntry, SessionContext, TaskCommit, ThoughtRecord } from './types.js';
+
+/** Thoughts included in a briefing unless the caller asks for more or fewer */
+export const DEFAULT_RECENT_THOUGHTS = 5;
+
+export interface BriefingThought {
+  thoughtNumber: number;
+  totalThoughts: number;
+  thought: string;
+  branchId?: string;
+  isRevision?: boolean;
+}
+
+export interface BriefingBranch {
+  branchId: string;
+  fromThought?: number;
+  thoughtCount: number;
+  lastThought: number;
+}
+
+export interface SessionBriefing {
+  sessionId: string;
+  /** Status before resuming */
+  previousStatus: SessionContext['session']['status'];
+  metadata?: Record<string, unknown>;
+  thoughtCount: number;
+  recentThoughts: BriefingThought[];
+  openTasks: Pick<TaskCommit, 'taskId' | 'taskTitle' | 'status' | 'description'>[];
+  openBranches: BriefingBranch[];
+  /** Summary from the latest generated documentation, if any */
+  documentationSummary?: string;
+  nextThoughtNumber: number;
+  /** Latest estimate (or the template's suggestion), raised to cover nextThoughtNumber */
+  totalThoughts: number;
+}
+
+function toBriefingThought(record: ThoughtRecord): BriefingThought {
+  return {
+    thoughtNumber: record.thoughtNumber,
+    totalThoughts: record.totalThoughts,
+    thought: record.thought,
+    ...(record.branchId !== undefined && { branchId: record.branchId }),
+    ...(record.isRevision && { isRevision: true }),
+  };
+}
+
+/**
+ * Branches with thoughts and no merge or abandonment
+ */
+function openBranches(thoughts: ThoughtRecord[], resolutions: Record<string, BranchResolution> = {}): BriefingBranch[] {
+  const branches = new Map<string, BriefingBranch>();
+  for (const record of thoughts) {
+    if (record.branchId === undefined || resolutions[record.branchId]) continue;
+    const branch = branches.get(record.branchId);
+    if (branch) {
+      branch.thoughtCount++;
+      branch.lastThought = record.thoughtNumber;
+    } else {
+      branches.set(record.branchId, {
+        branchId: record.branchId,
+        fromThought: record.branchFromThought,
+        thoughtCount: 1,
+        lastThought: record.thoughtNumber,
+      });
+    }
+  }
+  return [...branches.values()];
+}
+
+export function buildBriefing(
+  context: SessionContext,
+  documentation: DocumentationEntry | null,
+  recentThoughts = DEFAULT_RECENT_THOUGHTS
+): SessionBriefing {
+  const { session, thoughts, tasks } = context;
+  const last = thoughts.at(-1);
+  const nextThoughtNumber = last ? last.thoughtNumber + 1 : 1;
+
+  return {
+    sessionId: session.id,
+    previousStatus: session.status,
+    metadata: session.metadata,
+    thoughtCount: thoughts.length,
+    recentThoughts: recentThoughts > 0 ? thoughts.slice(-recentThoughts).map(toBriefingThought) : [],
+    openTasks: tasks
+      .filter(task => task.status !== 'completed')
+      .map(({ taskId, taskTitle, status, description }) => ({ taskId, taskTitle, status, description })),
+    openBranches: openBranches(thoughts, session.branchResolutions),
+    documentationSummary: documentation?.summary,
+    nextThoughtNumber,
+    totalThoughts: Math.max(last?.totalThoughts ?? session.template?.totalThoughts ?? 1, nextThoughtNumber),
+  };
+}
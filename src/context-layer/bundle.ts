@@ -0,0 +1,298 @@
+/**
+ * Session Bundles
+ * Portable backup/restore: sessions with their thoughts, tasks and
+ * documentation in a single versioned JSON file, each checksummed. Bundles
+ * go through the Storage interface, so they move sessions between any two
+ * backends (e.g. a laptop's file storage and a server's SQLite database).
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { withSessionLock, type Storage } from './storage/storage.js';
+import { filterSessions, type SessionQuery } from './session-query.js';
+import {
+  sessionSchema,
+  thoughtRecordSchema,
+  taskCommitSchema,
+  documentationEntrySchema,
+} from './schemas.js';
+import type { Session, ThoughtRecord, TaskCommit, DocumentationEntry } from './types.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const BUNDLE_FORMAT = 'devpattern-bundle';
+
+export const BUNDLE_VERSION = 1;
+
+export interface BundledSession {
+  session: Session;
+  thoughts: ThoughtRecord[];
+  tasks: TaskCommit[];
+  documentation: DocumentationEntry | null;
+  /** sha256 of the JSON of the four fields above */
+  checksum: string;
+}
+
+export interface SessionBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  sessions: BundledSession[];
+  /** sha256 over the session checksums, in order */
+  checksum: string;
+}
+
+export interface ExportOptions {
+  /** Export only these sessions */
+  sessionIds?: string[];
+  /** Export sessions matching these filters (sorting and paging are ignored) */
+  query?: SessionQuery;
+}
+
+/**
+ * skip: keep the existing session
+ * overwrite: replace it with the bundled one
+ * reid: import the bundled session under a new ID
+ */
+export type ConflictStrategy = 'skip' | 'overwrite' | 'reid';
+
+export const CONFLICT_STRATEGIES: readonly ConflictStrategy[] = ['skip', 'overwrite', 'reid'];
+
+export interface ImportOptions {
+  onConflict?: ConflictStrategy;
+  /** Report what would happen without writing */
+  dryRun?: boolean;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  imported: string[];
+  overwritten: string[];
+  skipped: string[];
+  reassigned: Array<{ from: string; to: string }>;
+  errors: Array<{ sessionId: string; error: string }>;
+}
+
+function sha256(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function sessionChecksum(entry: Omit<BundledSession, 'checksum'>): string {
+  return sha256(JSON.stringify([entry.session, entry.thoughts, entry.tasks, entry.documentation]));
+}
+
+function bundleChecksum(sessions: Array<{ checksum: string }>): string {
+  return sha256(sessions.map(s => s.checksum).join('\n'));
+}
+
+/**
+ * Collect sessions into a bundle. Each session is read under its lock so
+ * its files are consistent with each other.
+ */
+export async function exportBundle(storage: Storage, options: ExportOptions = {}): Promise<SessionBundle> {
+  let sessions = await storage.listSessions();
+  if (options.sessionIds) {
+    const missing = options.sessionIds.filter(id => !sessions.some(s => s.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Session not found: ${missing.join(', ')}`);
+    }
+    sessions = sessions.filter(s => options.sessionIds!.includes(s.id));
+  }
+  if (options.query) {
+    sessions = filterSessions(sessions, options.query);
+  }
+
+  const entries: BundledSession[] = [];
+  for (const { id } of sessions) {
+    const entry = await withSessionLock(storage, id, async () => {
+      const session = await storage.getSession(id);
+      if (!session) return null;
+      const documentation = await storage.getDocumentation(id);
+      const content = {
+        session,
+        thoughts: await storage.getThoughts(id),
+        tasks: await storage.getTasks(id),
+        documentation,
+      };
+      return { ...content, checksum: sessionChecksum(content) };
+    });
+    // Deleted since it was listed
+    if (entry) entries.push(entry);
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    sessions: entries,
+    checksum: bundleChecksum(entries),
+  };
+}
+
+const rawBundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int(),
+  createdAt: z.string(),
+  sessions: z.array(z.object({
+    session: z.unknown(),
+    thoughts: z.array(z.unknown()),
+    tasks: z.array(z.unknown()),
+    documentation: z.unknown(),
+    checksum: z.string(),
+  })),
+  checksum: z.string(),
+});
+
+type RawBundledSession = z.infer<typeof rawBundleSchema>['sessions'][number];
+
+/**
+ * Check a bundle's envelope and overall checksum. Session contents are
+ * verified one at a time on import, so one bad session does not block the
+ * rest.
+ */
+function parseBundle(value: unknown): RawBundledSession[] {
+  const result = rawBundleSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Not a DevPattern bundle: ${result.error.issues[0]?.message}`);
+  }
+  const bundle = result.data;
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${bundle.version} is newer than supported version ${BUNDLE_VERSION}`);
+  }
+  if (bundleChecksum(bundle.sessions) !== bundle.checksum) {
+    throw new Error('Bundle checksum mismatch: the session list was modified or truncated');
+  }
+  return bundle.sessions;
+}
+
+function parseEntry(raw: RawBundledSession): Omit<BundledSession, 'checksum'> {
+  if (sessionChecksum(raw as Omit<BundledSession, 'checksum'>) !== raw.checksum) {
+    throw new Error('checksum mismatch');
+  }
+  const entry = {
+    session: sessionSchema.parse(raw.session),
+    thoughts: z.array(thoughtRecordSchema).parse(raw.thoughts),
+    tasks: z.array(taskCommitSchema).parse(raw.tasks),
+    documentation: raw.documentation === null ? null : documentationEntrySchema.parse(raw.documentation),
+  };
+
+  // Records are written under their own sessionId, so one naming another
+  // session would overwrite that session's data
+  const records = [...entry.thoughts, ...entry.tasks, ...(entry.documentation ? [entry.documentation] : [])];
+  const foreign = records.find(record => record.sessionId !== entry.session.id);
+  if (foreign) {
+    throw new Error(`Record for session ${foreign.sessionId} in the entry for session ${entry.session.id}`);
+  }
+  return entry;
+}
+
+function reassign(entry: Omit<BundledSession, 'checksum'>, sessionId: string): Omit<BundledSession, 'checksum'> {
+  return {
+    session: { ...entry.session, id: sessionId },
+    thoughts: entry.thoughts.map(t => ({ ...t, sessionId })),
+    tasks: entry.tasks.map(t => ({ ...t, sessionId })),
+    documentation: entry.documentation && { ...entry.documentation, sessionId },
+  };
+}
+
+async function writeEntry(storage: Storage, entry: Omit<BundledSession, 'checksum'>): Promise<void> {
+  await storage.createSession(entry.session);
+  for (const thought of entry.thoughts) {
+    await storage.saveThought(thought);
+  }
+  for (const task of entry.tasks) {
+    await storage.saveTask(task);
+  }
+  if (entry.documentation) {
+    await storage.saveDocumentation(entry.documentation);
+  }
+}
+
+/**
+ * Import a parsed bundle file into storage
+ */
+export async function importBundle(
+  storage: Storage,
+  bundle: unknown,
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const onConflict = options.onConflict ?? 'skip';
+  const dryRun = options.dryRun ?? false;
+  const report: ImportReport = {
+    dryRun,
+    imported: [],
+    overwritten: [],
+    skipped: [],
+    reassigned: [],
+    errors: [],
+  };
+
+  for (const raw of parseBundle(bundle)) {
+    const sessionId = (raw.session as Partial<Session> | null)?.id ?? '(unknown)';
+    try {
+      const entry = parseEntry(raw);
+
+      const apply = async () => {
+        const exists = await storage.getSession(entry.session.id) !== null;
+        if (!exists) {
+          report.imported.push(entry.session.id);
+          if (!dryRun) await writeEntry(storage, entry);
+          return;
+        }
+
+        switch (onConflict) {
+          case 'skip':
+            report.skipped.push(entry.session.id);
+            return;
+          case 'overwrite':
+            report.overwritten.push(entry.session.id);
+            if (!dryRun) {
+              await storage.deleteSession(entry.session.id);
+              await writeEntry(storage, entry);
+            }
+            return;
+          case 'reid': {
+            const newId = `session_${randomUUID().slice(0, 12)}`;
+            report.reassigned.push({ from: entry.session.id, to: newId });
+            if (!dryRun) await writeEntry(storage, reassign(entry, newId));
+            return;
+          }
+        }
+      };
+      // A dry run only reads, so it takes no locks
+      await (dryRun ? apply() : withSessionLock(storage, entry.session.id, apply));
+    } catch (error) {
+      report.errors.push({ sessionId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Write a bundle to disk, gzip-compressed when the name ends in .gz
+ */
+export async function writeBundleFile(filePath: string, bundle: SessionBundle): Promise<void> {
+  const content = JSON.stringify(bundle, null, 2);
+  await fs.writeFile(filePath, filePath.endsWith('.gz') ? await gzipAsync(content) : content);
+}
+
+/**
+ * Read a bundle file written by writeBundleFile. The content is validated
+ * by importBundle.
+ */
+export async function readBundleFile(filePath: string): Promise<unknown> {
+  let content = await fs.readFile(filePath);
+  if (filePath.endsWith('.gz')) {
+    content = await gunzipAsync(content);
+  }
+  try {
+    return JSON.parse(content.toString('utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid bundle ${filePath}: ${String(error)}`);
+  }
+}
@@ -4,8 +4,49 @@
  */
 
 import { randomUUID } from 'crypto';
-import type { Storage } from './storage/storage.js';
-import type { Session, ThoughtRecord, SessionContext } from './types.js';
+import { withSessionLock, type Storage } from './storage/storage.js';
+import { querySessions, type SessionQuery, type SessionPage, type SessionSummary } from './session-query.js';
+import type { Session, SessionOutcome, SessionTemplateReference, ThoughtRecord, TaskCommit, SessionContext } from './types.js';
+
+function newSessionId(): string {
+  return `session_${randomUUID().slice(0, 12)}`;
+}
+
+/**
+ * Tasks as they stood once thought `atThought` was recorded, rebuilt from
+ * their history: status and completion come from the last transition at or
+ * before the cut, and later transitions are dropped. Tasks created after the
+ * cut are dropped, as are references to later thoughts. Tasks written before
+ * history was kept fall back to `cutoff`, the time of the first dropped
+ * thought, and go back to pending if they were completed after the cut.
+ */
+function tasksAsOf(tasks: TaskCommit[], atThought: number, cutoff: Date | undefined): TaskCommit[] {
+  return tasks.flatMap((task): TaskCommit[] => {
+    if (task.createdAtThought !== undefined && task.createdAtThought > atThought) return [];
+    if (task.thoughtRefs) {
+      task = { ...task, thoughtRefs: task.thoughtRefs.filter(n => n <= atThought) };
+    }
+
+    if (task.history) {
+      const history = task.history.filter(entry => entry.atThought <= atThought);
+      const last = history.at(-1);
+      if (!last) return [];
+      const completed = last.status === 'completed';
+      return [{
+        ...task,
+        status: last.status,
+        completedAtThought: completed ? last.atThought : 0,
+        completedAt: completed ? last.at : undefined,
+        history,
+      }];
+    }
+
+    if (task.status === 'completed' && task.completedAtThought <= atThought) return [task];
+    if (cutoff && task.createdAt.getTime() >= cutoff.getTime()) return [];
+    if (task.status !== 'completed') return [task];
+    return [{ ...task, status: 'pending', completedAtThought: 0, completedAt: undefined }];
+  });
+}
 
 export class ContextStore {
   private storage: Storage;
@@ -14,8 +55,8 @@ export class ContextStore {
     this.storage = storage;
   }
 
-  async createSession(metadata?: Record<string, unknown>): Promise<string> {
-    const sessionId = `session_${randomUUID().slice(0, 12)}`;
+  async createSession(metadata?: Record<string, unknown>, template?: SessionTemplateReference): Promise<string> {
+    const sessionId = newSessionId();
     const now = new Date();
 
     const session: Session = {
@@ -25,6 +66,7 @@ export class ContextStore {
       status: 'active',
       thoughtCount: 0,
       taskCount: 0,
+      ...(template && { template }),
       metadata,
     };
 
@@ -33,15 +75,27 @@ export class ContextStore {
   }
 
   async saveThought(thought: ThoughtRecord): Promise<void> {
-    await this.storage.saveThought(thought);
+    await withSessionLock(this.storage, thought.sessionId, async () => {
+      // Checked under the lock: the session may have been deleted while
+      // this save waited for it
+      const session = await this.storage.getSession(thought.sessionId);
+      if (!session) {
+        throw new Error(`Session not found: ${thought.sessionId}`);
+      }
+      await this.storage.saveThought(thought);
 
-    // Update session
-    const session = await this.storage.getSession(thought.sessionId);
-    if (session) {
       session.thoughtCount++;
       session.updatedAt = new Date();
       await this.storage.updateSession(session);
-    }
+    });
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    return this.storage.getSession(sessionId);
+  }
+
+  async getThoughts(sessionId: string): Promise<ThoughtRecord[]> {
+    return this.storage.getThoughts(sessionId);
   }
 
   async getContext(sessionId: string): Promise<SessionContext> {
@@ -60,30 +114,145 @@ export class ContextStore {
     };
   }
 
-  async listSessions(): Promise<Array<{
-    id: string;
-    createdAt: string;
-    thoughtCount: number;
-    taskCount: number;
-    status: string;
-  }>> {
-    const sessions = await this.storage.listSessions();
-    return sessions.map(s => ({
-      id: s.id,
-      createdAt: s.createdAt.toString(),
-      thoughtCount: s.thoughtCount,
-      taskCount: s.taskCount,
-      status: s.status,
-    }));
+  async listSessions(query: SessionQuery = {}): Promise<SessionSummary[]> {
+    const page = await this.querySessions(query);
+    return page.sessions;
+  }
+
+  /**
+   * Filtered, sorted, paginated session listing
+   */
+  async querySessions(query: SessionQuery = {}): Promise<SessionPage> {
+    if (this.storage.querySessions) {
+      return this.storage.querySessions(query);
+    }
+    return querySessions(await this.storage.listSessions(), query);
   }
 
   async completeSession(sessionId: string): Promise<void> {
-    const session = await this.storage.getSession(sessionId);
-    if (session) {
-      session.status = 'completed';
+    await withSessionLock(this.storage, sessionId, async () => {
+      const session = await this.storage.getSession(sessionId);
+      if (session) {
+        session.status = 'completed';
+        session.updatedAt = new Date();
+        await this.storage.updateSession(session);
+      }
+    });
+  }
+
+  /**
+   * Record how a session ended. Documentation generation then marks it
+   * completed and publishes the outcome.
+   */
+  async setOutcome(sessionId: string, outcome: SessionOutcome, agentSummary?: string): Promise<Session> {
+    return withSessionLock(this.storage, sessionId, async () => {
+      const session = await this.storage.getSession(sessionId);
+      if (!session) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+      if (session.prunedAt) {
+        throw new Error(`Session ${sessionId} was pruned and cannot be finalized`);
+      }
+      session.outcome = outcome;
+      session.agentSummary = agentSummary;
       session.updatedAt = new Date();
       await this.storage.updateSession(session);
-    }
+      return session;
+    });
+  }
+
+  /**
+   * Copy thoughts 1..atThought of a session, on every line, into a new
+   * session along with its tasks as of that point. Both sessions record the
+   * lineage. Returns the fork's ID.
+   */
+  async forkSession(sourceId: string, atThought: number): Promise<string> {
+    const forkId = newSessionId();
+    const now = new Date();
+
+    await withSessionLock(this.storage, sourceId, async () => {
+      const source = await this.storage.getSession(sourceId);
+      if (!source) {
+        throw new Error(`Session not found: ${sourceId}`);
+      }
+      if (source.prunedAt) {
+        throw new Error(`Session ${sourceId} was pruned and cannot be forked`);
+      }
+
+      const thoughts = await this.storage.getThoughts(sourceId);
+      if (!Number.isInteger(atThought) || !thoughts.some(t => t.thoughtNumber === atThought)) {
+        throw new Error(`Thought ${atThought} not found in session ${sourceId}`);
+      }
+      const kept = thoughts.filter(t => t.thoughtNumber <= atThought);
+      const firstDropped = thoughts
+        .filter(t => t.thoughtNumber > atThought)
+        .reduce<Date | undefined>((min, t) => (!min || t.timestamp < min ? t.timestamp : min), undefined);
+      const tasks = tasksAsOf(await this.storage.getTasks(sourceId), atThought, firstDropped);
+
+      const keptBranches = new Set(kept.map(t => t.branchId));
+      const branchResolutions = Object.fromEntries(
+        Object.entries(source.branchResolutions ?? {})
+          .filter(([branchId, r]) => keptBranches.has(branchId) && r.atThought <= atThought)
+      );
+
+      await this.storage.createSession({
+        id: forkId,
+        createdAt: now,
+        updatedAt: now,
+        status: 'active',
+        thoughtCount: kept.length,
+        taskCount: tasks.length,
+        ...(Object.keys(branchResolutions).length > 0 && { branchResolutions }),
+        forkedFrom: { sessionId: sourceId, atThought, createdAt: now },
+        ...(source.template && { template: source.template }),
+        metadata: source.metadata,
+      });
+      // Thoughts keep their task link only if the task made it into the fork
+      const taskIds = new Set(tasks.map(t => t.taskId));
+      for (const { taskId, ...thought } of kept) {
+        await this.storage.saveThought({
+          ...thought,
+          sessionId: forkId,
+          ...(taskId !== undefined && taskIds.has(taskId) && { taskId }),
+        });
+      }
+      for (const task of tasks) {
+        await this.storage.saveTask({ ...task, sessionId: forkId });
+      }
+
+      source.forks = [...(source.forks ?? []), { sessionId: forkId, atThought, createdAt: now }];
+      source.updatedAt = now;
+      await this.storage.updateSession(source);
+    });
+
+    return forkId;
+  }
+
+  /**
+   * Make a completed or finalized session active again so thinking can
+   * continue, dropping the outcome it ended with: the session will end
+   * again, possibly differently. Pruned sessions cannot be reopened: their
+   * thoughts are gone.
+   */
+  async reopenSession(sessionId: string): Promise<Session> {
+    return withSessionLock(this.storage, sessionId, async () => {
+      const session = await this.storage.getSession(sessionId);
+      if (!session) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+      if (session.prunedAt) {
+        throw new Error(`Session ${sessionId} was pruned and cannot be resumed`);
+      }
+      if (session.status !== 'active') {
+        session.status = 'active';
+        delete session.outcome;
+        delete session.agentSummary;
+        delete session.autoFinalized;
+        session.updatedAt = new Date();
+        await this.storage.updateSession(session);
+      }
+      return session;
+    });
   }
 
   async sessionExists(sessionId: string): Promise<boolean> {
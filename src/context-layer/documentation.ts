@@ -3,9 +3,15 @@
  * Auto-generates documentation from thinking sessions
  */
 
-import type { Storage } from './storage/storage.js';
-import type { DocumentationEntry, ThoughtRecord, TaskCommit } from './types.js';
+import { withSessionLock, type Storage } from './storage/storage.js';
+import type { DocumentationEntry, DocumentationSection, Session, ThoughtRecord, TaskCommit } from './types.js';
 import { getEventPublisher } from './event-publisher.js';
+import { buildThoughtGraph, MAIN_LINE, type ThoughtGraph, type ThoughtNode } from './thought-graph.js';
+import { buildTaskTree, type TaskTreeNode } from './task-graph.js';
+import { thoughtsForTask } from './task-links.js';
+
+// Used unless the session's template lays documentation out differently
+const DEFAULT_SECTIONS: DocumentationSection[] = ['summary', 'tasks', 'task-reasoning', 'branches', 'thoughts', 'alternatives'];
 
 export class DocumentationGenerator {
   private storage: Storage;
@@ -27,8 +33,9 @@ export class DocumentationGenerator {
     const branches = [...new Set(thoughts.filter(t => t.branchId).map(t => t.branchId!))];
 
     // Generate documentation content
-    const content = this.generateContent(thoughts, tasks, branches);
-    const summary = this.generateSummary(thoughts, tasks);
+    const graph = buildThoughtGraph(sessionId, thoughts, session.branchResolutions);
+    const content = this.generateContent(session, graph, thoughts, tasks, branches);
+    const summary = this.generateSummary(session, thoughts, tasks);
 
     const doc: DocumentationEntry = {
       sessionId,
@@ -40,12 +47,19 @@ export class DocumentationGenerator {
       content,
     };
 
-    await this.storage.saveDocumentation(doc);
-
-    // Mark session as completed
-    session.status = 'completed';
-    session.updatedAt = new Date();
-    await this.storage.updateSession(session);
+    // Save and mark the session completed under its lock: saving unpacks an
+    // archived session, and re-reading the session keeps concurrent counter
+    // updates
+    await withSessionLock(this.storage, sessionId, async () => {
+      const latest = await this.storage.getSession(sessionId);
+      if (!latest) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+      await this.storage.saveDocumentation(doc);
+      latest.status = 'completed';
+      latest.updatedAt = new Date();
+      await this.storage.updateSession(latest);
+    });
 
     // Publish session.finalized event to Redis for doc-worker
     const eventPublisher = getEventPublisher();
@@ -54,57 +68,175 @@ export class DocumentationGenerator {
       thoughtCount: thoughts.length,
       taskCount: tasks.length,
       tier: 'basic',
-      outcome: 'completed',
+      outcome: session.outcome,
+      agentSummary: session.agentSummary,
     });
 
     return doc;
   }
 
-  private generateSummary(thoughts: ThoughtRecord[], tasks: TaskCommit[]): string {
+  private generateSummary(session: Session, thoughts: ThoughtRecord[], tasks: TaskCommit[]): string {
     const completedTasks = tasks.filter(t => t.status === 'completed');
     const revisions = thoughts.filter(t => t.isRevision).length;
 
-    return `Session completed with ${thoughts.length} thoughts, ${revisions} revisions, and ${completedTasks.length} tasks completed.`;
+    return `Session ${session.outcome ?? 'completed'} with ${thoughts.length} thoughts, ${revisions} revisions, and ${completedTasks.length} tasks completed.`;
   }
 
   private generateContent(
+    session: Session,
+    graph: ThoughtGraph,
     thoughts: ThoughtRecord[],
     tasks: TaskCommit[],
     branches: string[]
   ): string {
-    let content = '# Thinking Session Documentation\n\n';
+    const layout = session.template?.documentation;
+    const sections: Record<DocumentationSection, () => string> = {
+      summary: () => this.summarySection(session, graph, tasks, branches),
+      tasks: () => this.tasksSection(tasks),
+      'task-reasoning': () => this.taskReasoningSection(thoughts, tasks),
+      branches: () => this.branchesSection(graph),
+      thoughts: () => this.thoughtsSection(graph),
+      alternatives: () => this.alternativesSection(graph),
+    };
 
-    // Summary section
-    content += '## Summary\n\n';
-    content += `- Total thoughts: ${thoughts.length}\n`;
+    let content = `# ${layout?.title ?? 'Thinking Session Documentation'}\n\n`;
+    for (const section of layout?.sections ?? DEFAULT_SECTIONS) {
+      content += sections[section]();
+    }
+    return content;
+  }
+
+  private summarySection(session: Session, graph: ThoughtGraph, tasks: TaskCommit[], branches: string[]): string {
+    let content = '## Summary\n\n';
+    content += `- Total thoughts: ${graph.nodes.length}\n`;
     content += `- Total tasks: ${tasks.length}\n`;
-    content += `- Branches explored: ${branches.length}\n\n`;
-
-    // Tasks section
-    if (tasks.length > 0) {
-      content += '## Tasks\n\n';
-      for (const task of tasks) {
-        const statusEmoji = task.status === 'completed' ? '✅' : task.status === 'in_progress' ? '🔄' : '⏳';
-        content += `### ${statusEmoji} ${task.taskTitle}\n\n`;
-        if (task.description) {
-          content += `${task.description}\n\n`;
-        }
-        content += `- Status: ${task.status}\n`;
-        content += `- Completed at thought: ${task.completedAtThought}\n\n`;
-      }
+    content += `- Branches explored: ${branches.length}\n`;
+    if (session.outcome) {
+      content += `- Outcome: ${session.outcome}\n`;
+    }
+    content += '\n';
+    if (session.agentSummary) {
+      content += `${session.agentSummary}\n\n`;
+    }
+    return content;
+  }
+
+  // Subtasks nested under their parents
+  private tasksSection(tasks: TaskCommit[]): string {
+    if (tasks.length === 0) return '';
+    const tree = buildTaskTree(tasks);
+    const overall = Math.round(tree.reduce((sum, node) => sum + node.completion, 0) / tree.length);
+    let content = '## Tasks\n\n';
+    content += `Overall completion: ${overall}%\n\n`;
+    const titles = new Map(tasks.map(t => [t.taskId, t.taskTitle]));
+    for (const node of tree) {
+      content += this.formatTask(node, titles, 0);
+    }
+    return content + '\n';
+  }
+
+  // The thoughts behind each completed task
+  private taskReasoningSection(thoughts: ThoughtRecord[], tasks: TaskCommit[]): string {
+    const reasoning = tasks
+      .filter(task => task.status === 'completed')
+      .map(task => this.formatTaskReasoning(task, thoughts))
+      .filter(text => text !== '');
+    return reasoning.length > 0 ? '## Task Reasoning\n\n' + reasoning.join('') : '';
+  }
+
+  // How each explored branch ended
+  private branchesSection(graph: ThoughtGraph): string {
+    if (graph.branches.length === 0) return '';
+    let content = '## Branches\n\n';
+    for (const branch of graph.branches) {
+      const statusEmoji = branch.status === 'merged' ? '✅' : branch.status === 'abandoned' ? '🚫' : '🌿';
+      content += `- ${statusEmoji} ${branch.branchId}: ${branch.status}`;
+      if (branch.conclusion) content += ` — ${branch.conclusion}`;
+      if (branch.reason) content += ` — ${branch.reason}`;
+      content += '\n';
     }
+    return content + '\n';
+  }
 
-    // Thought progression section
-    content += '## Thought Progression\n\n';
-    for (const thought of thoughts) {
-      const prefix = thought.isRevision ? '🔄 [Revision]' : thought.branchId ? `🌿 [Branch: ${thought.branchId}]` : '💭';
-      content += `### ${prefix} Thought ${thought.thoughtNumber}/${thought.totalThoughts}\n\n`;
-      content += `${thought.thought}\n\n`;
+  // The current line of reasoning
+  private thoughtsSection(graph: ThoughtGraph): string {
+    let content = '## Thought Progression\n\n';
+    for (const id of graph.currentLine) {
+      content += this.formatThought(graph, graph.nodes[id]);
     }
+    return content;
+  }
 
+  // Line by line, the thoughts that did not end up on the current line
+  private alternativesSection(graph: ThoughtGraph): string {
+    const offLine = graph.nodes.filter(node => !node.current);
+    const lines = [...new Set(offLine.map(node => node.line))];
+    if (lines.length === 0) return '';
+    let content = '## Alternatives and Revised Thoughts\n\n';
+    for (const line of lines) {
+      const branch = graph.branches.find(b => b.branchId === line);
+      const from = branch?.fromNode !== undefined ? ` (from thought ${graph.nodes[branch.fromNode].thoughtNumber})` : '';
+      content += line === MAIN_LINE ? '### Main line\n\n' : `### 🌿 Branch: ${line}${from}\n\n`;
+      for (const node of offLine.filter(n => n.line === line)) {
+        content += this.formatThought(graph, node, '####');
+      }
+    }
     return content;
   }
 
+  private formatTask(node: TaskTreeNode, titles: Map<string, string>, depth: number): string {
+    const { task } = node;
+    const indent = '  '.repeat(depth);
+    const statusEmoji = task.status === 'completed' ? '✅' : task.status === 'in_progress' ? '🔄' : '⏳';
+    let text = `${indent}- ${statusEmoji} **${task.taskTitle}** (${node.completion}%)`;
+    if (task.status === 'completed') {
+      text += ` — completed at thought ${task.completedAtThought}`;
+    }
+    if (task.blockedBy && task.blockedBy.length > 0) {
+      text += ` — blocked by: ${task.blockedBy.map(id => titles.get(id) ?? id).join(', ')}`;
+    }
+    text += '\n';
+    if (task.description) {
+      text += `${indent}  ${task.description}\n`;
+    }
+    for (const child of node.children) {
+      text += this.formatTask(child, titles, depth + 1);
+    }
+    return text;
+  }
+
+  private formatTaskReasoning(task: TaskCommit, thoughts: ThoughtRecord[]): string {
+    const links = thoughtsForTask(task, thoughts);
+    const linked = [...new Set([links.created, ...links.referenced, links.completed])]
+      .filter((t): t is ThoughtRecord => t !== undefined)
+      .sort((a, b) => a.thoughtNumber - b.thoughtNumber);
+    if (linked.length === 0) return '';
+
+    let text = `### ✅ ${task.taskTitle}\n\n`;
+    for (const thought of linked) {
+      const roles = [
+        ...(thought === links.created ? ['created'] : []),
+        ...(thought === links.completed ? ['completed'] : []),
+      ];
+      const label = roles.length > 0 ? ` (${roles.join(', ')})` : '';
+      text += `- Thought ${thought.thoughtNumber}${label}: ${thought.thought}\n`;
+    }
+    return text + '\n';
+  }
+
+  private formatThought(graph: ThoughtGraph, node: ThoughtNode, heading = '###'): string {
+    const prefix = node.isRevision ? '🔄 [Revision]' : node.line !== MAIN_LINE ? `🌿 [Branch: ${node.line}]` : '💭';
+    let text = `${heading} ${prefix} Thought ${node.thoughtNumber}/${node.totalThoughts}\n\n`;
+    if (node.revises !== undefined) {
+      text += `_Revises thought ${graph.nodes[node.revises].thoughtNumber}_\n\n`;
+    }
+    if (node.revisedBy.length > 0) {
+      const by = node.revisedBy.map(id => graph.nodes[id].thoughtNumber).join(', ');
+      text += `_Revised by thought ${by}_\n\n`;
+    }
+    return text + `${node.thought}\n\n`;
+  }
+
   async getDocumentation(sessionId: string): Promise<DocumentationEntry | null> {
     return this.storage.getDocumentation(sessionId);
   }
@@ -4,6 +4,7 @@
  */
 
 import { Redis } from 'ioredis';
+import type { SessionOutcome } from './types.js';
 
 export interface DevPatternEvent {
   type: 'session.thought' | 'session.task_completed' | 'session.finalized' | 'session.idle_timeout';
@@ -91,7 +92,8 @@ export class EventPublisher {
     thoughtCount: number;
     taskCount: number;
     tier?: string;
-    outcome?: string;
+    outcome?: SessionOutcome;
+    agentSummary?: string;
   }): Promise<void> {
     const event: DevPatternEvent = {
       type: 'session.finalized',
@@ -103,6 +105,7 @@ export class EventPublisher {
         taskCount: params.taskCount,
         tier: params.tier || 'basic',
         outcome: params.outcome || 'completed',
+        ...(params.agentSummary !== undefined && { agentSummary: params.agentSummary }),
       },
     };
 
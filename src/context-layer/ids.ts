@@ -0,0 +1,46 @@
+/**
+ * Session and Task IDs
+ * IDs name directories and appear in file paths, so they are limited to
+ * letters, digits, '.', '_' and '-', must start with a letter or digit
+ * (ruling out '.' and '..') and are at most 128 characters.
+ */
+
+import { z } from 'zod';
+
+export const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+export type IdKind = 'session' | 'task';
+
+/**
+ * Raised when a session or task ID does not match ID_PATTERN
+ */
+export class InvalidIdError extends Error {
+  readonly kind: IdKind;
+  readonly id: unknown;
+
+  constructor(kind: IdKind, id: unknown) {
+    super(`Invalid ${kind} ID ${JSON.stringify(id)}: use 1-128 letters, digits, '.', '_' or '-', starting with a letter or digit`);
+    this.name = 'InvalidIdError';
+    this.kind = kind;
+    this.id = id;
+  }
+}
+
+export function isValidId(id: unknown): id is string {
+  return typeof id === 'string' && ID_PATTERN.test(id);
+}
+
+export function assertSessionId(id: unknown): string {
+  if (!isValidId(id)) throw new InvalidIdError('session', id);
+  return id;
+}
+
+export function assertTaskId(id: unknown): string {
+  if (!isValidId(id)) throw new InvalidIdError('task', id);
+  return id;
+}
+
+/** For tool input schemas */
+export const sessionIdSchema = z.string().regex(ID_PATTERN, 'Invalid session ID');
+
+export const taskIdSchema = z.string().regex(ID_PATTERN, 'Invalid task ID');
@@ -3,26 +3,47 @@
  * Main entry point for context persistence and task management
  */
 
-import { FileStorage } from './storage/file-storage.js';
+import { createStorage, type StorageBackend } from './storage/factory.js';
+import type { Storage } from './storage/storage.js';
 import { TaskManager } from './task-manager.js';
+import { BranchManager } from './branch-manager.js';
 import { DocumentationGenerator } from './documentation.js';
 import { ContextStore } from './context-store.js';
-import type { ThoughtRecord, TaskCommit, SessionContext, TaskContext } from './types.js';
+import { assertSessionId, assertTaskId } from './ids.js';
+import { buildThoughtGraph, type ThoughtGraph } from './thought-graph.js';
+import { buildBriefing, type SessionBriefing } from './briefing.js';
+import { taskStatusViews, type TaskListing } from './task-graph.js';
+import { thoughtsForTask, tasksForThought, type TaskThoughts, type ThoughtTaskLink } from './task-links.js';
+import type { SessionTemplate } from './templates.js';
+import type { SessionQuery, SessionPage, SessionSummary } from './session-query.js';
+import type { ThoughtRecord, TaskCommit, TaskStatus, Session, SessionContext, SessionOutcome, TaskContext, BranchResolution } from './types.js';
 
 export interface ContextLayerOptions {
   dataPath: string;
+  /** Backend name or a ready-made Storage instance (default: 'file') */
+  storage?: StorageBackend | Storage;
+  /** Keep all data in memory so nothing is written to disk (overrides storage) */
+  ephemeral?: boolean;
 }
 
 export class ContextLayer {
-  private storage: FileStorage;
+  private storage: Storage;
   private contextStore: ContextStore;
   private taskManager: TaskManager;
+  private branchManager: BranchManager;
   private documentation: DocumentationGenerator;
 
   constructor(options: ContextLayerOptions) {
-    this.storage = new FileStorage(options.dataPath);
+    if (options.ephemeral) {
+      this.storage = createStorage('memory', options);
+    } else if (typeof options.storage === 'object') {
+      this.storage = options.storage;
+    } else {
+      this.storage = createStorage(options.storage || 'file', options);
+    }
     this.contextStore = new ContextStore(this.storage);
     this.taskManager = new TaskManager(this.storage);
+    this.branchManager = new BranchManager(this.storage);
     this.documentation = new DocumentationGenerator(this.storage);
   }
 
@@ -30,8 +51,41 @@ export class ContextLayer {
     return this.contextStore.createSession(metadata);
   }
 
+  /**
+   * Start a session from a template: its metadata under the given metadata,
+   * its tags plus the given tags, and its tasks seeded as pending. The
+   * template is recorded on the session for documentation.
+   */
+  async startSessionFromTemplate(
+    template: SessionTemplate,
+    options: { metadata?: Record<string, unknown>; tags?: string[] } = {}
+  ): Promise<string> {
+    const tags = [...new Set([...(template.tags ?? []), ...(options.tags ?? [])])];
+    const metadata = { ...template.metadata, ...options.metadata, ...(tags.length > 0 && { tags }) };
+    const sessionId = await this.contextStore.createSession(metadata, {
+      name: template.name,
+      totalThoughts: template.totalThoughts,
+      documentation: template.documentation,
+    });
+    for (const task of template.tasks) {
+      await this.taskManager.createTask({ sessionId, ...task, atThought: 0 });
+    }
+    return sessionId;
+  }
+
+  async sessionExists(sessionId: string): Promise<boolean> {
+    assertSessionId(sessionId);
+    return this.contextStore.sessionExists(sessionId);
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    assertSessionId(sessionId);
+    return this.contextStore.getSession(sessionId);
+  }
+
   async ensureSession(sessionId?: string): Promise<string> {
-    if (sessionId) {
+    if (sessionId !== undefined) {
+      assertSessionId(sessionId);
       const exists = await this.contextStore.sessionExists(sessionId);
       if (exists) {
         return sessionId;
@@ -44,6 +98,11 @@ export class ContextLayer {
     return this.contextStore.saveThought(thought);
   }
 
+  async getThoughts(sessionId: string): Promise<ThoughtRecord[]> {
+    assertSessionId(sessionId);
+    return this.contextStore.getThoughts(sessionId);
+  }
+
   async commitTask(params: {
     sessionId: string;
     taskId?: string;
@@ -51,32 +110,271 @@ export class ContextLayer {
     description?: string;
     completedAtThought: number;
   }): Promise<TaskCommit> {
+    assertSessionId(params.sessionId);
+    if (params.taskId !== undefined) assertTaskId(params.taskId);
     return this.taskManager.commitTask(params);
   }
 
+  /**
+   * Link a task to a thought that named it, creating the task if needed
+   */
+  async referenceTask(params: {
+    sessionId: string;
+    taskId: string;
+    taskTitle?: string;
+    description?: string;
+    thoughtNumber: number;
+  }): Promise<TaskCommit> {
+    assertSessionId(params.sessionId);
+    assertTaskId(params.taskId);
+    return this.taskManager.referenceTask(params);
+  }
+
+  async createTask(params: {
+    sessionId: string;
+    taskId?: string;
+    taskTitle: string;
+    description?: string;
+    status?: Exclude<TaskStatus, 'completed'>;
+    parentTaskId?: string;
+    blockedBy?: string[];
+  }): Promise<TaskCommit> {
+    await this.requireSession(params.sessionId);
+    if (params.taskId !== undefined) assertTaskId(params.taskId);
+    return this.taskManager.createTask({ ...params, atThought: await this.latestThoughtNumber(params.sessionId) });
+  }
+
+  /**
+   * Update a task. Status changes without a thought number are recorded at
+   * the session's latest thought.
+   */
+  async updateTask(
+    sessionId: string,
+    taskId: string,
+    changes: {
+      status?: TaskStatus;
+      taskTitle?: string;
+      description?: string;
+      parentTaskId?: string | null;
+      blockedBy?: string[];
+      atThought?: number;
+    }
+  ): Promise<TaskCommit> {
+    await this.requireSession(sessionId);
+    assertTaskId(taskId);
+    if (changes.status !== undefined && changes.atThought === undefined) {
+      changes = { ...changes, atThought: await this.latestThoughtNumber(sessionId) };
+    }
+    return this.taskManager.updateTask(sessionId, taskId, changes);
+  }
+
+  async getTask(sessionId: string, taskId: string): Promise<TaskCommit> {
+    await this.requireSession(sessionId);
+    assertTaskId(taskId);
+    const task = await this.taskManager.getTask(sessionId, taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    return task;
+  }
+
+  /**
+   * The thoughts that created, referenced and completed a task
+   */
+  async getTaskThoughts(sessionId: string, taskId: string): Promise<TaskThoughts> {
+    const task = await this.getTask(sessionId, taskId);
+    return thoughtsForTask(task, await this.contextStore.getThoughts(sessionId));
+  }
+
+  /**
+   * The tasks a thought created, referenced or completed
+   */
+  async getThoughtTasks(sessionId: string, thoughtNumber: number): Promise<ThoughtTaskLink[]> {
+    await this.requireSession(sessionId);
+    return tasksForThought(await this.taskManager.getTasks(sessionId), thoughtNumber);
+  }
+
+  /**
+   * A session's tasks, each marked with whether it can be worked on now
+   */
+  async listTasks(
+    sessionId: string,
+    filter: { status?: TaskStatus; actionable?: boolean } = {}
+  ): Promise<TaskListing[]> {
+    await this.requireSession(sessionId);
+    const tasks = await this.taskManager.getTasks(sessionId);
+    const views = taskStatusViews(tasks);
+    return tasks
+      .map(task => ({ ...task, ...views.get(task.taskId)! }))
+      .filter(task => !filter.status || task.status === filter.status)
+      .filter(task => filter.actionable === undefined || task.actionable === filter.actionable);
+  }
+
   async generateDocumentation(sessionId: string): Promise<void> {
     await this.documentation.generate(sessionId);
   }
 
+  /**
+   * End a session with an explicit outcome and the agent's own summary,
+   * then generate its documentation and publish session.finalized
+   */
+  async finalizeSession(
+    sessionId: string,
+    params: { outcome: SessionOutcome; agentSummary?: string }
+  ): Promise<Session> {
+    assertSessionId(sessionId);
+    await this.contextStore.setOutcome(sessionId, params.outcome, params.agentSummary);
+    await this.documentation.generate(sessionId);
+    return (await this.contextStore.getContext(sessionId)).session;
+  }
+
   async getContext(sessionId: string): Promise<SessionContext> {
+    assertSessionId(sessionId);
     return this.contextStore.getContext(sessionId);
   }
 
-  async listSessions(): Promise<Array<{
-    id: string;
-    createdAt: string;
-    thoughtCount: number;
-    taskCount: number;
-    status: string;
-  }>> {
-    return this.contextStore.listSessions();
+  /**
+   * Copy a session up to a thought into a new session; returns the fork's ID
+   */
+  async forkSession(sessionId: string, atThought: number): Promise<string> {
+    assertSessionId(sessionId);
+    return this.contextStore.forkSession(sessionId, atThought);
+  }
+
+  /**
+   * Reopen a session and return a condensed briefing for continuing it
+   */
+  async resumeSession(sessionId: string, options: { recentThoughts?: number } = {}): Promise<SessionBriefing> {
+    assertSessionId(sessionId);
+    const context = await this.contextStore.getContext(sessionId);
+    await this.contextStore.reopenSession(sessionId);
+    const documentation = await this.documentation.getDocumentation(sessionId);
+    return buildBriefing(context, documentation, options.recentThoughts);
+  }
+
+  /**
+   * The session's thoughts as a graph of sequence, branch and revision edges
+   */
+  async getThoughtGraph(sessionId: string): Promise<ThoughtGraph> {
+    assertSessionId(sessionId);
+    const { session, thoughts } = await this.contextStore.getContext(sessionId);
+    return buildThoughtGraph(sessionId, thoughts, session.branchResolutions);
+  }
+
+  /**
+   * Merged and abandoned branches, by branchId
+   */
+  async getBranchResolutions(sessionId: string): Promise<Record<string, BranchResolution>> {
+    assertSessionId(sessionId);
+    const { session } = await this.contextStore.getContext(sessionId);
+    return session.branchResolutions ?? {};
+  }
+
+  /**
+   * Close a branch by folding its conclusion back into the main line
+   */
+  async mergeBranch(sessionId: string, branchId: string, conclusion: string): Promise<BranchResolution> {
+    assertSessionId(sessionId);
+    return this.branchManager.mergeBranch(sessionId, branchId, conclusion);
+  }
+
+  /**
+   * Close a branch as a dead end
+   */
+  async abandonBranch(sessionId: string, branchId: string, reason: string): Promise<BranchResolution> {
+    assertSessionId(sessionId);
+    return this.branchManager.abandonBranch(sessionId, branchId, reason);
+  }
+
+  async listSessions(query?: SessionQuery): Promise<SessionSummary[]> {
+    return this.contextStore.listSessions(query);
+  }
+
+  async querySessions(query?: SessionQuery): Promise<SessionPage> {
+    return this.contextStore.querySessions(query);
   }
 
   shouldCommitTask(taskContext?: TaskContext): boolean {
     return this.taskManager.shouldCommitTask(taskContext);
   }
+
+  private async latestThoughtNumber(sessionId: string): Promise<number> {
+    const thoughts = await this.contextStore.getThoughts(sessionId);
+    return thoughts.at(-1)?.thoughtNumber ?? 0;
+  }
+
+  private async requireSession(sessionId: string): Promise<void> {
+    assertSessionId(sessionId);
+    if (!await this.contextStore.sessionExists(sessionId)) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+  }
 }
 
+// Re-export storage
+export { InvalidIdError, ID_PATTERN, isValidId, assertSessionId, assertTaskId } from './ids.js';
+export { resolveWithin, sessionDirPath } from './storage/paths.js';
+export type { Storage } from './storage/storage.js';
+export { FileStorage } from './storage/file-storage.js';
+export { SqliteStorage } from './storage/sqlite-storage.js';
+export { MemoryStorage } from './storage/memory-storage.js';
+export { createStorage, loadStorage, STORAGE_BACKENDS } from './storage/factory.js';
+export { StorageCorruptionError, UnsupportedFormatVersionError, EncryptionKeyError } from './storage/errors.js';
+export { RecordCipher, loadCipherFromEnv, generateKey } from './storage/encryption.js';
+export { rotateEncryptionKey } from './storage/key-rotation.js';
+export { ArchiveScheduler } from './storage/archive-scheduler.js';
+export type { ArchiveScheduleOptions } from './storage/archive-scheduler.js';
+export type { ArchiveOptions, ArchiveReport, FileStorageOptions } from './storage/file-storage.js';
+export type { KeyRotationReport, KeyRotationOptions } from './storage/key-rotation.js';
+export { FORMAT_VERSION } from './storage/format.js';
+export { migrateDataDirectory } from './storage/migrations.js';
+export type { MigrationReport, MigrationAction, MigrationOptions } from './storage/migrations.js';
+export type { StorageBackend, StorageFactory, StorageFactoryOptions } from './storage/factory.js';
+
 // Re-export types
+export { buildThoughtGraph, MAIN_LINE } from './thought-graph.js';
+export { BranchManager, branchStatuses } from './branch-manager.js';
+export { buildBriefing, DEFAULT_RECENT_THOUGHTS } from './briefing.js';
+export { repairTasks, mergeDuplicateTasks } from './task-repair.js';
+export { buildTaskTree, taskStatusViews, validateTaskRelations } from './task-graph.js';
+export type { TaskTreeNode, TaskStatusView, TaskListing, TaskRelations } from './task-graph.js';
+export { thoughtsForTask, tasksForThought } from './task-links.js';
+export { loadTemplates, loadTemplate, parseSessionTemplate, summarizeTemplate } from './templates.js';
+export type { SessionTemplate, TemplateTask, TemplateSummary } from './templates.js';
+export type { TaskThoughts, ThoughtTaskLink, TaskLinkRole } from './task-links.js';
+export type { TaskRepairOptions, TaskRepairReport, SessionRepair } from './task-repair.js';
+export type { SessionBriefing, BriefingThought, BriefingBranch } from './briefing.js';
+export type { ThoughtGraph, ThoughtNode, ThoughtEdge, ThoughtEdgeType, ThoughtBranch } from './thought-graph.js';
 export * from './types.js';
+export type { SessionQuery, SessionPage, SessionSummary, ForkTreeNode } from './session-query.js';
+export {
+  collectGarbage,
+  matchRetentionRule,
+  parseRetentionPolicy,
+  loadRetentionPolicy,
+  RetentionScheduler,
+} from './retention.js';
+export type {
+  RetentionPolicy,
+  RetentionRule,
+  RetentionAction,
+  GarbageCollectionOptions,
+  GarbageCollectionReport,
+} from './retention.js';
 
+export {
+  exportBundle,
+  importBundle,
+  readBundleFile,
+  writeBundleFile,
+  BUNDLE_VERSION,
+  CONFLICT_STRATEGIES,
+} from './bundle.js';
+export type {
+  SessionBundle,
+  BundledSession,
+  ExportOptions,
+  ImportOptions,
+  ImportReport,
+  ConflictStrategy,
+} from './bundle.js';
@@ -0,0 +1,231 @@
+/**
+ * Retention Policies
+ * Ordered rules deciding when old sessions are deleted or pruned down to
+ * their documentation, and the garbage collector that enforces them.
+ *
+ * The first rule that would change a session applies: keep-documentation
+ * rules are passed over for sessions already pruned. Each session is re-read and
+ * re-matched under its lock before anything is removed.
+ */
+
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { withSessionLock, type Storage } from './storage/storage.js';
+import { sessionTags } from './session-query.js';
+import type { Session, SessionOutcome } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * delete: remove the session entirely
+ * keep-documentation: drop thoughts and tasks, keep the session record and
+ *   its documentation (sessions without documentation are left alone)
+ */
+export type RetentionAction = 'delete' | 'keep-documentation';
+
+export interface RetentionRule {
+  /** Shown in reports; defaults to the rule's position */
+  name?: string;
+  /** Days since the session was last updated */
+  olderThanDays: number;
+  status?: Session['status'][];
+  outcome?: SessionOutcome[];
+  autoFinalized?: boolean;
+  /** Matches sessions whose metadata.tags contains this tag */
+  tag?: string;
+  action: RetentionAction;
+}
+
+export interface RetentionPolicy {
+  rules: RetentionRule[];
+}
+
+const oneOrMany = <T extends z.ZodTypeAny>(schema: T) =>
+  z.union([schema, z.array(schema)])
+    .transform((value): z.infer<T>[] => (Array.isArray(value) ? value : [value]));
+
+const retentionRuleSchema = z.object({
+  name: z.string().optional(),
+  olderThanDays: z.number().nonnegative(),
+  status: oneOrMany(z.enum(['active', 'completed', 'finalized'])).optional(),
+  outcome: oneOrMany(z.enum(['completed', 'abandoned', 'deferred'])).optional(),
+  autoFinalized: z.boolean().optional(),
+  tag: z.string().optional(),
+  action: z.enum(['delete', 'keep-documentation']),
+}).strict();
+
+const retentionPolicySchema: z.ZodType<RetentionPolicy, z.ZodTypeDef, unknown> = z.object({
+  rules: z.array(retentionRuleSchema),
+});
+
+/**
+ * Validate a parsed policy document. Status and outcome may be given as a
+ * single value or a list.
+ */
+export function parseRetentionPolicy(value: unknown): RetentionPolicy {
+  const result = retentionPolicySchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid retention policy at ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+export async function loadRetentionPolicy(filePath: string): Promise<RetentionPolicy> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid retention policy ${filePath}: ${String(error)}`);
+  }
+  return parseRetentionPolicy(value);
+}
+
+function ruleName(policy: RetentionPolicy, rule: RetentionRule): string {
+  return rule.name ?? `rule ${policy.rules.indexOf(rule) + 1}`;
+}
+
+function ruleMatches(rule: RetentionRule, session: Session, now: Date): boolean {
+  if (rule.action === 'keep-documentation' && session.prunedAt) return false;
+  if (now.getTime() - session.updatedAt.getTime() < rule.olderThanDays * DAY_MS) return false;
+  if (rule.status && !rule.status.includes(session.status)) return false;
+  if (rule.outcome && (!session.outcome || !rule.outcome.includes(session.outcome))) return false;
+  if (rule.autoFinalized !== undefined && (session.autoFinalized ?? false) !== rule.autoFinalized) return false;
+  if (rule.tag && !sessionTags(session).includes(rule.tag)) return false;
+  return true;
+}
+
+/**
+ * First rule of the policy that applies to a session, if any
+ */
+export function matchRetentionRule(policy: RetentionPolicy, session: Session, now = new Date()): RetentionRule | undefined {
+  return policy.rules.find(rule => ruleMatches(rule, session, now));
+}
+
+export interface GarbageCollectionOptions {
+  /** Report what would be removed without changing anything */
+  dryRun?: boolean;
+  /** Reference time for rule ages; defaults to now */
+  now?: Date;
+}
+
+export interface GarbageCollectionReport {
+  dryRun: boolean;
+  sessionsScanned: number;
+  actions: Array<{ sessionId: string; rule: string; action: RetentionAction }>;
+  skipped: Array<{ sessionId: string; rule: string; reason: string }>;
+  errors: Array<{ sessionId: string; error: string }>;
+}
+
+/**
+ * Apply a retention policy to every session in storage
+ */
+export async function collectGarbage(
+  storage: Storage,
+  policy: RetentionPolicy,
+  options: GarbageCollectionOptions = {}
+): Promise<GarbageCollectionReport> {
+  const dryRun = options.dryRun ?? false;
+  const now = options.now ?? new Date();
+  const report: GarbageCollectionReport = {
+    dryRun,
+    sessionsScanned: 0,
+    actions: [],
+    skipped: [],
+    errors: [],
+  };
+
+  for (const candidate of await storage.listSessions()) {
+    report.sessionsScanned++;
+    if (!matchRetentionRule(policy, candidate, now)) continue;
+
+    try {
+      await withSessionLock(storage, candidate.id, async () => {
+        // The session may have changed since it was listed
+        const session = await storage.getSession(candidate.id);
+        const rule = session && matchRetentionRule(policy, session, now);
+        if (!session || !rule) return;
+
+        const name = ruleName(policy, rule);
+        if (rule.action === 'keep-documentation') {
+          if (!storage.pruneSession) {
+            throw new Error('storage backend does not support pruning sessions');
+          }
+          if (!await storage.getDocumentation(session.id)) {
+            report.skipped.push({ sessionId: session.id, rule: name, reason: 'no documentation' });
+            return;
+          }
+        }
+
+        report.actions.push({ sessionId: session.id, rule: name, action: rule.action });
+        if (dryRun) return;
+
+        if (rule.action === 'delete') {
+          await storage.deleteSession(session.id);
+        } else {
+          await storage.pruneSession!(session.id);
+          await storage.updateSession({ ...session, prunedAt: new Date() });
+        }
+      });
+    } catch (error) {
+      report.errors.push({ sessionId: candidate.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Runs collectGarbage periodically
+ */
+export class RetentionScheduler {
+  private storage: Storage;
+  private policy: RetentionPolicy;
+  private intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(storage: Storage, policy: RetentionPolicy, intervalMs: number) {
+    this.storage = storage;
+    this.policy = policy;
+    this.intervalMs = intervalMs;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('[Retention] Run failed:', error));
+    }, this.intervalMs);
+    // Never keep the process alive just to collect garbage
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Apply the policy now. Returns null if a previous run is still going.
+   */
+  async runOnce(): Promise<GarbageCollectionReport | null> {
+    if (this.running) return null;
+    this.running = true;
+    try {
+      const report = await collectGarbage(this.storage, this.policy);
+      if (report.actions.length > 0 || report.errors.length > 0) {
+        const deleted = report.actions.filter(a => a.action === 'delete').length;
+        console.error(
+          `[Retention] Deleted ${deleted} sessions, pruned ${report.actions.length - deleted}, ` +
+          `${report.errors.length} errors`
+        );
+      }
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Schemas for persisted Context Layer records
+ * Applied on every read so stored data is validated and dates are revived.
+ * Objects pass unknown keys through, so fields written by other processes
+ * (e.g. the doc-worker's outcome/tier) survive a read-modify-write cycle.
+ */
+
+import { z } from 'zod';
+import type { Session, ThoughtRecord, TaskCommit, DocumentationEntry } from './types.js';
+
+const forkReferenceSchema = z.object({
+  sessionId: z.string(),
+  atThought: z.number().int(),
+  createdAt: z.coerce.date(),
+}).passthrough();
+
+export const documentationSectionSchema = z.enum(['summary', 'tasks', 'task-reasoning', 'branches', 'thoughts', 'alternatives']);
+
+export const documentationLayoutSchema = z.object({
+  title: z.string().optional(),
+  sections: z.array(documentationSectionSchema).optional(),
+}).passthrough();
+
+export const sessionSchema: z.ZodType<Session, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  status: z.enum(['active', 'completed', 'finalized']),
+  thoughtCount: z.number().int().nonnegative(),
+  taskCount: z.number().int().nonnegative(),
+  outcome: z.enum(['completed', 'abandoned', 'deferred']).optional(),
+  agentSummary: z.string().optional(),
+  autoFinalized: z.boolean().optional(),
+  prunedAt: z.coerce.date().optional(),
+  branchResolutions: z.record(z.object({
+    status: z.enum(['merged', 'abandoned']),
+    conclusion: z.string().optional(),
+    reason: z.string().optional(),
+    atThought: z.number().int(),
+    resolvedAt: z.coerce.date(),
+  }).passthrough()).optional(),
+  forkedFrom: forkReferenceSchema.optional(),
+  forks: z.array(forkReferenceSchema).optional(),
+  template: z.object({
+    name: z.string(),
+    totalThoughts: z.number().int().optional(),
+    documentation: documentationLayoutSchema.optional(),
+  }).passthrough().optional(),
+  metadata: z.record(z.unknown()).optional(),
+}).passthrough();
+
+export const thoughtRecordSchema: z.ZodType<ThoughtRecord, z.ZodTypeDef, unknown> = z.object({
+  sessionId: z.string(),
+  thought: z.string(),
+  thoughtNumber: z.number().int(),
+  totalThoughts: z.number().int(),
+  branchId: z.string().optional(),
+  branchFromThought: z.number().int().optional(),
+  isRevision: z.boolean().optional(),
+  revisesThought: z.number().int().optional(),
+  taskId: z.string().optional(),
+  timestamp: z.coerce.date(),
+}).passthrough();
+
+const taskStatusSchema = z.enum(['pending', 'in_progress', 'completed']);
+
+export const taskCommitSchema: z.ZodType<TaskCommit, z.ZodTypeDef, unknown> = z.object({
+  sessionId: z.string(),
+  taskId: z.string(),
+  taskTitle: z.string(),
+  description: z.string().optional(),
+  completedAtThought: z.number().int(),
+  status: taskStatusSchema,
+  createdAt: z.coerce.date(),
+  completedAt: z.coerce.date().optional(),
+  parentTaskId: z.string().optional(),
+  blockedBy: z.array(z.string()).optional(),
+  history: z.array(z.object({
+    from: taskStatusSchema.optional(),
+    status: taskStatusSchema,
+    at: z.coerce.date(),
+    atThought: z.number().int(),
+  }).passthrough()).optional(),
+  createdAtThought: z.number().int().optional(),
+  thoughtRefs: z.array(z.number().int()).optional(),
+}).passthrough();
+
+export const documentationEntrySchema: z.ZodType<DocumentationEntry, z.ZodTypeDef, unknown> = z.object({
+  sessionId: z.string(),
+  generatedAt: z.coerce.date(),
+  summary: z.string(),
+  thoughtCount: z.number().int(),
+  taskCount: z.number().int(),
+  branches: z.array(z.string()),
+  content: z.string(),
+}).passthrough();
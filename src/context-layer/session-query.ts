@@ -0,0 +1,212 @@
+/**
+ * Session Query
+ * Filtering, sorting and cursor pagination over session listings
+ */
+
+import type { Session } from './types.js';
+
+export interface SessionQuery {
+  status?: Session['status'];
+  createdAfter?: Date;
+  createdBefore?: Date;
+  updatedAfter?: Date;
+  updatedBefore?: Date;
+  /** Matches sessions whose metadata.tags array contains this tag */
+  tag?: string;
+  /** Every key must equal the session's metadata value */
+  metadata?: Record<string, unknown>;
+  /** Limits results to the fork tree containing this session, and returns the tree */
+  forkTree?: string;
+  sortBy?: 'createdAt' | 'updatedAt';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  thoughtCount: number;
+  taskCount: number;
+  status: string;
+  tags?: string[];
+  /** Session this one was forked from */
+  forkedFrom?: string;
+  /** Sessions forked from this one */
+  forks?: string[];
+}
+
+export interface ForkTreeNode {
+  sessionId: string;
+  status: string;
+  /** Source thought the fork was taken at; absent on the root */
+  atThought?: number;
+  children: ForkTreeNode[];
+}
+
+export interface SessionPage {
+  sessions: SessionSummary[];
+  /** Number of sessions matching the filters, across all pages */
+  total: number;
+  nextCursor?: string;
+  /** The fork tree, when the query names one */
+  tree?: ForkTreeNode;
+}
+
+/** Where a page ended: the last session's sort key, in ms, and ID */
+export interface CursorPosition {
+  key: number;
+  id: string;
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as CursorPosition;
+    if (typeof position.key === 'number' && typeof position.id === 'string') {
+      return position;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+export function sessionTags(session: Session): string[] {
+  const tags = session.metadata?.tags;
+  return Array.isArray(tags) ? tags.filter((t): t is string => typeof t === 'string') : [];
+}
+
+function matches(session: Session, query: SessionQuery): boolean {
+  const created = session.createdAt.getTime();
+  const updated = session.updatedAt.getTime();
+
+  if (query.status && session.status !== query.status) return false;
+  if (query.createdAfter && created < query.createdAfter.getTime()) return false;
+  if (query.createdBefore && created > query.createdBefore.getTime()) return false;
+  if (query.updatedAfter && updated < query.updatedAfter.getTime()) return false;
+  if (query.updatedBefore && updated > query.updatedBefore.getTime()) return false;
+  if (query.tag && !sessionTags(session).includes(query.tag)) return false;
+
+  if (query.metadata) {
+    for (const [key, value] of Object.entries(query.metadata)) {
+      if (JSON.stringify(session.metadata?.[key]) !== JSON.stringify(value)) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * The fork tree containing a session: its oldest known ancestor and every
+ * session descending from it
+ */
+export function buildForkTree(sessions: Session[], sessionId: string): ForkTreeNode {
+  const byId = new Map(sessions.map(s => [s.id, s]));
+  let root = byId.get(sessionId);
+  if (!root) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+  // Walk up to the root; the seen set guards against corrupted cycles
+  const seen = new Set<string>([root.id]);
+  let parent = root.forkedFrom && byId.get(root.forkedFrom.sessionId);
+  while (parent && !seen.has(parent.id)) {
+    seen.add(parent.id);
+    root = parent;
+    parent = root.forkedFrom && byId.get(root.forkedFrom.sessionId);
+  }
+
+  const children = new Map<string, Session[]>();
+  for (const session of sessions) {
+    const parentId = session.forkedFrom?.sessionId;
+    if (parentId !== undefined) {
+      children.set(parentId, [...(children.get(parentId) ?? []), session]);
+    }
+  }
+
+  const visited = new Set<string>();
+  const toNode = (session: Session): ForkTreeNode => {
+    visited.add(session.id);
+    return {
+      sessionId: session.id,
+      status: session.status,
+      ...(session.id !== root!.id && session.forkedFrom && { atThought: session.forkedFrom.atThought }),
+      children: (children.get(session.id) ?? [])
+        .filter(child => !visited.has(child.id))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map(toNode),
+    };
+  };
+  return toNode(root);
+}
+
+function treeMembers(node: ForkTreeNode, into = new Set<string>()): Set<string> {
+  into.add(node.sessionId);
+  for (const child of node.children) treeMembers(child, into);
+  return into;
+}
+
+/**
+ * Sessions matching the query's filters, in their original order. Sorting
+ * and pagination fields are ignored.
+ */
+export function filterSessions(sessions: Session[], query: SessionQuery = {}): Session[] {
+  return sessions.filter(s => matches(s, query));
+}
+
+export function toSessionSummary(session: Session): SessionSummary {
+  const tags = sessionTags(session);
+  return {
+    id: session.id,
+    createdAt: session.createdAt.toISOString(),
+    updatedAt: session.updatedAt.toISOString(),
+    thoughtCount: session.thoughtCount,
+    taskCount: session.taskCount,
+    status: session.status,
+    ...(tags.length > 0 && { tags }),
+    ...(session.forkedFrom && { forkedFrom: session.forkedFrom.sessionId }),
+    ...(session.forks && session.forks.length > 0 && { forks: session.forks.map(f => f.sessionId) }),
+  };
+}
+
+/**
+ * Apply a query to a full session list. Pagination is keyset-based on
+ * (sort key, id), so pages stay stable while sessions are being added. IDs
+ * compare by code unit, as in SQL, so every backend pages the same way.
+ */
+export function querySessions(sessions: Session[], query: SessionQuery = {}): SessionPage {
+  const sortBy = query.sortBy || 'createdAt';
+  const direction = query.order === 'desc' ? -1 : 1;
+  const keyOf = (s: Session) => s[sortBy].getTime();
+  const compare = (aKey: number, aId: string, bKey: number, bId: string) =>
+    (aKey - bKey || (aId < bId ? -1 : aId > bId ? 1 : 0)) * direction;
+
+  const tree = query.forkTree !== undefined ? buildForkTree(sessions, query.forkTree) : undefined;
+  const members = tree && treeMembers(tree);
+  const filtered = filterSessions(sessions, query)
+    .filter(s => !members || members.has(s.id))
+    .sort((a, b) => compare(keyOf(a), a.id, keyOf(b), b.id));
+
+  let start = 0;
+  if (query.cursor) {
+    const position = decodeCursor(query.cursor);
+    start = filtered.findIndex(s => compare(keyOf(s), s.id, position.key, position.id) > 0);
+    if (start < 0) start = filtered.length;
+  }
+
+  const end = query.limit !== undefined ? start + query.limit : filtered.length;
+  const page = filtered.slice(start, end);
+  const last = page[page.length - 1];
+
+  return {
+    sessions: page.map(toSessionSummary),
+    total: filtered.length,
+    ...(end < filtered.length && last && { nextCursor: encodeCursor({ key: keyOf(last), id: last.id }) }),
+    ...(tree && { tree }),
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Archive Scheduler
+ * Periodically packs completed and finalized sessions of a FileStorage
+ */
+
+import type { FileStorage, ArchiveReport } from './file-storage.js';
+
+export interface ArchiveScheduleOptions {
+  intervalMs: number;
+  /** Only archive sessions not updated for at least this long */
+  minIdleMs: number;
+}
+
+export class ArchiveScheduler {
+  private storage: FileStorage;
+  private options: ArchiveScheduleOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(storage: FileStorage, options: ArchiveScheduleOptions) {
+    this.storage = storage;
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => console.error('[Archive] Run failed:', error));
+    }, this.options.intervalMs);
+    // Never keep the process alive just to archive
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Archive due sessions now. Returns null if a previous run is still going.
+   */
+  async runOnce(): Promise<ArchiveReport | null> {
+    if (this.running) return null;
+    this.running = true;
+    try {
+      const report = await this.storage.archiveSessions({ minIdleMs: this.options.minIdleMs });
+      if (report.sessionsArchived > 0 || report.errors.length > 0) {
+        const before = report.archived.reduce((sum, a) => sum + a.bytesBefore, 0);
+        const after = report.archived.reduce((sum, a) => sum + a.bytesAfter, 0);
+        console.error(
+          `[Archive] Archived ${report.sessionsArchived} sessions (${before} -> ${after} bytes), ` +
+          `${report.errors.length} errors`
+        );
+      }
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Session Archives
+ * Packs the files of a session that will no longer change into a single
+ * gzip-compressed archive.json.gz in its directory. File contents are stored
+ * verbatim, so encrypted records stay encrypted and unpacking restores the
+ * exact files.
+ *
+ * Loose files always win over the archive when both exist: packing writes
+ * the archive before removing the files, and unpacking restores the files
+ * before removing the archive, so a crash at any point leaves readable data.
+ * Callers hold the session lock.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+import { writeFileAtomic } from './atomic-write.js';
+import { FORMAT_VERSION } from './format.js';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const ARCHIVE_FILE = 'archive.json.gz';
+
+/** Files moved into an archive; anything else stays loose */
+export const ARCHIVED_FILES = ['session.json', 'thoughts.jsonl', 'tasks.jsonl', 'documentation.json'];
+
+interface SessionArchive {
+  formatVersion: number;
+  archivedAt: string;
+  /** File name -> verbatim content */
+  files: Record<string, string>;
+}
+
+export async function isArchived(sessionDir: string): Promise<boolean> {
+  try {
+    await fs.access(join(sessionDir, ARCHIVE_FILE));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a session's archive, or null when it has none. Throws when the
+ * archive cannot be decompressed or parsed.
+ */
+export async function readArchive(sessionDir: string): Promise<SessionArchive | null> {
+  let compressed: Buffer;
+  try {
+    compressed = await fs.readFile(join(sessionDir, ARCHIVE_FILE));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  const archive = JSON.parse((await gunzipAsync(compressed)).toString('utf-8')) as SessionArchive;
+  if (typeof archive?.files !== 'object' || archive.files === null) {
+    throw new Error('archive has no files');
+  }
+  return archive;
+}
+
+/**
+ * Content of one archived file, or null when the session has no archive or
+ * the archive does not hold that file.
+ */
+export async function readArchivedFile(sessionDir: string, file: string): Promise<string | null> {
+  const archive = await readArchive(sessionDir);
+  return archive?.files[file] ?? null;
+}
+
+export interface PackResult {
+  /** Total size of the loose files */
+  bytesBefore: number;
+  /** Size of the archive */
+  bytesAfter: number;
+}
+
+/**
+ * Pack a session's files into its archive and remove them. With `dryRun`,
+ * only measures. Returns null when there is nothing to pack.
+ */
+export async function packSession(sessionDir: string, dryRun = false): Promise<PackResult | null> {
+  const files: Record<string, string> = {};
+  let bytesBefore = 0;
+  for (const file of ARCHIVED_FILES) {
+    try {
+      files[file] = await fs.readFile(join(sessionDir, file), 'utf-8');
+      bytesBefore += Buffer.byteLength(files[file]);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  if (Object.keys(files).length === 0) return null;
+
+  const archive: SessionArchive = {
+    formatVersion: FORMAT_VERSION,
+    archivedAt: new Date().toISOString(),
+    files,
+  };
+  const compressed = await gzipAsync(JSON.stringify(archive));
+
+  if (!dryRun) {
+    await writeFileAtomic(join(sessionDir, ARCHIVE_FILE), compressed);
+    for (const file of Object.keys(files)) {
+      await fs.rm(join(sessionDir, file), { force: true });
+    }
+  }
+
+  return { bytesBefore, bytesAfter: compressed.length };
+}
+
+/**
+ * Restore a session's files from its archive and remove the archive.
+ * Returns false when the session was not archived.
+ */
+export async function unpackSession(sessionDir: string): Promise<boolean> {
+  const archive = await readArchive(sessionDir);
+  if (!archive) return false;
+
+  for (const file of ARCHIVED_FILES) {
+    const content = archive.files[file];
+    if (typeof content !== 'string') continue;
+    // The archive is never older than loose files, so overwriting is safe
+    await writeFileAtomic(join(sessionDir, file), content);
+  }
+  await fs.rm(join(sessionDir, ARCHIVE_FILE), { force: true });
+  return true;
+}
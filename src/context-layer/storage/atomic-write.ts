@@ -0,0 +1,19 @@
+/**
+ * Atomic file writes
+ * Writes go to a temp file in the same directory and are renamed into place,
+ * so readers never observe a half-written file
+ */
+
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+
+export async function writeFileAtomic(filePath: string, content: string | Buffer): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content, typeof content === 'string' ? 'utf-8' : undefined);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
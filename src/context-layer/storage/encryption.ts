@@ -0,0 +1,167 @@
+/**
+ * Encryption at Rest
+ * AES-256-GCM envelopes for records FileStorage writes. Each JSON document
+ * and each JSONL record is sealed on its own, so logs stay append-only and a
+ * data directory may mix encrypted and plaintext records during rollout.
+ *
+ * Envelope: { encrypted: { alg, keyId, iv, tag, data } }, with iv, tag and
+ * data base64-encoded. JSON documents keep formatVersion beside the envelope
+ * so version checks and migrations work without the key.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { EncryptionKeyError } from './errors.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export interface EncryptedRecord {
+  encrypted: {
+    alg: typeof ALGORITHM;
+    keyId: string;
+    iv: string;
+    tag: string;
+    data: string;
+  };
+}
+
+export function isEncryptedRecord(value: unknown): value is EncryptedRecord {
+  const envelope = (value as Partial<EncryptedRecord> | null)?.encrypted;
+  return typeof envelope === 'object'
+    && envelope !== null
+    && envelope.alg === ALGORITHM
+    && typeof envelope.keyId === 'string'
+    && typeof envelope.data === 'string';
+}
+
+/**
+ * Short, stable identifier for a key, stored with every envelope so the
+ * right key can be picked after rotation. Derived by hashing, so it does
+ * not reveal the key.
+ */
+export function keyIdOf(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+/**
+ * Parse a 256-bit key given as base64 or hex text
+ */
+export function parseKey(text: string, source: string): Buffer {
+  const trimmed = text.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${source} must be a ${KEY_BYTES}-byte key encoded as base64 or hex`);
+  }
+  return key;
+}
+
+export function generateKey(): string {
+  return randomBytes(KEY_BYTES).toString('base64');
+}
+
+/**
+ * Seals records with the current key and opens records sealed with the
+ * current key or any previous one.
+ */
+export class RecordCipher {
+  private keys: Map<string, Buffer>;
+  /** keyId of the key new records are sealed with */
+  readonly keyId: string;
+
+  /**
+   * @param currentKey Key used for new records
+   * @param previousKeys Keys accepted for reading only, e.g. during rotation
+   */
+  constructor(currentKey: Buffer, previousKeys: Buffer[] = []) {
+    this.keyId = keyIdOf(currentKey);
+    this.keys = new Map(previousKeys.map(key => [keyIdOf(key), key]));
+    this.keys.set(this.keyId, currentKey);
+  }
+
+  seal(value: unknown): EncryptedRecord {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.keys.get(this.keyId)!, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()]);
+    return {
+      encrypted: {
+        alg: ALGORITHM,
+        keyId: this.keyId,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      },
+    };
+  }
+
+  /**
+   * Decrypt an envelope. Throws EncryptionKeyError when the key is not in
+   * this keyring, and a plain Error when the data fails authentication.
+   */
+  open(record: EncryptedRecord, filePath: string): unknown {
+    const { keyId, iv, tag, data } = record.encrypted;
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new EncryptionKeyError(filePath, keyId);
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    let plaintext: string;
+    try {
+      plaintext = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch (error) {
+      throw new Error(`Encrypted record failed authentication: ${(error as Error).message}`);
+    }
+    return JSON.parse(plaintext);
+  }
+}
+
+/**
+ * Decrypt `value` if it is an envelope, otherwise return it unchanged.
+ * Without a cipher, an envelope raises EncryptionKeyError.
+ */
+export function openRecord(value: unknown, cipher: RecordCipher | undefined, filePath: string): unknown {
+  if (!isEncryptedRecord(value)) return value;
+  if (!cipher) throw new EncryptionKeyError(filePath, value.encrypted.keyId);
+  return cipher.open(value, filePath);
+}
+
+/**
+ * Build a cipher from the environment, or return undefined when encryption
+ * is not configured.
+ *
+ * ENCRYPTION_KEY or ENCRYPTION_KEY_FILE holds the current key. A key file
+ * may list previous keys on the following lines. ENCRYPTION_PREVIOUS_KEYS
+ * adds more, comma-separated.
+ */
+export async function loadCipherFromEnv(env: NodeJS.ProcessEnv = process.env): Promise<RecordCipher | undefined> {
+  const keys: Buffer[] = [];
+
+  if (env.ENCRYPTION_KEY) {
+    keys.push(parseKey(env.ENCRYPTION_KEY, 'ENCRYPTION_KEY'));
+  } else if (env.ENCRYPTION_KEY_FILE) {
+    const lines = (await fs.readFile(env.ENCRYPTION_KEY_FILE, 'utf-8'))
+      .split('\n')
+      .filter(line => line.trim() && !line.trim().startsWith('#'));
+    keys.push(...lines.map(line => parseKey(line, `ENCRYPTION_KEY_FILE ${env.ENCRYPTION_KEY_FILE}`)));
+  }
+
+  if (keys.length === 0) {
+    if (env.ENCRYPTION_PREVIOUS_KEYS) {
+      throw new Error('ENCRYPTION_PREVIOUS_KEYS requires ENCRYPTION_KEY or ENCRYPTION_KEY_FILE');
+    }
+    return undefined;
+  }
+
+  const previous = (env.ENCRYPTION_PREVIOUS_KEYS || '')
+    .split(',')
+    .filter(key => key.trim())
+    .map(key => parseKey(key, 'ENCRYPTION_PREVIOUS_KEYS'));
+
+  const [current, ...rest] = keys;
+  return new RecordCipher(current, [...rest, ...previous]);
+}
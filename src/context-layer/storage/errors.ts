@@ -0,0 +1,53 @@
+/**
+ * Storage Errors
+ */
+
+/**
+ * Raised when persisted data cannot be parsed or fails schema validation.
+ * `quarantinePath` is set when the offending file was moved aside.
+ */
+export class StorageCorruptionError extends Error {
+  readonly filePath: string;
+  readonly quarantinePath?: string;
+
+  constructor(message: string, filePath: string, options: { quarantinePath?: string; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'StorageCorruptionError';
+    this.filePath = filePath;
+    this.quarantinePath = options.quarantinePath;
+  }
+}
+
+/**
+ * Raised when asked to write a file whose on-disk format is newer than this
+ * build understands, so data written by a newer release is never clobbered.
+ */
+export class UnsupportedFormatVersionError extends Error {
+  readonly filePath: string;
+  readonly formatVersion: number;
+  readonly supportedVersion: number;
+
+  constructor(filePath: string, formatVersion: number, supportedVersion: number) {
+    super(`${filePath} uses format version ${formatVersion}; this build supports up to ${supportedVersion}`);
+    this.name = 'UnsupportedFormatVersionError';
+    this.filePath = filePath;
+    this.formatVersion = formatVersion;
+    this.supportedVersion = supportedVersion;
+  }
+}
+
+/**
+ * Raised when a record is encrypted with a key that is not configured.
+ * Unlike corruption, the file is left in place: the fix is configuration.
+ */
+export class EncryptionKeyError extends Error {
+  readonly filePath: string;
+  readonly keyId: string;
+
+  constructor(filePath: string, keyId: string) {
+    super(`${filePath} is encrypted with key ${keyId}, which is not configured`);
+    this.name = 'EncryptionKeyError';
+    this.filePath = filePath;
+    this.keyId = keyId;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Storage Factory
+ * Creates storage backends by name, or loads a custom backend module
+ */
+
+import { join, resolve, isAbsolute } from 'path';
+import { pathToFileURL } from 'url';
+import { FileStorage } from './file-storage.js';
+import { SqliteStorage } from './sqlite-storage.js';
+import { MemoryStorage } from './memory-storage.js';
+import type { RecordCipher } from './encryption.js';
+import type { Storage } from './storage.js';
+
+export type StorageBackend = 'file' | 'memory' | 'sqlite';
+
+export const STORAGE_BACKENDS: readonly StorageBackend[] = ['file', 'memory', 'sqlite'];
+
+export interface StorageFactoryOptions {
+  dataPath: string;
+  /** Encryption at rest; supported by the file backend and custom modules */
+  cipher?: RecordCipher;
+}
+
+/**
+ * Contract for custom backend modules: export `createStorage` (named or
+ * default) returning a Storage implementation.
+ */
+export type StorageFactory = (options: StorageFactoryOptions) => Storage | Promise<Storage>;
+
+const REQUIRED_METHODS = [
+  'createSession', 'getSession', 'updateSession', 'listSessions', 'deleteSession',
+  'saveThought', 'getThoughts',
+  'saveTask', 'getTask', 'getTasks', 'updateTask',
+  'saveDocumentation', 'getDocumentation',
+] as const;
+
+export function isStorageBackend(value: string): value is StorageBackend {
+  return (STORAGE_BACKENDS as readonly string[]).includes(value);
+}
+
+export function createStorage(backend: StorageBackend, options: StorageFactoryOptions): Storage {
+  if (options.cipher && backend !== 'file') {
+    throw new Error(`Encryption at rest is not supported by the ${backend} storage backend`);
+  }
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryStorage();
+    case 'sqlite':
+      return new SqliteStorage(join(options.dataPath, 'devpattern.db'));
+    case 'file':
+      return new FileStorage(options.dataPath, { cipher: options.cipher });
+  }
+}
+
+function assertStorage(candidate: unknown, source: string): asserts candidate is Storage {
+  const missing = REQUIRED_METHODS.filter(
+    method => typeof (candidate as Record<string, unknown> | null)?.[method] !== 'function'
+  );
+  if (missing.length > 0) {
+    throw new Error(`Storage module ${source} returned an object missing: ${missing.join(', ')}`);
+  }
+}
+
+/**
+ * Resolve a storage spec: a built-in backend name, or a module path
+ * (relative to the working directory, absolute, or a package name)
+ * whose factory creates the backend.
+ */
+export async function loadStorage(spec: string, options: StorageFactoryOptions): Promise<Storage> {
+  if (isStorageBackend(spec)) {
+    return createStorage(spec, options);
+  }
+
+  const specifier = spec.startsWith('.') || isAbsolute(spec)
+    ? pathToFileURL(resolve(spec)).href
+    : spec;
+  const mod = await import(specifier) as { createStorage?: StorageFactory; default?: StorageFactory };
+  const factory = mod.createStorage ?? mod.default;
+  if (typeof factory !== 'function') {
+    throw new Error(`Storage module ${spec} must export a createStorage function`);
+  }
+
+  const storage = await factory(options);
+  assertStorage(storage, spec);
+  return storage;
+}
@@ -0,0 +1,139 @@
+/**
+ * Advisory File Locks
+ * Cross-process mutual exclusion using exclusively-created lock files.
+ *
+ * Each session has one lock, <dataPath>/locks/<sessionId>.lock. It is held
+ * for every change to the session's directory: read-modify-write cycles,
+ * unpacking and packing archives, pruning, deleting, migrating and
+ * re-encrypting. The doc-worker implements the same protocol and takes the
+ * same lock before writing documentation, so the server, the doc-worker and
+ * the maintenance tools can share a live data directory.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+
+export interface FileLockOptions {
+  /** Give up acquiring after this many milliseconds */
+  timeoutMs?: number;
+  /** Treat a lock file older than this as left behind by a crashed process */
+  staleMs?: number;
+  /** Delay between acquisition attempts */
+  retryMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<FileLockOptions> = {
+  timeoutMs: 10000,
+  staleMs: 30000,
+  retryMs: 15,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function readOwner(lockPath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(lockPath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the lock at `lockPath` if it is stale. Waiters that all saw the
+ * same stale lock take turns through <lockPath>.break and only remove the
+ * lock if it still has the owner they saw, so none of them can remove a lock
+ * another waiter has just taken.
+ */
+async function breakIfStale(lockPath: string, staleMs: number): Promise<void> {
+  const isStale = async () => Date.now() - (await fs.stat(lockPath)).mtimeMs > staleMs;
+  try {
+    if (!(await isStale())) return;
+  } catch {
+    // Lock was released between open and stat
+    return;
+  }
+  const owner = await readOwner(lockPath);
+  if (owner === null) return;
+
+  const breakPath = `${lockPath}.break`;
+  try {
+    await (await fs.open(breakPath, 'wx')).close();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    // Another waiter is breaking it; clear its marker only if it crashed doing so
+    try {
+      if (Date.now() - (await fs.stat(breakPath)).mtimeMs > staleMs) {
+        await fs.rm(breakPath, { force: true });
+      }
+    } catch {
+      // Marker was removed in the meantime
+    }
+    return;
+  }
+
+  try {
+    if (await readOwner(lockPath) === owner && await isStale()) {
+      await fs.rm(lockPath, { force: true });
+    }
+  } catch {
+    // Lock was released in the meantime
+  } finally {
+    await fs.rm(breakPath, { force: true });
+  }
+}
+
+async function tryAcquire(lockPath: string, owner: string, staleMs: number): Promise<boolean> {
+  try {
+    const handle = await fs.open(lockPath, 'wx');
+    await handle.writeFile(owner, 'utf-8');
+    await handle.close();
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+  }
+  await breakIfStale(lockPath, staleMs);
+  return false;
+}
+
+/**
+ * Run `fn` while holding the lock file at `lockPath`, creating its
+ * directory if needed. The lock's mtime is refreshed while `fn` runs, so only
+ * a lock whose holder died goes stale.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const { timeoutMs, staleMs, retryMs } = { ...DEFAULT_OPTIONS, ...options };
+  const deadline = Date.now() + timeoutMs;
+  await fs.mkdir(dirname(lockPath), { recursive: true });
+
+  const owner = JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString(), token: randomUUID() });
+  while (!(await tryAcquire(lockPath, owner, staleMs))) {
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock: ${lockPath}`);
+    }
+    // Jitter keeps competing processes from retrying in lockstep
+    await sleep(retryMs + Math.random() * retryMs);
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now).catch(() => {});
+  }, staleMs / 3);
+  heartbeat.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    // Only remove the lock if it is still ours
+    if (await readOwner(lockPath) === owner) {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+}
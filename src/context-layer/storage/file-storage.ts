@@ -1,18 +1,103 @@
 /**
  * File-based Storage Implementation
- * Persists data as JSON files
+ * Persists data as JSON files, with thoughts and task transitions kept in
+ * append-only JSONL logs. Records are optionally encrypted at rest, and
+ * sessions that are done can be packed into compressed archives.
  */
 
 import { promises as fs } from 'fs';
-import { join } from 'path';
+import { join, relative, dirname, basename } from 'path';
+import { z } from 'zod';
+import { parseJsonLines, readFirstJsonLine, appendJsonLines, writeJsonLines } from './jsonl.js';
+import { writeFileAtomic } from './atomic-write.js';
+import { withFileLock } from './file-lock.js';
+import { StorageCorruptionError, UnsupportedFormatVersionError, EncryptionKeyError } from './errors.js';
+import { openRecord, type RecordCipher } from './encryption.js';
+import { FORMAT_VERSION, formatVersionOf, isLogHeader, logHeader, stripFormatVersion } from './format.js';
+import { SessionIndex } from './session-index.js';
+import { sessionDirPath, sessionLockPath } from './paths.js';
+import { assertSessionId, isValidId } from '../ids.js';
+import {
+  ARCHIVE_FILE,
+  ARCHIVED_FILES,
+  isArchived,
+  readArchivedFile,
+  packSession,
+  unpackSession,
+  type PackResult,
+} from './archive.js';
+import {
+  sessionSchema,
+  thoughtRecordSchema,
+  taskCommitSchema,
+  documentationEntrySchema,
+} from '../schemas.js';
 import type { Storage } from './storage.js';
+import type { SessionPage, SessionQuery } from '../session-query.js';
 import type { Session, ThoughtRecord, TaskCommit, DocumentationEntry } from '../types.js';
 
+/**
+ * One line of tasks.jsonl. 'save' adds a task record, 'update' replaces the
+ * first record with the same taskId.
+ */
+interface TaskLogEntry {
+  op: 'save' | 'update';
+  task: TaskCommit;
+}
+
+const taskLogEntrySchema: z.ZodType<TaskLogEntry, z.ZodTypeDef, unknown> = z.object({
+  op: z.enum(['save', 'update']),
+  task: taskCommitSchema,
+});
+
+export interface ArchiveOptions {
+  /** Report what would be archived without touching any file */
+  dryRun?: boolean;
+  /** Only archive sessions not updated for at least this long */
+  minIdleMs?: number;
+}
+
+export interface ArchiveReport {
+  dataPath: string;
+  dryRun: boolean;
+  sessionsScanned: number;
+  sessionsArchived: number;
+  archived: Array<{ sessionId: string; bytesBefore: number; bytesAfter: number }>;
+  errors: Array<{ sessionId: string; error: string }>;
+}
+
+/** Sessions in these states no longer change and may be archived */
+const ARCHIVABLE_STATUSES: Session['status'][] = ['completed', 'finalized'];
+
+const LEGACY_FILES = ['thoughts.json', 'tasks.json'];
+
+function foldTaskLog(entries: TaskLogEntry[]): TaskCommit[] {
+  const tasks: TaskCommit[] = [];
+  for (const entry of entries) {
+    if (entry.op === 'save') {
+      tasks.push(entry.task);
+    } else {
+      const index = tasks.findIndex(t => t.taskId === entry.task.taskId);
+      if (index >= 0) tasks[index] = entry.task;
+    }
+  }
+  return tasks;
+}
+
+export interface FileStorageOptions {
+  /** Encrypt everything written; plaintext records are still read */
+  cipher?: RecordCipher;
+}
+
 export class FileStorage implements Storage {
   private dataPath: string;
+  private cipher?: RecordCipher;
+  private index: SessionIndex;
 
-  constructor(dataPath: string) {
+  constructor(dataPath: string, options: FileStorageOptions = {}) {
     this.dataPath = dataPath;
+    this.cipher = options.cipher;
+    this.index = new SessionIndex(dataPath, () => this.scanSessions(), options.cipher);
   }
 
   private async ensureDir(dir: string): Promise<void> {
@@ -24,22 +109,181 @@ export class FileStorage implements Storage {
   }
 
   private getSessionDir(sessionId: string): string {
-    return join(this.dataPath, 'sessions', sessionId);
+    return sessionDirPath(this.dataPath, sessionId);
   }
 
-  private async readJson<T>(filePath: string): Promise<T | null> {
+  /**
+   * Move a corrupt file under <dataPath>/quarantine, keeping its relative
+   * path, so it stops failing reads but can still be inspected.
+   */
+  private async quarantine(filePath: string): Promise<string | undefined> {
+    const target = join(this.dataPath, 'quarantine', `${relative(this.dataPath, filePath)}.${Date.now()}`);
     try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(content) as T;
+      await this.ensureDir(dirname(target));
+      await fs.rename(filePath, target);
+      return target;
+    } catch (error) {
+      console.error(`[FileStorage] Failed to quarantine ${filePath}:`, error);
+      return undefined;
+    }
+  }
+
+  private async corrupt(filePath: string, reason: string, cause: unknown): Promise<StorageCorruptionError> {
+    const quarantinePath = await this.quarantine(filePath);
+    return new StorageCorruptionError(`Corrupt data in ${filePath}: ${reason}`, filePath, { quarantinePath, cause });
+  }
+
+  private seal(record: unknown): unknown {
+    return this.cipher ? this.cipher.seal(record) : record;
+  }
+
+  /**
+   * Decrypt any encrypted records. A missing key is raised as-is; a record
+   * that fails authentication is treated as corruption.
+   */
+  private async open(records: unknown[], filePath: string): Promise<unknown[]> {
+    try {
+      return records.map(record => openRecord(record, this.cipher, filePath));
+    } catch (error) {
+      if (error instanceof EncryptionKeyError) throw error;
+      throw await this.corrupt(filePath, (error as Error).message, error);
+    }
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
     } catch {
-      return null;
+      return false;
+    }
+  }
+
+  private async readLoose(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Read a session file, falling back to the session's archive. Returns null
+   * when neither has it.
+   */
+  private async readText(filePath: string): Promise<string | null> {
+    const loose = await this.readLoose(filePath);
+    if (loose !== null) return loose;
+
+    const sessionDir = dirname(filePath);
+    let archived: string | null;
+    try {
+      archived = await readArchivedFile(sessionDir, basename(filePath));
+    } catch (error) {
+      throw await this.corrupt(join(sessionDir, ARCHIVE_FILE), (error as Error).message, error);
+    }
+    // The session may have been unpacked between the two reads
+    return archived ?? await this.readLoose(filePath);
+  }
+
+  /**
+   * Restore an archived session's files before writing to it, which
+   * reopens the session until the next archive run. The caller holds the
+   * session lock, so this cannot interleave with packing.
+   */
+  private async unarchive(sessionDir: string): Promise<void> {
+    if (await isArchived(sessionDir)) {
+      await unpackSession(sessionDir);
+    }
+  }
+
+  /**
+   * Read and validate a JSON file, dropping its formatVersion. Returns null
+   * only when the file does not exist; unparsable or invalid content is
+   * quarantined and raised as a StorageCorruptionError.
+   */
+  private async readJson<T>(filePath: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T | null> {
+    const content = await this.readText(filePath);
+    if (content === null) return null;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(content);
+    } catch (error) {
+      throw await this.corrupt(filePath, 'invalid JSON', error);
+    }
+    [raw] = await this.open([raw], filePath);
+
+    const result = schema.safeParse(stripFormatVersion(raw));
+    if (!result.success) {
+      throw await this.corrupt(filePath, result.error.issues[0]?.message ?? 'schema mismatch', result.error);
+    }
+    return result.data;
+  }
+
+  /**
+   * Read and validate every record of a JSONL log, with the same
+   * quarantine behaviour as readJson.
+   */
+  private async readLog<T>(filePath: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T[] | null> {
+    const content = await this.readText(filePath);
+    if (content === null) return null;
+
+    let records: unknown[];
+    try {
+      records = parseJsonLines<unknown>(content, filePath);
+    } catch (error) {
+      throw await this.corrupt(filePath, (error as Error).message, error);
+    }
+    if (isLogHeader(records[0])) records = records.slice(1);
+    records = await this.open(records, filePath);
+
+    const result = z.array(schema).safeParse(records);
+    if (!result.success) {
+      throw await this.corrupt(filePath, result.error.issues[0]?.message ?? 'schema mismatch', result.error);
+    }
+    return result.data;
+  }
+
+  /**
+   * Refuse to touch a file written in a newer format than this build knows.
+   * Unreadable files are left to the normal read path to report.
+   */
+  private assertWritable(filePath: string, existing: unknown): void {
+    if (existing === null || existing === undefined) return;
+    const version = formatVersionOf(existing);
+    if (version > FORMAT_VERSION) {
+      throw new UnsupportedFormatVersionError(filePath, version, FORMAT_VERSION);
     }
   }
 
-  private async writeJson<T>(filePath: string, data: T): Promise<void> {
+  private async writeJson(filePath: string, data: object): Promise<void> {
     const dir = join(filePath, '..');
     await this.ensureDir(dir);
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    await this.unarchive(dir);
+
+    let existing: unknown = null;
+    try {
+      existing = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      // Missing or unparsable: nothing to protect
+    }
+    this.assertWritable(filePath, existing);
+
+    const document = { ...data, formatVersion: FORMAT_VERSION };
+    const content = this.cipher
+      ? { formatVersion: FORMAT_VERSION, ...this.cipher.seal(document) }
+      : document;
+    await writeFileAtomic(filePath, JSON.stringify(content, null, 2));
+  }
+
+  /**
+   * Hold the session's advisory lock file (shared with the doc-worker)
+   * for the duration of `fn`.
+   */
+  async withSessionLock<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+    return withFileLock(sessionLockPath(this.dataPath, assertSessionId(sessionId)), fn);
   }
 
   // Session operations
@@ -47,19 +291,43 @@ export class FileStorage implements Storage {
     const sessionDir = this.getSessionDir(session.id);
     await this.ensureDir(sessionDir);
     await this.writeJson(join(sessionDir, 'session.json'), session);
-    await this.writeJson(join(sessionDir, 'thoughts.json'), []);
-    await this.writeJson(join(sessionDir, 'tasks.json'), []);
+    await writeJsonLines(join(sessionDir, 'thoughts.jsonl'), [logHeader()]);
+    await writeJsonLines(join(sessionDir, 'tasks.jsonl'), [logHeader()]);
+    await this.index.put(session);
   }
 
   async getSession(sessionId: string): Promise<Session | null> {
-    return this.readJson(join(this.getSessionDir(sessionId), 'session.json'));
+    return this.readJson(join(this.getSessionDir(sessionId), 'session.json'), sessionSchema);
   }
 
   async updateSession(session: Session): Promise<void> {
     await this.writeJson(join(this.getSessionDir(session.id), 'session.json'), session);
+    await this.index.put(session);
   }
 
   async listSessions(): Promise<Session[]> {
+    await this.ensureDir(join(this.dataPath, 'sessions'));
+    return this.index.list();
+  }
+
+  async querySessions(query: SessionQuery): Promise<SessionPage> {
+    await this.ensureDir(join(this.dataPath, 'sessions'));
+    return this.index.query(query);
+  }
+
+  /**
+   * Rebuild the session index from the session directories, e.g. after
+   * copying sessions into the data directory by hand.
+   */
+  async rebuildSessionIndex(): Promise<Session[]> {
+    await this.ensureDir(join(this.dataPath, 'sessions'));
+    return this.index.rebuild();
+  }
+
+  /**
+   * Read every session.json under the sessions directory
+   */
+  private async scanSessions(): Promise<Session[]> {
     const sessionsDir = join(this.dataPath, 'sessions');
     await this.ensureDir(sessionsDir);
     
@@ -69,40 +337,101 @@ export class FileStorage implements Storage {
       
       for (const entry of entries) {
         if (entry.isDirectory()) {
-          const session = await this.getSession(entry.name);
-          if (session) sessions.push(session);
+          if (!isValidId(entry.name)) {
+            console.error(`[FileStorage] Skipping session directory with invalid ID: ${entry.name}`);
+            continue;
+          }
+          try {
+            const session = await this.getSession(entry.name);
+            if (session) sessions.push(session);
+          } catch (error) {
+            // One corrupt session (already quarantined) should not hide the rest
+            if (!(error instanceof StorageCorruptionError)) throw error;
+            console.error(`[FileStorage] Skipping session ${entry.name}: ${error.message}`);
+          }
         }
       }
       
       return sessions;
-    } catch {
-      return [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
     }
   }
 
   async deleteSession(sessionId: string): Promise<void> {
     const sessionDir = this.getSessionDir(sessionId);
     await fs.rm(sessionDir, { recursive: true, force: true });
+    await this.index.remove(sessionId);
+  }
+
+  async pruneSession(sessionId: string): Promise<void> {
+    const sessionDir = this.getSessionDir(sessionId);
+    await this.unarchive(sessionDir);
+    for (const file of ['thoughts.jsonl', 'tasks.jsonl', ...LEGACY_FILES]) {
+      await fs.rm(join(sessionDir, file), { force: true });
+    }
+  }
+
+  /**
+   * Append records to a session log, first moving any records from the
+   * legacy whole-file JSON array into the log.
+   */
+  private async appendToLog(
+    sessionId: string,
+    logFile: string,
+    legacyFile: string,
+    records: unknown[],
+    fromLegacy: (legacy: unknown[]) => unknown[]
+  ): Promise<void> {
+    // Appending to a deleted session would recreate its directory without a
+    // session.json
+    const sessionDir = this.getSessionDir(sessionId);
+    if (!(await this.exists(join(sessionDir, 'session.json'))) && !(await isArchived(sessionDir))) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    await this.unarchive(sessionDir);
+
+    const logPath = join(sessionDir, logFile);
+    const legacyPath = join(sessionDir, legacyFile);
+    const legacy = await this.readJson(legacyPath, z.array(z.unknown()));
+    if (legacy) {
+      // Overwrite rather than append so an interrupted migration can be redone
+      await writeJsonLines(logPath, [logHeader(), ...fromLegacy(legacy).map(record => this.seal(record))]);
+      await fs.rm(legacyPath, { force: true });
+    }
+
+    const header = await readFirstJsonLine(logPath);
+    if (isLogHeader(header)) this.assertWritable(logPath, header);
+
+    await appendJsonLines(logPath, records.map(record => this.seal(record)));
   }
 
   // Thought operations
   async saveThought(thought: ThoughtRecord): Promise<void> {
-    const filePath = join(this.getSessionDir(thought.sessionId), 'thoughts.json');
-    const thoughts = await this.readJson<ThoughtRecord[]>(filePath) || [];
-    thoughts.push(thought);
-    await this.writeJson(filePath, thoughts);
+    await this.appendToLog(thought.sessionId, 'thoughts.jsonl', 'thoughts.json', [thought], legacy => legacy);
   }
 
   async getThoughts(sessionId: string): Promise<ThoughtRecord[]> {
-    return await this.readJson(join(this.getSessionDir(sessionId), 'thoughts.json')) || [];
+    const sessionDir = this.getSessionDir(sessionId);
+    return await this.readLog(join(sessionDir, 'thoughts.jsonl'), thoughtRecordSchema)
+      || await this.readJson(join(sessionDir, 'thoughts.json'), z.array(thoughtRecordSchema))
+      || [];
   }
 
   // Task operations
+  private async appendTaskEntry(entry: TaskLogEntry): Promise<void> {
+    await this.appendToLog(
+      entry.task.sessionId,
+      'tasks.jsonl',
+      'tasks.json',
+      [entry],
+      legacy => legacy.map(task => ({ op: 'save', task }))
+    );
+  }
+
   async saveTask(task: TaskCommit): Promise<void> {
-    const filePath = join(this.getSessionDir(task.sessionId), 'tasks.json');
-    const tasks = await this.readJson<TaskCommit[]>(filePath) || [];
-    tasks.push(task);
-    await this.writeJson(filePath, tasks);
+    await this.appendTaskEntry({ op: 'save', task });
   }
 
   async getTask(sessionId: string, taskId: string): Promise<TaskCommit | null> {
@@ -111,26 +440,98 @@ export class FileStorage implements Storage {
   }
 
   async getTasks(sessionId: string): Promise<TaskCommit[]> {
-    return await this.readJson(join(this.getSessionDir(sessionId), 'tasks.json')) || [];
+    const sessionDir = this.getSessionDir(sessionId);
+    const entries = await this.readLog(join(sessionDir, 'tasks.jsonl'), taskLogEntrySchema);
+    if (entries) return foldTaskLog(entries);
+    return await this.readJson(join(sessionDir, 'tasks.json'), z.array(taskCommitSchema)) || [];
   }
 
   async updateTask(task: TaskCommit): Promise<void> {
-    const filePath = join(this.getSessionDir(task.sessionId), 'tasks.json');
-    const tasks = await this.readJson<TaskCommit[]>(filePath) || [];
-    const index = tasks.findIndex(t => t.taskId === task.taskId);
-    if (index >= 0) {
-      tasks[index] = task;
-      await this.writeJson(filePath, tasks);
+    const existing = await this.getTask(task.sessionId, task.taskId);
+    if (existing) {
+      await this.appendTaskEntry({ op: 'update', task });
     }
   }
 
+  async replaceTasks(sessionId: string, tasks: TaskCommit[]): Promise<void> {
+    const sessionDir = this.getSessionDir(sessionId);
+    await this.ensureDir(sessionDir);
+    await this.unarchive(sessionDir);
+    const entries: TaskLogEntry[] = tasks.map(task => ({ op: 'save', task }));
+    await writeJsonLines(join(sessionDir, 'tasks.jsonl'), [logHeader(), ...entries.map(entry => this.seal(entry))]);
+    await fs.rm(join(sessionDir, 'tasks.json'), { force: true });
+  }
+
   // Documentation operations
   async saveDocumentation(doc: DocumentationEntry): Promise<void> {
     await this.writeJson(join(this.getSessionDir(doc.sessionId), 'documentation.json'), doc);
   }
 
   async getDocumentation(sessionId: string): Promise<DocumentationEntry | null> {
-    return this.readJson(join(this.getSessionDir(sessionId), 'documentation.json'));
+    return this.readJson(join(this.getSessionDir(sessionId), 'documentation.json'), documentationEntrySchema);
   }
-}
 
+  // Archival
+
+  /**
+   * Pack completed and finalized sessions into compressed archives, re-checking
+   * each session under its lock.
+   */
+  async archiveSessions(options: ArchiveOptions = {}): Promise<ArchiveReport> {
+    const dryRun = options.dryRun ?? false;
+    const cutoff = Date.now() - (options.minIdleMs ?? 0);
+    const isDue = (session: Session) =>
+      ARCHIVABLE_STATUSES.includes(session.status) && session.updatedAt.getTime() <= cutoff;
+
+    const report: ArchiveReport = {
+      dataPath: this.dataPath,
+      dryRun,
+      sessionsScanned: 0,
+      sessionsArchived: 0,
+      archived: [],
+      errors: [],
+    };
+
+    for (const candidate of await this.listSessions()) {
+      report.sessionsScanned++;
+      if (!isDue(candidate)) continue;
+
+      try {
+        const result = await this.withSessionLock(candidate.id, async () => {
+          const session = await this.getSession(candidate.id);
+          if (!session || !isDue(session)) return null;
+          return this.archiveSession(session.id, dryRun);
+        });
+        if (result) {
+          report.sessionsArchived++;
+          report.archived.push({ sessionId: candidate.id, ...result });
+        }
+      } catch (error) {
+        report.errors.push({ sessionId: candidate.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Pack one session. The caller holds the session lock.
+   */
+  private async archiveSession(sessionId: string, dryRun: boolean): Promise<PackResult | null> {
+    const sessionDir = this.getSessionDir(sessionId);
+    for (const file of LEGACY_FILES) {
+      if (await this.exists(join(sessionDir, file))) {
+        throw new Error(`legacy ${file} found; run devpattern-migrate first`);
+      }
+    }
+
+    if (await isArchived(sessionDir)) {
+      const loose = await Promise.all(ARCHIVED_FILES.map(file => this.exists(join(sessionDir, file))));
+      if (!loose.includes(true)) return null;
+      // An earlier run was interrupted: start again from the full file set
+      if (!dryRun) await unpackSession(sessionDir);
+    }
+
+    return packSession(sessionDir, dryRun);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * On-disk Format Versioning
+ *
+ * Every file FileStorage writes carries a formatVersion: JSON files as a
+ * top-level field, JSONL logs as a header line. Files without one are
+ * version 1 (whole-file thoughts.json/tasks.json arrays).
+ *
+ * Version history:
+ *   1 - thoughts.json / tasks.json arrays, no version field
+ *   2 - thoughts.jsonl / tasks.jsonl append-only logs, versioned files
+ */
+
+export const FORMAT_VERSION = 2;
+
+export const LEGACY_FORMAT_VERSION = 1;
+
+export interface LogHeader {
+  formatVersion: number;
+}
+
+export function logHeader(): LogHeader {
+  return { formatVersion: FORMAT_VERSION };
+}
+
+export function isLogHeader(record: unknown): record is LogHeader {
+  return typeof record === 'object'
+    && record !== null
+    && Object.keys(record).length === 1
+    && typeof (record as LogHeader).formatVersion === 'number';
+}
+
+/**
+ * Version recorded in a parsed JSON file or log header, or the legacy version
+ * when none is present.
+ */
+export function formatVersionOf(record: unknown): number {
+  const version = (record as Partial<LogHeader> | null)?.formatVersion;
+  return typeof version === 'number' ? version : LEGACY_FORMAT_VERSION;
+}
+
+/**
+ * A parsed JSON document without its formatVersion field, which describes
+ * the file rather than the record and so stays out of what storage returns
+ */
+export function stripFormatVersion(record: unknown): unknown {
+  if (typeof record !== 'object' || record === null || !('formatVersion' in record)) return record;
+  const { formatVersion: _, ...rest } = record as Record<string, unknown>;
+  return rest;
+}
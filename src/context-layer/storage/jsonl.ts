@@ -0,0 +1,122 @@
+/**
+ * JSON Lines helpers
+ * Append-only record logs with crash-tolerant reads
+ */
+
+import { promises as fs } from 'fs';
+import { writeFileAtomic } from './atomic-write.js';
+
+/**
+ * Read every record in a JSONL file. A truncated last line (left behind by a
+ * crash mid-append) is ignored; corruption anywhere else is an error.
+ * Returns null when the file does not exist.
+ */
+export async function readJsonLines<T>(filePath: string): Promise<T[] | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+  return parseJsonLines<T>(content, filePath);
+}
+
+/**
+ * Parse JSONL content read from `filePath` (used in error messages), with
+ * the same truncated-last-line tolerance as readJsonLines.
+ */
+export function parseJsonLines<T>(content: string, filePath: string): T[] {
+  const lines = content.split('\n');
+  const records: T[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch (error) {
+      const isLastLine = lines.slice(i + 1).every(rest => !rest.trim());
+      if (isLastLine) break;
+      throw new Error(`Corrupt record at line ${i + 1} of ${filePath}: ${String(error)}`);
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Parse just the first line of a JSONL file, e.g. to inspect a header record
+ * without reading the whole log. Returns null when the file does not exist or
+ * the first line is not a short, complete JSON value.
+ */
+export async function readFirstJsonLine(filePath: string, maxBytes = 256): Promise<unknown | null> {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(filePath, 'r');
+  } catch {
+    return null;
+  }
+
+  try {
+    const buffer = Buffer.alloc(maxBytes);
+    const { bytesRead } = await handle.read(buffer, 0, maxBytes, 0);
+    const chunk = buffer.toString('utf-8', 0, bytesRead);
+    const newline = chunk.indexOf('\n');
+    if (newline < 0) return null;
+    return JSON.parse(chunk.slice(0, newline));
+  } catch {
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Drop a partial trailing record so the next append starts on a fresh line.
+ */
+async function repairTrailingLine(filePath: string): Promise<void> {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(filePath, 'r');
+  } catch {
+    return;
+  }
+
+  let needsRepair = false;
+  try {
+    const { size } = await handle.stat();
+    if (size > 0) {
+      const lastByte = Buffer.alloc(1);
+      await handle.read(lastByte, 0, 1, size - 1);
+      needsRepair = lastByte.toString('utf-8') !== '\n';
+    }
+  } finally {
+    await handle.close();
+  }
+
+  if (needsRepair) {
+    const content = await fs.readFile(filePath, 'utf-8');
+    await fs.truncate(filePath, Buffer.byteLength(content.slice(0, content.lastIndexOf('\n') + 1)));
+  }
+}
+
+export function serializeJsonLines(records: unknown[]): string {
+  return records.map(record => JSON.stringify(record) + '\n').join('');
+}
+
+/**
+ * Append records to a JSONL file, creating it if needed.
+ */
+export async function appendJsonLines(filePath: string, records: unknown[]): Promise<void> {
+  if (records.length === 0) return;
+  await repairTrailingLine(filePath);
+  await fs.appendFile(filePath, serializeJsonLines(records), 'utf-8');
+}
+
+/**
+ * Atomically replace the contents of a JSONL file.
+ */
+export async function writeJsonLines(filePath: string, records: unknown[]): Promise<void> {
+  await writeFileAtomic(filePath, serializeJsonLines(records));
+}
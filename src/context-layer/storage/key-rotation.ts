@@ -0,0 +1,196 @@
+/**
+ * Encryption Key Rotation
+ * Re-encrypts every session under the current key, encrypting plaintext
+ * records along the way, or decrypts everything to turn encryption off.
+ * Each session is rewritten under its lock. A running server and doc-worker
+ * must already have the new key configured.
+ */
+
+import { promises as fs, type Dirent } from 'fs';
+import { join } from 'path';
+import { parseJsonLines, serializeJsonLines } from './jsonl.js';
+import { writeFileAtomic } from './atomic-write.js';
+import { withFileLock } from './file-lock.js';
+import { sessionLockPath } from './paths.js';
+import { FORMAT_VERSION, formatVersionOf, isLogHeader } from './format.js';
+import { isEncryptedRecord, openRecord, type RecordCipher } from './encryption.js';
+import { SESSION_INDEX_FILE, SESSION_INDEX_LOCK } from './session-index.js';
+import { readArchive, unpackSession } from './archive.js';
+
+export interface KeyRotationOptions {
+  /** Report what would change without touching any file */
+  dryRun?: boolean;
+  /** Write plaintext instead of re-encrypting */
+  decrypt?: boolean;
+}
+
+export interface KeyRotationReport {
+  dataPath: string;
+  dryRun: boolean;
+  mode: 'encrypt' | 'decrypt';
+  /** Key every record is encrypted with afterwards; unset when decrypting */
+  keyId?: string;
+  sessionsScanned: number;
+  sessionsRewritten: number;
+  files: Array<{ sessionId: string; file: string }>;
+  /** Whether the session index was (or would be) removed */
+  indexRemoved: boolean;
+  errors: Array<{ sessionId: string; error: string }>;
+}
+
+const DOCUMENTS = ['session.json', 'documentation.json'];
+const LOGS = ['thoughts.jsonl', 'tasks.jsonl'];
+const LEGACY_FILES = ['thoughts.json', 'tasks.json'];
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+class Rewriter {
+  constructor(private cipher: RecordCipher, private decrypt: boolean) {}
+
+  /** Whether a stored record is already in its target form */
+  isCurrent(record: unknown): boolean {
+    if (this.decrypt) return !isEncryptedRecord(record);
+    return isEncryptedRecord(record) && record.encrypted.keyId === this.cipher.keyId;
+  }
+
+  transform(record: unknown, filePath: string): unknown {
+    const plain = openRecord(record, this.cipher, filePath);
+    return this.decrypt ? plain : this.cipher.seal(plain);
+  }
+}
+
+/**
+ * Rewrite one session directory. Returns the files that needed rewriting.
+ * Archived sessions are read from their archive and, if anything changes,
+ * unpacked first; the next archive run packs them again.
+ */
+async function rotateSession(sessionDir: string, rewriter: Rewriter, dryRun: boolean): Promise<string[]> {
+  for (const file of LEGACY_FILES) {
+    if (await exists(join(sessionDir, file))) {
+      throw new Error(`legacy ${file} found; run devpattern-migrate first`);
+    }
+  }
+
+  const archive = await readArchive(sessionDir);
+  const read = async (file: string): Promise<string | null> => {
+    try {
+      return await fs.readFile(join(sessionDir, file), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    return archive?.files[file] ?? null;
+  };
+
+  // Decrypt everything up front, even on a dry run, so missing keys are reported
+  const rewrites = new Map<string, string>();
+
+  for (const file of DOCUMENTS) {
+    const content = await read(file);
+    if (content === null) continue;
+    const raw: unknown = JSON.parse(content);
+
+    const version = formatVersionOf(raw);
+    if (version > FORMAT_VERSION) {
+      throw new Error(`${file} uses format version ${version}; this build supports up to ${FORMAT_VERSION}`);
+    }
+    if (rewriter.isCurrent(raw)) continue;
+
+    const rewritten = rewriter.transform(raw, join(sessionDir, file));
+    const document = isEncryptedRecord(rewritten) ? { formatVersion: version, ...rewritten } : rewritten;
+    rewrites.set(file, JSON.stringify(document, null, 2));
+  }
+
+  for (const file of LOGS) {
+    const content = await read(file);
+    if (content === null) continue;
+    const records = parseJsonLines<unknown>(content, join(sessionDir, file));
+
+    const header = isLogHeader(records[0]) ? [records[0]] : [];
+    if (header.length > 0 && header[0].formatVersion > FORMAT_VERSION) {
+      throw new Error(`${file} uses format version ${header[0].formatVersion}; this build supports up to ${FORMAT_VERSION}`);
+    }
+    const body = records.slice(header.length);
+    if (body.every(record => rewriter.isCurrent(record))) continue;
+
+    const rewritten = body.map(record => rewriter.transform(record, join(sessionDir, file)));
+    rewrites.set(file, serializeJsonLines([...header, ...rewritten]));
+  }
+
+  if (!dryRun && rewrites.size > 0) {
+    if (archive) await unpackSession(sessionDir);
+    for (const [file, content] of rewrites) {
+      await writeFileAtomic(join(sessionDir, file), content);
+    }
+  }
+
+  return Array.from(rewrites.keys());
+}
+
+/**
+ * Bring every record under `<dataPath>/sessions` onto the cipher's current
+ * key (or to plaintext with `decrypt`). The cipher must hold every key the
+ * data is currently encrypted with. The session index is removed rather
+ * than rewritten; the server rebuilds it on the next listing.
+ */
+export async function rotateEncryptionKey(
+  dataPath: string,
+  cipher: RecordCipher,
+  options: KeyRotationOptions = {}
+): Promise<KeyRotationReport> {
+  const dryRun = options.dryRun ?? false;
+  const decrypt = options.decrypt ?? false;
+  const rewriter = new Rewriter(cipher, decrypt);
+  const report: KeyRotationReport = {
+    dataPath,
+    dryRun,
+    mode: decrypt ? 'decrypt' : 'encrypt',
+    ...(!decrypt && { keyId: cipher.keyId }),
+    sessionsScanned: 0,
+    sessionsRewritten: 0,
+    files: [],
+    indexRemoved: false,
+    errors: [],
+  };
+
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(join(dataPath, 'sessions'), { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    entries = [];
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const sessionId = entry.name;
+    const sessionDir = join(dataPath, 'sessions', sessionId);
+    report.sessionsScanned++;
+
+    try {
+      const changed = await withFileLock(sessionLockPath(dataPath, sessionId), () => rotateSession(sessionDir, rewriter, dryRun));
+      if (changed.length > 0) {
+        report.sessionsRewritten++;
+        report.files.push(...changed.map(file => ({ sessionId, file })));
+      }
+    } catch (error) {
+      report.errors.push({ sessionId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const indexPath = join(dataPath, SESSION_INDEX_FILE);
+  if (await exists(indexPath)) {
+    report.indexRemoved = true;
+    if (!dryRun) {
+      await withFileLock(join(dataPath, SESSION_INDEX_LOCK), () => fs.rm(indexPath, { force: true }));
+    }
+  }
+
+  return report;
+}
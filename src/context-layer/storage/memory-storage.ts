@@ -0,0 +1,147 @@
+/**
+ * In-memory Storage Implementation
+ * Keeps everything in process memory; nothing is written to disk.
+ * State can be dumped to and loaded from a JSON bundle.
+ */
+
+import type { Storage } from './storage.js';
+import { sessionSchema, thoughtRecordSchema, taskCommitSchema, documentationEntrySchema } from '../schemas.js';
+import type { Session, ThoughtRecord, TaskCommit, DocumentationEntry } from '../types.js';
+
+export const MEMORY_SNAPSHOT_VERSION = 1;
+
+export interface MemoryStorageSnapshot {
+  version: number;
+  sessions: Session[];
+  thoughts: Record<string, ThoughtRecord[]>;
+  tasks: Record<string, TaskCommit[]>;
+  documentation: DocumentationEntry[];
+}
+
+// Records are cloned on the way in and out so callers cannot mutate stored state
+const clone = <T>(value: T): T => structuredClone(value);
+
+export class MemoryStorage implements Storage {
+  private sessions: Map<string, Session> = new Map();
+  private thoughts: Map<string, ThoughtRecord[]> = new Map();
+  private tasks: Map<string, TaskCommit[]> = new Map();
+  private docs: Map<string, DocumentationEntry> = new Map();
+
+  // Session operations
+  async createSession(session: Session): Promise<void> {
+    this.sessions.set(session.id, clone(session));
+    this.thoughts.set(session.id, []);
+    this.tasks.set(session.id, []);
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? clone(session) : null;
+  }
+
+  async updateSession(session: Session): Promise<void> {
+    this.sessions.set(session.id, clone(session));
+  }
+
+  async listSessions(): Promise<Session[]> {
+    return Array.from(this.sessions.values(), clone);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    this.thoughts.delete(sessionId);
+    this.tasks.delete(sessionId);
+    this.docs.delete(sessionId);
+  }
+
+  async pruneSession(sessionId: string): Promise<void> {
+    this.thoughts.delete(sessionId);
+    this.tasks.delete(sessionId);
+  }
+
+  // Thought operations
+  async saveThought(thought: ThoughtRecord): Promise<void> {
+    const existing = this.thoughts.get(thought.sessionId) || [];
+    existing.push(clone(thought));
+    this.thoughts.set(thought.sessionId, existing);
+  }
+
+  async getThoughts(sessionId: string): Promise<ThoughtRecord[]> {
+    return clone(this.thoughts.get(sessionId) || []);
+  }
+
+  // Task operations
+  async saveTask(task: TaskCommit): Promise<void> {
+    const existing = this.tasks.get(task.sessionId) || [];
+    existing.push(clone(task));
+    this.tasks.set(task.sessionId, existing);
+  }
+
+  async getTask(sessionId: string, taskId: string): Promise<TaskCommit | null> {
+    const task = (this.tasks.get(sessionId) || []).find(t => t.taskId === taskId);
+    return task ? clone(task) : null;
+  }
+
+  async getTasks(sessionId: string): Promise<TaskCommit[]> {
+    return clone(this.tasks.get(sessionId) || []);
+  }
+
+  async updateTask(task: TaskCommit): Promise<void> {
+    const tasks = this.tasks.get(task.sessionId) || [];
+    const index = tasks.findIndex(t => t.taskId === task.taskId);
+    if (index >= 0) {
+      tasks[index] = clone(task);
+    }
+  }
+
+  async replaceTasks(sessionId: string, tasks: TaskCommit[]): Promise<void> {
+    this.tasks.set(sessionId, clone(tasks));
+  }
+
+  // Documentation operations
+  async saveDocumentation(doc: DocumentationEntry): Promise<void> {
+    this.docs.set(doc.sessionId, clone(doc));
+  }
+
+  async getDocumentation(sessionId: string): Promise<DocumentationEntry | null> {
+    const doc = this.docs.get(sessionId);
+    return doc ? clone(doc) : null;
+  }
+
+  // Snapshot operations
+
+  /**
+   * Dump the full state as a JSON bundle
+   */
+  snapshot(): string {
+    const bundle: MemoryStorageSnapshot = {
+      version: MEMORY_SNAPSHOT_VERSION,
+      sessions: Array.from(this.sessions.values()),
+      thoughts: Object.fromEntries(this.thoughts),
+      tasks: Object.fromEntries(this.tasks),
+      documentation: Array.from(this.docs.values()),
+    };
+    return JSON.stringify(bundle);
+  }
+
+  /**
+   * Replace the full state with a bundle produced by snapshot()
+   */
+  restore(json: string): void {
+    const bundle = JSON.parse(json) as MemoryStorageSnapshot;
+    if (bundle.version !== MEMORY_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version: ${bundle.version}`);
+    }
+
+    this.sessions = new Map(bundle.sessions.map(s => [s.id, sessionSchema.parse(s)]));
+    this.thoughts = new Map(Object.entries(bundle.thoughts).map(([id, thoughts]) => [
+      id,
+      thoughts.map(t => thoughtRecordSchema.parse(t)),
+    ]));
+    this.tasks = new Map(Object.entries(bundle.tasks).map(([id, tasks]) => [
+      id,
+      tasks.map(t => taskCommitSchema.parse(t)),
+    ]));
+    this.docs = new Map(bundle.documentation.map(d => [d.sessionId, documentationEntrySchema.parse(d)]));
+  }
+}
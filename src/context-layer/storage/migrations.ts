@@ -0,0 +1,189 @@
+/**
+ * Data Directory Migrations
+ * Upgrades session directories written in older on-disk formats in place,
+ * one session at a time under its lock.
+ */
+
+import { promises as fs, type Dirent } from 'fs';
+import { join } from 'path';
+import { readJsonLines, writeJsonLines } from './jsonl.js';
+import { writeFileAtomic } from './atomic-write.js';
+import { withFileLock } from './file-lock.js';
+import { sessionLockPath } from './paths.js';
+import { FORMAT_VERSION, formatVersionOf, isLogHeader, logHeader } from './format.js';
+
+export interface MigrationAction {
+  sessionId: string;
+  file: string;
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+}
+
+export interface MigrationReport {
+  dataPath: string;
+  dryRun: boolean;
+  targetVersion: number;
+  sessionsScanned: number;
+  sessionsMigrated: number;
+  actions: MigrationAction[];
+  errors: Array<{ sessionId: string; error: string }>;
+}
+
+export interface MigrationOptions {
+  /** Report what would change without touching any file */
+  dryRun?: boolean;
+}
+
+interface MigrationContext {
+  sessionId: string;
+  sessionDir: string;
+  dryRun: boolean;
+}
+
+interface Migration {
+  toVersion: number;
+  /** Bring every file in one session directory up to `toVersion` */
+  migrate(ctx: MigrationContext): Promise<MigrationAction[]>;
+}
+
+async function readRaw(filePath: string): Promise<unknown | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Version 1 -> 2: whole-file JSON arrays become JSONL logs with a header
+ * line, and JSON documents gain a formatVersion field.
+ */
+const toVersion2: Migration = {
+  toVersion: 2,
+  async migrate({ sessionId, sessionDir, dryRun }) {
+    const actions: MigrationAction[] = [];
+    const action = (file: string, fromVersion: number, description: string) =>
+      actions.push({ sessionId, file, fromVersion, toVersion: 2, description });
+
+    // Logs: legacy arrays are converted, unversioned logs get a header
+    const logs = [
+      { legacy: 'thoughts.json', log: 'thoughts.jsonl', toEntry: (record: unknown) => record },
+      { legacy: 'tasks.json', log: 'tasks.jsonl', toEntry: (record: unknown) => ({ op: 'save', task: record }) },
+    ];
+    for (const { legacy, log, toEntry } of logs) {
+      const legacyPath = join(sessionDir, legacy);
+      const logPath = join(sessionDir, log);
+      const records = await readRaw(legacyPath);
+
+      if (Array.isArray(records)) {
+        action(legacy, 1, `convert ${records.length} records to ${log}`);
+        if (!dryRun) {
+          await writeJsonLines(logPath, [logHeader(), ...records.map(toEntry)]);
+          await fs.rm(legacyPath, { force: true });
+        }
+        continue;
+      }
+
+      const entries = await readJsonLines<unknown>(logPath);
+      if (entries && !isLogHeader(entries[0])) {
+        action(log, 1, 'add format header');
+        if (!dryRun) {
+          await writeJsonLines(logPath, [logHeader(), ...entries]);
+        }
+      }
+    }
+
+    // Documents: stamp formatVersion
+    for (const file of ['session.json', 'documentation.json']) {
+      const filePath = join(sessionDir, file);
+      const data = await readRaw(filePath);
+      if (data && formatVersionOf(data) < 2) {
+        action(file, formatVersionOf(data), 'add formatVersion');
+        if (!dryRun) {
+          await writeFileAtomic(filePath, JSON.stringify({ ...data, formatVersion: 2 }, null, 2));
+        }
+      }
+    }
+
+    return actions;
+  },
+};
+
+const MIGRATIONS: Migration[] = [toVersion2];
+
+/**
+ * Highest format version found among a session's files
+ */
+async function newestVersion(sessionDir: string): Promise<number> {
+  let newest = 0;
+  for (const file of ['session.json', 'documentation.json']) {
+    const data = await readRaw(join(sessionDir, file)).catch(() => null);
+    if (data) newest = Math.max(newest, formatVersionOf(data));
+  }
+  for (const file of ['thoughts.jsonl', 'tasks.jsonl']) {
+    const entries = await readJsonLines<unknown>(join(sessionDir, file)).catch(() => null);
+    if (entries && isLogHeader(entries[0])) newest = Math.max(newest, entries[0].formatVersion);
+  }
+  return newest;
+}
+
+/**
+ * Upgrade every session under `<dataPath>/sessions` to the current format.
+ */
+export async function migrateDataDirectory(
+  dataPath: string,
+  options: MigrationOptions = {}
+): Promise<MigrationReport> {
+  const dryRun = options.dryRun ?? false;
+  const report: MigrationReport = {
+    dataPath,
+    dryRun,
+    targetVersion: FORMAT_VERSION,
+    sessionsScanned: 0,
+    sessionsMigrated: 0,
+    actions: [],
+    errors: [],
+  };
+
+  const sessionsDir = join(dataPath, 'sessions');
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(sessionsDir, { withFileTypes: true });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return report;
+    throw error;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const sessionId = entry.name;
+    const sessionDir = join(sessionsDir, sessionId);
+    report.sessionsScanned++;
+
+    try {
+      const actions = await withFileLock(sessionLockPath(dataPath, sessionId), async () => {
+        const newest = await newestVersion(sessionDir);
+        if (newest > FORMAT_VERSION) {
+          throw new Error(`format version ${newest} is newer than supported version ${FORMAT_VERSION}`);
+        }
+
+        const sessionActions: MigrationAction[] = [];
+        for (const migration of MIGRATIONS) {
+          sessionActions.push(...await migration.migrate({ sessionId, sessionDir, dryRun }));
+        }
+        return sessionActions;
+      });
+
+      if (actions.length > 0) {
+        report.sessionsMigrated++;
+        report.actions.push(...actions);
+      }
+    } catch (error) {
+      report.errors.push({ sessionId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,36 @@
+/**
+ * Data directory paths
+ * Every path built from caller-supplied IDs goes through here, so it is
+ * guaranteed to stay inside the data directory.
+ */
+
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+import { assertSessionId } from '../ids.js';
+
+/**
+ * Join segments onto root, refusing any result that resolves outside it
+ */
+export function resolveWithin(root: string, ...segments: string[]): string {
+  const path = join(root, ...segments);
+  const rel = relative(resolve(root), resolve(path));
+  if (rel.split(sep)[0] === '..' || isAbsolute(rel)) {
+    throw new Error(`Path ${segments.join('/')} resolves outside ${root}`);
+  }
+  return path;
+}
+
+/**
+ * <dataPath>/locks/<sessionId>.lock. Locks live outside the session
+ * directory so that deleting a session does not delete the lock held while
+ * deleting it.
+ */
+export function sessionLockPath(dataPath: string, sessionId: string): string {
+  return resolveWithin(dataPath, 'locks', `${sessionId}.lock`);
+}
+
+/**
+ * <dataPath>/sessions/<sessionId>, after validating the ID
+ */
+export function sessionDirPath(dataPath: string, sessionId: string): string {
+  return resolveWithin(dataPath, 'sessions', assertSessionId(sessionId));
+}
@@ -0,0 +1,167 @@
+/**
+ * Session Index
+ * Append-only log of session upserts and deletes, so listing sessions reads
+ * one file instead of one directory per session. The log is compacted when
+ * it grows well past the number of live sessions, and rebuilt from the
+ * session directories when missing or unreadable.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { readJsonLines, appendJsonLines, writeJsonLines } from './jsonl.js';
+import { withFileLock } from './file-lock.js';
+import { isLogHeader, logHeader, stripFormatVersion } from './format.js';
+import { openRecord, type RecordCipher } from './encryption.js';
+import { sessionSchema } from '../schemas.js';
+import { querySessions, type SessionPage, type SessionQuery } from '../session-query.js';
+import type { Session } from '../types.js';
+
+export const SESSION_INDEX_FILE = 'session-index.jsonl';
+
+export const SESSION_INDEX_LOCK = '.session-index.lock';
+
+// Compact once the log holds this many entries per live session
+const COMPACTION_RATIO = 2;
+const MIN_ENTRIES_BEFORE_COMPACTION = 100;
+
+type IndexEntry =
+  | { op: 'put'; session: Session }
+  | { op: 'delete'; id: string };
+
+const indexEntrySchema: z.ZodType<IndexEntry, z.ZodTypeDef, unknown> = z.union([
+  // The doc-worker writes sessions as they are on disk, formatVersion included
+  z.object({ op: z.literal('put'), session: z.preprocess(stripFormatVersion, sessionSchema) }),
+  z.object({ op: z.literal('delete'), id: z.string() }),
+]);
+
+export class SessionIndex {
+  private indexPath: string;
+  private lockPath: string;
+  private scan: () => Promise<Session[]>;
+  private cipher?: RecordCipher;
+  // Sessions as of the index file's last seen size and mtime, for queries
+  private cached?: { size: number; mtimeMs: number; sessions: Session[] };
+
+  /**
+   * @param dataPath Data directory holding the index
+   * @param scan Reads every session from its directory, used to rebuild
+   * @param cipher Encrypts index entries, as for session files
+   */
+  constructor(dataPath: string, scan: () => Promise<Session[]>, cipher?: RecordCipher) {
+    this.indexPath = join(dataPath, SESSION_INDEX_FILE);
+    this.lockPath = join(dataPath, SESSION_INDEX_LOCK);
+    this.scan = scan;
+    this.cipher = cipher;
+  }
+
+  private seal(entry: IndexEntry): unknown {
+    return this.cipher ? this.cipher.seal(entry) : entry;
+  }
+
+  private async readEntries(): Promise<IndexEntry[] | null> {
+    let records: unknown[] | null;
+    try {
+      records = await readJsonLines<unknown>(this.indexPath);
+      if (!records) return null;
+      if (isLogHeader(records[0])) records = records.slice(1);
+      records = records.map(record => openRecord(record, this.cipher, this.indexPath));
+    } catch (error) {
+      console.error(`[SessionIndex] Unreadable index, rebuilding: ${(error as Error).message}`);
+      return null;
+    }
+
+    const result = z.array(indexEntrySchema).safeParse(records);
+    if (!result.success) {
+      console.error('[SessionIndex] Invalid index entries, rebuilding');
+      return null;
+    }
+    return result.data;
+  }
+
+  private fold(entries: IndexEntry[]): Map<string, Session> {
+    const sessions = new Map<string, Session>();
+    for (const entry of entries) {
+      if (entry.op === 'put') {
+        sessions.set(entry.session.id, entry.session);
+      } else {
+        sessions.delete(entry.id);
+      }
+    }
+    return sessions;
+  }
+
+  private async writeCompacted(sessions: Iterable<Session>): Promise<void> {
+    const entries: IndexEntry[] = Array.from(sessions, session => ({ op: 'put', session }));
+    await writeJsonLines(this.indexPath, [logHeader(), ...entries.map(entry => this.seal(entry))]);
+  }
+
+  /**
+   * Rebuild the index from the session directories.
+   */
+  async rebuild(): Promise<Session[]> {
+    return withFileLock(this.lockPath, async () => {
+      const sessions = await this.scan();
+      await this.writeCompacted(sessions);
+      return sessions;
+    });
+  }
+
+  async list(): Promise<Session[]> {
+    const entries = await this.readEntries();
+    if (!entries) return this.rebuild();
+
+    const sessions = this.fold(entries);
+    if (entries.length > Math.max(MIN_ENTRIES_BEFORE_COMPACTION, sessions.size * COMPACTION_RATIO)) {
+      await withFileLock(this.lockPath, async () => {
+        // Re-read under the lock so entries appended meanwhile are kept
+        const latest = await this.readEntries();
+        if (latest) await this.writeCompacted(this.fold(latest).values());
+      });
+    }
+
+    return Array.from(sessions.values());
+  }
+
+  /**
+   * Filter, sort and page the indexed sessions. The folded index is kept
+   * between calls and only re-read once the file changes, so paging through
+   * a listing costs one stat per page.
+   */
+  async query(query: SessionQuery): Promise<SessionPage> {
+    let stats: { size: number; mtimeMs: number } | null;
+    try {
+      stats = await fs.stat(this.indexPath);
+    } catch {
+      stats = null;
+    }
+    if (!stats || !this.cached || this.cached.size !== stats.size || this.cached.mtimeMs !== stats.mtimeMs) {
+      // Stat before reading: a write during the read leaves a stale stat, so
+      // the next query reads again
+      const sessions = await this.list();
+      this.cached = stats ? { size: stats.size, mtimeMs: stats.mtimeMs, sessions } : undefined;
+      return querySessions(sessions, query);
+    }
+    return querySessions(this.cached.sessions, query);
+  }
+
+  private async append(entry: IndexEntry): Promise<void> {
+    await withFileLock(this.lockPath, async () => {
+      try {
+        await fs.access(this.indexPath);
+      } catch {
+        // No index yet: the next list() builds it from the session directories
+        return;
+      }
+      await appendJsonLines(this.indexPath, [this.seal(entry)]);
+    });
+  }
+
+  async put(session: Session): Promise<void> {
+    await this.append({ op: 'put', session });
+  }
+
+  async remove(sessionId: string): Promise<void> {
+    await this.append({ op: 'delete', id: sessionId });
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * SQLite Storage Implementation
+ * Persists all sessions in a single local database file
+ */
+
+import Database from 'better-sqlite3';
+import { dirname } from 'path';
+import { mkdirSync } from 'fs';
+import { z } from 'zod';
+import { StorageCorruptionError } from './errors.js';
+import {
+  sessionSchema,
+  thoughtRecordSchema,
+  taskCommitSchema,
+  documentationEntrySchema,
+} from '../schemas.js';
+import {
+  decodeCursor,
+  encodeCursor,
+  querySessions,
+  toSessionSummary,
+  type SessionPage,
+  type SessionQuery,
+} from '../session-query.js';
+import type { Storage } from './storage.js';
+import type { Session, ThoughtRecord, TaskCommit, DocumentationEntry } from '../types.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions (status);
+  CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON sessions (created_at);
+  CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON sessions (updated_at);
+
+  CREATE TABLE IF NOT EXISTS thoughts (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    thought_number INTEGER NOT NULL,
+    timestamp TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_thoughts_session ON thoughts (session_id, seq);
+
+  CREATE TABLE IF NOT EXISTS tasks (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    task_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tasks_session ON tasks (session_id, task_id);
+  CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks (session_id, status);
+
+  CREATE TABLE IF NOT EXISTS documentation (
+    session_id TEXT PRIMARY KEY,
+    generated_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+`;
+
+function toIso(value: Date | string): string {
+  return new Date(value).toISOString();
+}
+
+export class SqliteStorage implements Storage {
+  private db: Database.Database;
+
+  /**
+   * @param dbPath Path to the database file, or ':memory:' for a throwaway database
+   */
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      mkdirSync(dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Validate a stored row against its schema, reviving dates
+   */
+  private parse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: string, source: string): T {
+    try {
+      return schema.parse(JSON.parse(data));
+    } catch (error) {
+      throw new StorageCorruptionError(`Corrupt data in ${source}: ${(error as Error).message}`, source, { cause: error });
+    }
+  }
+
+  // Session operations
+  async createSession(session: Session): Promise<void> {
+    this.db.prepare(
+      'INSERT INTO sessions (id, status, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?)'
+    ).run(session.id, session.status, toIso(session.createdAt), toIso(session.updatedAt), JSON.stringify(session));
+  }
+
+  async getSession(sessionId: string): Promise<Session | null> {
+    const row = this.db.prepare('SELECT data FROM sessions WHERE id = ?').get(sessionId) as
+      { data: string } | undefined;
+    return row ? this.parse(sessionSchema, row.data, `sessions/${sessionId}`) : null;
+  }
+
+  async updateSession(session: Session): Promise<void> {
+    this.db.prepare(
+      'UPDATE sessions SET status = ?, updated_at = ?, data = ? WHERE id = ?'
+    ).run(session.status, toIso(session.updatedAt), JSON.stringify(session), session.id);
+  }
+
+  async listSessions(): Promise<Session[]> {
+    const rows = this.db.prepare('SELECT data FROM sessions ORDER BY created_at').all() as
+      Array<{ data: string }>;
+    return rows.map(row => this.parse(sessionSchema, row.data, 'sessions'));
+  }
+
+  /**
+   * Filter, sort and page in SQL, using the status and timestamp indexes.
+   * Fork tree queries need every session, so they run over listSessions().
+   */
+  async querySessions(query: SessionQuery): Promise<SessionPage> {
+    if (query.forkTree !== undefined) {
+      return querySessions(await this.listSessions(), query);
+    }
+
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (query.status) {
+      where.push('status = ?');
+      params.push(query.status);
+    }
+    for (const [column, op, value] of [
+      ['created_at', '>=', query.createdAfter],
+      ['created_at', '<=', query.createdBefore],
+      ['updated_at', '>=', query.updatedAfter],
+      ['updated_at', '<=', query.updatedBefore],
+    ] as const) {
+      if (value) {
+        where.push(`${column} ${op} ?`);
+        params.push(toIso(value));
+      }
+    }
+    if (query.tag) {
+      where.push("EXISTS (SELECT 1 FROM json_each(data, '$.metadata.tags') WHERE type = 'text' AND value = ?)");
+      params.push(query.tag);
+    }
+    for (const [key, value] of Object.entries(query.metadata ?? {})) {
+      // -> yields minified JSON, the same form JSON.stringify compares in memory
+      where.push('data -> ? = json(?)');
+      params.push(`$.metadata.${JSON.stringify(key)}`, JSON.stringify(value));
+    }
+
+    const column = query.sortBy === 'updatedAt' ? 'updated_at' : 'created_at';
+    const direction = query.order === 'desc' ? 'DESC' : 'ASC';
+    const filter = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM sessions ${filter}`).get(...params) as
+      { total: number };
+
+    const pageWhere = [...where];
+    const pageParams = [...params];
+    if (query.cursor) {
+      const position = decodeCursor(query.cursor);
+      pageWhere.push(`(${column}, id) ${direction === 'DESC' ? '<' : '>'} (?, ?)`);
+      pageParams.push(toIso(new Date(position.key)), position.id);
+    }
+    const limit = query.limit !== undefined ? 'LIMIT ?' : '';
+    if (query.limit !== undefined) pageParams.push(query.limit + 1);
+    const rows = this.db.prepare(
+      `SELECT data FROM sessions ${pageWhere.length > 0 ? `WHERE ${pageWhere.join(' AND ')}` : ''}
+       ORDER BY ${column} ${direction}, id ${direction} ${limit}`
+    ).all(...pageParams) as Array<{ data: string }>;
+
+    const sessions = rows.map(row => this.parse(sessionSchema, row.data, 'sessions'));
+    const page = query.limit !== undefined ? sessions.slice(0, query.limit) : sessions;
+    const last = page[page.length - 1];
+    const sortKey = query.sortBy === 'updatedAt' ? 'updatedAt' : 'createdAt';
+    return {
+      sessions: page.map(toSessionSummary),
+      total,
+      ...(sessions.length > page.length && last && { nextCursor: encodeCursor({ key: last[sortKey].getTime(), id: last.id }) }),
+    };
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const remove = this.db.transaction((id: string) => {
+      this.db.prepare('DELETE FROM thoughts WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM tasks WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM documentation WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id);
+    });
+    remove(sessionId);
+  }
+
+  async pruneSession(sessionId: string): Promise<void> {
+    const prune = this.db.transaction((id: string) => {
+      this.db.prepare('DELETE FROM thoughts WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM tasks WHERE session_id = ?').run(id);
+    });
+    prune(sessionId);
+  }
+
+  // Thought operations
+  async saveThought(thought: ThoughtRecord): Promise<void> {
+    this.db.prepare(
+      'INSERT INTO thoughts (session_id, thought_number, timestamp, data) VALUES (?, ?, ?, ?)'
+    ).run(thought.sessionId, thought.thoughtNumber, toIso(thought.timestamp), JSON.stringify(thought));
+  }
+
+  async getThoughts(sessionId: string): Promise<ThoughtRecord[]> {
+    const rows = this.db.prepare('SELECT data FROM thoughts WHERE session_id = ? ORDER BY seq').all(sessionId) as
+      Array<{ data: string }>;
+    return rows.map(row => this.parse(thoughtRecordSchema, row.data, `thoughts/${sessionId}`));
+  }
+
+  // Task operations
+  async saveTask(task: TaskCommit): Promise<void> {
+    this.db.prepare(
+      'INSERT INTO tasks (session_id, task_id, status, data) VALUES (?, ?, ?, ?)'
+    ).run(task.sessionId, task.taskId, task.status, JSON.stringify(task));
+  }
+
+  async getTask(sessionId: string, taskId: string): Promise<TaskCommit | null> {
+    const row = this.db.prepare(
+      'SELECT data FROM tasks WHERE session_id = ? AND task_id = ? ORDER BY seq LIMIT 1'
+    ).get(sessionId, taskId) as { data: string } | undefined;
+    return row ? this.parse(taskCommitSchema, row.data, `tasks/${sessionId}/${taskId}`) : null;
+  }
+
+  async getTasks(sessionId: string): Promise<TaskCommit[]> {
+    const rows = this.db.prepare('SELECT data FROM tasks WHERE session_id = ? ORDER BY seq').all(sessionId) as
+      Array<{ data: string }>;
+    return rows.map(row => this.parse(taskCommitSchema, row.data, `tasks/${sessionId}`));
+  }
+
+  async updateTask(task: TaskCommit): Promise<void> {
+    // Matches FileStorage: only the first record with this taskId is replaced
+    this.db.prepare(
+      `UPDATE tasks SET status = ?, data = ? WHERE seq = (
+         SELECT seq FROM tasks WHERE session_id = ? AND task_id = ? ORDER BY seq LIMIT 1
+       )`
+    ).run(task.status, JSON.stringify(task), task.sessionId, task.taskId);
+  }
+
+  async replaceTasks(sessionId: string, tasks: TaskCommit[]): Promise<void> {
+    const replace = this.db.transaction((id: string, records: TaskCommit[]) => {
+      this.db.prepare('DELETE FROM tasks WHERE session_id = ?').run(id);
+      const insert = this.db.prepare('INSERT INTO tasks (session_id, task_id, status, data) VALUES (?, ?, ?, ?)');
+      for (const task of records) {
+        insert.run(id, task.taskId, task.status, JSON.stringify(task));
+      }
+    });
+    replace(sessionId, tasks);
+  }
+
+  // Documentation operations
+  async saveDocumentation(doc: DocumentationEntry): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO documentation (session_id, generated_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (session_id) DO UPDATE SET generated_at = excluded.generated_at, data = excluded.data`
+    ).run(doc.sessionId, toIso(doc.generatedAt), JSON.stringify(doc));
+  }
+
+  async getDocumentation(sessionId: string): Promise<DocumentationEntry | null> {
+    const row = this.db.prepare('SELECT data FROM documentation WHERE session_id = ?').get(sessionId) as
+      { data: string } | undefined;
+    return row ? this.parse(documentationEntrySchema, row.data, `documentation/${sessionId}`) : null;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
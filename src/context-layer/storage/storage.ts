@@ -4,6 +4,7 @@
  */
 
 import type { Session, ThoughtRecord, TaskCommit, DocumentationEntry } from '../types.js';
+import type { SessionPage, SessionQuery } from '../session-query.js';
 
 export interface Storage {
   // Session operations
@@ -26,5 +27,47 @@ export interface Storage {
   // Documentation operations
   saveDocumentation(doc: DocumentationEntry): Promise<void>;
   getDocumentation(sessionId: string): Promise<DocumentationEntry | null>;
+
+  // Retention (optional): drop a session's thoughts and tasks, keeping the
+  // session record and its documentation
+  pruneSession?(sessionId: string): Promise<void>;
+
+  // Repair (optional): replace a session's whole task list
+  replaceTasks?(sessionId: string, tasks: TaskCommit[]): Promise<void>;
+
+  // Listing (optional): filter, sort and page sessions without loading them
+  // all; otherwise queries run over listSessions()
+  querySessions?(query: SessionQuery): Promise<SessionPage>;
+
+  // Concurrency control (optional): backends shared between processes
+  // provide their own lock; the rest get an in-process one
+  withSessionLock?<T>(sessionId: string, fn: () => Promise<T>): Promise<T>;
+}
+
+// Per storage instance, the tail of each session's queue of lock holders
+const sessionQueues = new WeakMap<Storage, Map<string, Promise<void>>>();
+
+/**
+ * Run a read-modify-write cycle on a session under the storage's session
+ * lock. Backends without one are locked within this process: callers queue
+ * per session and run one at a time.
+ */
+export function withSessionLock<T>(storage: Storage, sessionId: string, fn: () => Promise<T>): Promise<T> {
+  if (storage.withSessionLock) {
+    return storage.withSessionLock(sessionId, fn);
+  }
+
+  let queues = sessionQueues.get(storage);
+  if (!queues) {
+    queues = new Map();
+    sessionQueues.set(storage, queues);
+  }
+  const result = (queues.get(sessionId) ?? Promise.resolve()).then(fn);
+  const tail = result.then(() => undefined, () => undefined);
+  queues.set(sessionId, tail);
+  void tail.then(() => {
+    if (queues.get(sessionId) === tail) queues.delete(sessionId);
+  });
+  return result;
 }
 
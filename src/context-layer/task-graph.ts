@@ -0,0 +1,137 @@
+/**
+ * Task Graph
+ * Tasks form a tree through parentTaskId, and wait on each other through
+ * blockedBy. Both relations must stay acyclic. A task is actionable when it
+ * is not completed, every task it is blocked by is completed, and it has no
+ * unfinished subtasks (those are the ones to work on).
+ */
+
+import type { TaskCommit } from './types.js';
+
+export interface TaskRelations {
+  parentTaskId?: string;
+  blockedBy?: string[];
+}
+
+export interface TaskTreeNode {
+  task: TaskCommit;
+  children: TaskTreeNode[];
+  /** Percent complete: 100 for a completed task, else the mean of its subtasks */
+  completion: number;
+}
+
+export interface TaskStatusView {
+  actionable: boolean;
+  /** Unfinished tasks this one is blocked by */
+  waitingOn: string[];
+}
+
+export type TaskListing = TaskCommit & TaskStatusView;
+
+/**
+ * The cycle `taskId` would close by waiting on `start`, following `next`,
+ * or undefined if there is none
+ */
+function findCycle(
+  taskId: string,
+  start: string,
+  next: (id: string) => string[]
+): string[] | undefined {
+  const stack: string[][] = [[start]];
+  const seen = new Set<string>();
+  while (stack.length > 0) {
+    const path = stack.pop()!;
+    const id = path[path.length - 1];
+    if (id === taskId) return [taskId, ...path];
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const nextId of next(id)) {
+      stack.push([...path, nextId]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check that giving `taskId` these relations keeps both the subtask tree and
+ * the dependency graph acyclic, and that every referenced task exists.
+ * Throws with the offending cycle.
+ */
+export function validateTaskRelations(tasks: TaskCommit[], taskId: string, relations: TaskRelations): void {
+  const byId = new Map(tasks.map(t => [t.taskId, t]));
+  const requireTask = (id: string) => {
+    if (!byId.has(id)) throw new Error(`Task not found: ${id}`);
+  };
+
+  if (relations.parentTaskId !== undefined) {
+    requireTask(relations.parentTaskId);
+    const cycle = findCycle(taskId, relations.parentTaskId, id => {
+      const parent = byId.get(id)?.parentTaskId;
+      return parent !== undefined ? [parent] : [];
+    });
+    if (cycle) {
+      throw new Error(`Subtask cycle: ${cycle.join(' → ')}`);
+    }
+  }
+
+  for (const blocker of relations.blockedBy ?? []) {
+    requireTask(blocker);
+    const cycle = findCycle(taskId, blocker, id => byId.get(id)?.blockedBy ?? []);
+    if (cycle) {
+      throw new Error(`Dependency cycle: ${cycle.join(' → ')}`);
+    }
+  }
+}
+
+/**
+ * Actionability of every task, by taskId
+ */
+export function taskStatusViews(tasks: TaskCommit[]): Map<string, TaskStatusView> {
+  const byId = new Map(tasks.map(t => [t.taskId, t]));
+  const openChildren = new Set(
+    tasks.filter(t => t.status !== 'completed' && t.parentTaskId !== undefined).map(t => t.parentTaskId!)
+  );
+
+  return new Map(tasks.map(task => {
+    const waitingOn = (task.blockedBy ?? []).filter(id => {
+      const blocker = byId.get(id);
+      return blocker !== undefined && blocker.status !== 'completed';
+    });
+    const actionable = task.status !== 'completed' && waitingOn.length === 0 && !openChildren.has(task.taskId);
+    return [task.taskId, { actionable, waitingOn }];
+  }));
+}
+
+/**
+ * Tasks as a forest, in stored order. Tasks whose parent is missing become
+ * roots.
+ */
+export function buildTaskTree(tasks: TaskCommit[]): TaskTreeNode[] {
+  const ids = new Set(tasks.map(t => t.taskId));
+  const children = new Map<string, TaskCommit[]>();
+  for (const task of tasks) {
+    if (task.parentTaskId !== undefined && ids.has(task.parentTaskId)) {
+      children.set(task.parentTaskId, [...(children.get(task.parentTaskId) ?? []), task]);
+    }
+  }
+
+  // Guards against cycles in data written before validation
+  const visited = new Set<string>();
+  const toNode = (task: TaskCommit): TaskTreeNode => {
+    visited.add(task.taskId);
+    const nodes = (children.get(task.taskId) ?? []).filter(c => !visited.has(c.taskId)).map(toNode);
+    let completion = task.status === 'completed' ? 100 : 0;
+    if (task.status !== 'completed' && nodes.length > 0) {
+      completion = Math.round(nodes.reduce((sum, n) => sum + n.completion, 0) / nodes.length);
+    }
+    return { task, children: nodes, completion };
+  };
+
+  const roots = tasks.filter(t => t.parentTaskId === undefined || !ids.has(t.parentTaskId));
+  const forest = roots.map(toNode);
+  // Anything left sits on a parent cycle; show it at the top level
+  for (const task of tasks) {
+    if (!visited.has(task.taskId)) forest.push(toNode(task));
+  }
+  return forest;
+}
@@ -0,0 +1,63 @@
+/**
+ * Task Links
+ * Connects tasks to the thoughts that created, referenced and completed them.
+ * Tasks record thought numbers; a number is resolved to the thought that
+ * named the task, or else to the latest thought with that number.
+ */
+
+import type { TaskCommit, ThoughtRecord } from './types.js';
+
+export type TaskLinkRole = 'created' | 'referenced' | 'completed';
+
+/** The thoughts that went into a task */
+export interface TaskThoughts {
+  taskId: string;
+  created?: ThoughtRecord;
+  /** Thoughts whose taskContext named the task, in thought order */
+  referenced: ThoughtRecord[];
+  completed?: ThoughtRecord;
+}
+
+/** A task touched by a thought, and how */
+export interface ThoughtTaskLink {
+  task: TaskCommit;
+  roles: TaskLinkRole[];
+}
+
+/**
+ * Add a thought number to a task's references, keeping them sorted and unique
+ */
+export function addThoughtRef(task: TaskCommit, thoughtNumber: number): void {
+  const refs = new Set(task.thoughtRefs ?? []);
+  refs.add(thoughtNumber);
+  task.thoughtRefs = [...refs].sort((a, b) => a - b);
+}
+
+function resolveThought(thoughts: ThoughtRecord[], taskId: string, thoughtNumber: number): ThoughtRecord | undefined {
+  const numbered = thoughts.filter(t => t.thoughtNumber === thoughtNumber);
+  return numbered.find(t => t.taskId === taskId) ?? numbered.at(-1);
+}
+
+export function thoughtsForTask(task: TaskCommit, thoughts: ThoughtRecord[]): TaskThoughts {
+  const resolve = (n: number) => resolveThought(thoughts, task.taskId, n);
+  const referenced = (task.thoughtRefs ?? [])
+    .map(resolve)
+    .filter((t): t is ThoughtRecord => t !== undefined);
+
+  return {
+    taskId: task.taskId,
+    created: task.createdAtThought ? resolve(task.createdAtThought) : undefined,
+    referenced,
+    completed: task.status === 'completed' && task.completedAtThought > 0 ? resolve(task.completedAtThought) : undefined,
+  };
+}
+
+export function tasksForThought(tasks: TaskCommit[], thoughtNumber: number): ThoughtTaskLink[] {
+  return tasks.flatMap(task => {
+    const roles: TaskLinkRole[] = [];
+    if (task.createdAtThought === thoughtNumber) roles.push('created');
+    if (task.thoughtRefs?.includes(thoughtNumber)) roles.push('referenced');
+    if (task.status === 'completed' && task.completedAtThought === thoughtNumber) roles.push('completed');
+    return roles.length > 0 ? [{ task, roles }] : [];
+  });
+}
@@ -4,8 +4,26 @@
  */
 
 import { randomUUID } from 'crypto';
-import type { Storage } from './storage/storage.js';
-import type { TaskCommit, TaskContext } from './types.js';
+import { withSessionLock, type Storage } from './storage/storage.js';
+import { validateTaskRelations } from './task-graph.js';
+import { addThoughtRef } from './task-links.js';
+import type { TaskCommit, TaskContext, TaskStatus } from './types.js';
+
+/**
+ * Move a task to a new status, recording the transition
+ */
+function transition(task: TaskCommit, status: TaskStatus, atThought: number, at: Date): void {
+  if (task.status === status) return;
+  task.history = [...(task.history ?? []), { from: task.status, status, at, atThought }];
+  task.status = status;
+  if (status === 'completed') {
+    task.completedAt = at;
+    task.completedAtThought = atThought;
+  } else {
+    task.completedAt = undefined;
+    task.completedAtThought = 0;
+  }
+}
 
 export class TaskManager {
   private storage: Storage;
@@ -14,6 +32,12 @@ export class TaskManager {
     this.storage = storage;
   }
 
+  /**
+   * Record a task as completed. Upserts by taskId: committing an existing
+   * task completes it (if it is not already) and updates its title and
+   * description when given, without adding a second record. The completing
+   * thought is added to the task's thought references.
+   */
   async commitTask(params: {
     sessionId: string;
     taskId?: string;
@@ -24,37 +48,96 @@ export class TaskManager {
     const taskId = params.taskId || `task_${randomUUID().slice(0, 12)}`;
     const now = new Date();
 
-    const task: TaskCommit = {
-      sessionId: params.sessionId,
-      taskId,
-      taskTitle: params.taskTitle || 'Untitled Task',
-      description: params.description,
-      completedAtThought: params.completedAtThought,
-      status: 'completed',
-      createdAt: now,
-      completedAt: now,
-    };
+    return withSessionLock(this.storage, params.sessionId, async () => {
+      const existing = await this.storage.getTask(params.sessionId, taskId);
+      if (existing) {
+        if (params.taskTitle !== undefined) existing.taskTitle = params.taskTitle;
+        if (params.description !== undefined) existing.description = params.description;
+        transition(existing, 'completed', params.completedAtThought, now);
+        addThoughtRef(existing, params.completedAtThought);
+        await this.storage.updateTask(existing);
+        await this.touchSession(params.sessionId, now, 0);
+        return existing;
+      }
 
-    await this.storage.saveTask(task);
+      const task: TaskCommit = {
+        sessionId: params.sessionId,
+        taskId,
+        taskTitle: params.taskTitle || 'Untitled Task',
+        description: params.description,
+        completedAtThought: params.completedAtThought,
+        status: 'completed',
+        createdAt: now,
+        completedAt: now,
+        history: [{ status: 'completed', at: now, atThought: params.completedAtThought }],
+        createdAtThought: params.completedAtThought,
+        thoughtRefs: [params.completedAtThought],
+      };
+      await this.storage.saveTask(task);
+      await this.touchSession(params.sessionId, now, 1);
+      return task;
+    });
+  }
 
-    // Update session task count
-    const session = await this.storage.getSession(params.sessionId);
-    if (session) {
-      session.taskCount++;
-      session.updatedAt = now;
-      await this.storage.updateSession(session);
-    }
+  /**
+   * Record that a thought named a task in its taskContext. Upserts by taskId:
+   * an unknown task is created pending, at that thought.
+   */
+  async referenceTask(params: {
+    sessionId: string;
+    taskId: string;
+    taskTitle?: string;
+    description?: string;
+    thoughtNumber: number;
+  }): Promise<TaskCommit> {
+    const now = new Date();
 
-    return task;
+    return withSessionLock(this.storage, params.sessionId, async () => {
+      const existing = await this.storage.getTask(params.sessionId, params.taskId);
+      if (existing) {
+        if (params.taskTitle !== undefined) existing.taskTitle = params.taskTitle;
+        if (params.description !== undefined) existing.description = params.description;
+        addThoughtRef(existing, params.thoughtNumber);
+        await this.storage.updateTask(existing);
+        await this.touchSession(params.sessionId, now, 0);
+        return existing;
+      }
+
+      const task: TaskCommit = {
+        sessionId: params.sessionId,
+        taskId: params.taskId,
+        taskTitle: params.taskTitle || 'Untitled Task',
+        description: params.description,
+        completedAtThought: 0,
+        status: 'pending',
+        createdAt: now,
+        history: [{ status: 'pending', at: now, atThought: params.thoughtNumber }],
+        createdAtThought: params.thoughtNumber,
+        thoughtRefs: [params.thoughtNumber],
+      };
+      await this.storage.saveTask(task);
+      await this.touchSession(params.sessionId, now, 1);
+      return task;
+    });
   }
 
+  /**
+   * Plan a task before working on it. Starts pending unless a status is given.
+   */
   async createTask(params: {
     sessionId: string;
+    taskId?: string;
     taskTitle: string;
     description?: string;
+    status?: Exclude<TaskStatus, 'completed'>;
+    parentTaskId?: string;
+    blockedBy?: string[];
+    /** Latest thought number at creation */
+    atThought?: number;
   }): Promise<TaskCommit> {
-    const taskId = `task_${randomUUID().slice(0, 12)}`;
+    const taskId = params.taskId || `task_${randomUUID().slice(0, 12)}`;
     const now = new Date();
+    const status = params.status || 'pending';
 
     const task: TaskCommit = {
       sessionId: params.sessionId,
@@ -62,35 +145,104 @@ export class TaskManager {
       taskTitle: params.taskTitle,
       description: params.description,
       completedAtThought: 0,
-      status: 'pending',
+      status,
       createdAt: now,
+      ...(params.parentTaskId !== undefined && { parentTaskId: params.parentTaskId }),
+      ...(params.blockedBy && params.blockedBy.length > 0 && { blockedBy: [...new Set(params.blockedBy)] }),
+      history: [{ status, at: now, atThought: params.atThought ?? 0 }],
+      createdAtThought: params.atThought ?? 0,
     };
 
-    await this.storage.saveTask(task);
+    await withSessionLock(this.storage, params.sessionId, async () => {
+      const tasks = await this.storage.getTasks(params.sessionId);
+      if (tasks.some(t => t.taskId === taskId)) {
+        throw new Error(`Task already exists: ${taskId}`);
+      }
+      validateTaskRelations(tasks, taskId, task);
+      await this.storage.saveTask(task);
+      await this.touchSession(params.sessionId, now, 1);
+    });
+
     return task;
   }
 
+  /**
+   * Change a task's status, title, description, parent or blockers. A null
+   * parentTaskId makes the task top-level; blockedBy replaces the list.
+   * Status changes are added to the task's history. Completing a task stamps completedAt and
+   * completedAtThought; moving it back out of completed clears them.
+   */
+  async updateTask(
+    sessionId: string,
+    taskId: string,
+    changes: {
+      status?: TaskStatus;
+      taskTitle?: string;
+      description?: string;
+      parentTaskId?: string | null;
+      blockedBy?: string[];
+      /** Latest thought number when the change happened */
+      atThought?: number;
+    }
+  ): Promise<TaskCommit> {
+    return withSessionLock(this.storage, sessionId, async () => {
+      const tasks = await this.storage.getTasks(sessionId);
+      const task = tasks.find(t => t.taskId === taskId);
+      if (!task) {
+        throw new Error(`Task not found: ${taskId}`);
+      }
+
+      validateTaskRelations(tasks, taskId, {
+        parentTaskId: changes.parentTaskId ?? undefined,
+        blockedBy: changes.blockedBy,
+      });
+      if (changes.parentTaskId === null) {
+        delete task.parentTaskId;
+      } else if (changes.parentTaskId !== undefined) {
+        task.parentTaskId = changes.parentTaskId;
+      }
+      if (changes.blockedBy !== undefined) {
+        task.blockedBy = [...new Set(changes.blockedBy)];
+      }
+
+      const now = new Date();
+      if (changes.taskTitle !== undefined) task.taskTitle = changes.taskTitle;
+      if (changes.description !== undefined) task.description = changes.description;
+      if (changes.status !== undefined) {
+        transition(task, changes.status, changes.atThought ?? 0, now);
+      }
+      await this.storage.updateTask(task);
+      await this.touchSession(sessionId, now, 0);
+      return task;
+    });
+  }
+
   async updateTaskStatus(
     sessionId: string,
     taskId: string,
-    status: 'pending' | 'in_progress' | 'completed',
+    status: TaskStatus,
     completedAtThought?: number
   ): Promise<void> {
-    const task = await this.storage.getTask(sessionId, taskId);
-    if (task) {
-      task.status = status;
-      if (status === 'completed') {
-        task.completedAt = new Date();
-        if (completedAtThought !== undefined) {
-          task.completedAtThought = completedAtThought;
-        }
-      }
-      await this.storage.updateTask(task);
+    await this.updateTask(sessionId, taskId, { status, atThought: completedAtThought });
+  }
+
+  // Must run under the session lock
+  private async touchSession(sessionId: string, now: Date, addedTasks: number): Promise<void> {
+    const session = await this.storage.getSession(sessionId);
+    if (session) {
+      session.taskCount += addedTasks;
+      session.updatedAt = now;
+      await this.storage.updateSession(session);
     }
   }
 
-  async getTasks(sessionId: string): Promise<TaskCommit[]> {
-    return this.storage.getTasks(sessionId);
+  async getTask(sessionId: string, taskId: string): Promise<TaskCommit | null> {
+    return this.storage.getTask(sessionId, taskId);
+  }
+
+  async getTasks(sessionId: string, filter: { status?: TaskStatus } = {}): Promise<TaskCommit[]> {
+    const tasks = await this.storage.getTasks(sessionId);
+    return filter.status ? tasks.filter(t => t.status === filter.status) : tasks;
   }
 
   shouldCommitTask(taskContext?: TaskContext): boolean {
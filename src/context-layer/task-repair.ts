@@ -0,0 +1,120 @@
+/**
+ * Task Repair
+ * Fixes task data written before commits were idempotent: repeated commits
+ * of one taskId left duplicate records and inflated the session's
+ * taskCount. Duplicates are merged into one task per taskId and the
+ * session's counters are recomputed from what is stored.
+ */
+
+import { withSessionLock, type Storage } from './storage/storage.js';
+import type { TaskCommit, TaskTransition } from './types.js';
+
+export interface TaskRepairOptions {
+  /** Report what would change without writing */
+  dryRun?: boolean;
+}
+
+export interface SessionRepair {
+  sessionId: string;
+  duplicatesRemoved: number;
+  taskCount: { from: number; to: number };
+  thoughtCount: { from: number; to: number };
+}
+
+export interface TaskRepairReport {
+  dryRun: boolean;
+  sessionsScanned: number;
+  repaired: SessionRepair[];
+  errors: Array<{ sessionId: string; error: string }>;
+}
+
+/**
+ * Merge records sharing a taskId. The first record is kept, since storage
+ * applied every update to it. A later duplicate can only come from a
+ * repeated commit, so it completes the task if the first record is not
+ * completed. The history is rebuilt from the records when missing.
+ */
+export function mergeDuplicateTasks(tasks: TaskCommit[]): TaskCommit[] {
+  const groups = new Map<string, TaskCommit[]>();
+  for (const task of tasks) {
+    groups.set(task.taskId, [...(groups.get(task.taskId) ?? []), task]);
+  }
+
+  return [...groups.values()].map(([first, ...duplicates]) => {
+    if (duplicates.length === 0) return first;
+
+    const merged: TaskCommit = { ...first };
+    const completion = duplicates.find(t => t.status === 'completed');
+    if (merged.status !== 'completed' && completion) {
+      merged.status = 'completed';
+      merged.completedAt = completion.completedAt ?? completion.createdAt;
+      merged.completedAtThought = completion.completedAtThought;
+    }
+
+    if (!merged.history) {
+      const history: TaskTransition[] = [];
+      for (const record of [first, ...duplicates]) {
+        const previous = history.at(-1);
+        if (previous?.status === record.status) continue;
+        history.push({
+          ...(previous && { from: previous.status }),
+          status: record.status,
+          at: record.completedAt ?? record.createdAt,
+          atThought: record.completedAtThought,
+        });
+      }
+      merged.history = history;
+    }
+    return merged;
+  });
+}
+
+/**
+ * Merge duplicate tasks and recompute taskCount and thoughtCount for every
+ * session. Pruned sessions are skipped: their counters describe data that
+ * is gone on purpose.
+ */
+export async function repairTasks(storage: Storage, options: TaskRepairOptions = {}): Promise<TaskRepairReport> {
+  const dryRun = options.dryRun ?? false;
+  const report: TaskRepairReport = { dryRun, sessionsScanned: 0, repaired: [], errors: [] };
+
+  for (const candidate of await storage.listSessions()) {
+    report.sessionsScanned++;
+    if (candidate.prunedAt) continue;
+
+    try {
+      await withSessionLock(storage, candidate.id, async () => {
+        const session = await storage.getSession(candidate.id);
+        if (!session || session.prunedAt) return;
+
+        const tasks = await storage.getTasks(session.id);
+        const merged = mergeDuplicateTasks(tasks);
+        const thoughtCount = (await storage.getThoughts(session.id)).length;
+        const duplicatesRemoved = tasks.length - merged.length;
+        if (duplicatesRemoved === 0 && session.taskCount === merged.length && session.thoughtCount === thoughtCount) {
+          return;
+        }
+
+        report.repaired.push({
+          sessionId: session.id,
+          duplicatesRemoved,
+          taskCount: { from: session.taskCount, to: merged.length },
+          thoughtCount: { from: session.thoughtCount, to: thoughtCount },
+        });
+        if (dryRun) return;
+
+        if (duplicatesRemoved > 0) {
+          if (!storage.replaceTasks) {
+            throw new Error('storage backend does not support replacing tasks');
+          }
+          await storage.replaceTasks(session.id, merged);
+        }
+        await storage.updateSession({ ...session, taskCount: merged.length, thoughtCount });
+      });
+    } catch (error) {
+      report.errors.push({ sessionId: candidate.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+}
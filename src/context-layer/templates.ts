@@ -0,0 +1,176 @@
+/**
+ * Session Templates
+ * Reusable starting points for recurring kinds of sessions, such as bug
+ * triage or incident postmortems. Each template is a JSON or YAML file in
+ * the templates directory, named after the file: bug-triage.yaml defines
+ * the bug-triage template.
+ *
+ * A template sets metadata defaults, seeds pending tasks, suggests a
+ * totalThoughts and lays out the session's generated documentation.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { isValidId, taskIdSchema } from './ids.js';
+import { documentationLayoutSchema } from './schemas.js';
+import type { DocumentationLayout } from './types.js';
+
+const TEMPLATE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+export interface TemplateTask {
+  taskId?: string;
+  taskTitle: string;
+  description?: string;
+  /** taskId of an earlier task in the template */
+  parentTaskId?: string;
+  /** taskIds of earlier tasks in the template */
+  blockedBy?: string[];
+}
+
+export interface SessionTemplate {
+  /** File name without its extension */
+  name: string;
+  description?: string;
+  /** Defaults for the session's metadata */
+  metadata?: Record<string, unknown>;
+  /** Stored as metadata.tags */
+  tags?: string[];
+  /** Suggested totalThoughts for the first thought */
+  totalThoughts?: number;
+  /** Seeded as pending tasks, in order */
+  tasks: TemplateTask[];
+  documentation?: DocumentationLayout;
+}
+
+/** What list_session_templates shows for each template */
+export interface TemplateSummary {
+  name: string;
+  description?: string;
+  tags?: string[];
+  totalThoughts?: number;
+  taskCount: number;
+}
+
+const templateTaskSchema = z.object({
+  taskId: taskIdSchema.optional(),
+  taskTitle: z.string().min(1),
+  description: z.string().optional(),
+  parentTaskId: z.string().optional(),
+  blockedBy: z.array(z.string()).optional(),
+}).strict();
+
+// Relations may only point back at earlier tasks, so seeding them in order
+// never makes a cycle
+const templateSchema = z.object({
+  description: z.string().optional(),
+  metadata: z.record(z.unknown()).optional(),
+  tags: z.array(z.string()).optional(),
+  totalThoughts: z.number().int().positive().optional(),
+  tasks: z.array(templateTaskSchema).default([]),
+  documentation: documentationLayoutSchema.strict().optional(),
+}).strict().superRefine((template, ctx) => {
+  const seen = new Set<string>();
+  template.tasks.forEach((task, index) => {
+    const refs = [task.parentTaskId, ...(task.blockedBy ?? [])].filter((id): id is string => id !== undefined);
+    for (const ref of refs) {
+      if (!seen.has(ref)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tasks', index], message: `${ref} is not an earlier task` });
+      }
+    }
+    if (task.taskId !== undefined) {
+      if (seen.has(task.taskId)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tasks', index, 'taskId'], message: `Duplicate task ID ${task.taskId}` });
+      }
+      seen.add(task.taskId);
+    }
+  });
+});
+
+/**
+ * Validate a parsed template document
+ */
+export function parseSessionTemplate(name: string, value: unknown): SessionTemplate {
+  const result = templateSchema.safeParse(value ?? {});
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid template ${name} at ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+  return { name, ...result.data };
+}
+
+async function readTemplateFile(name: string, filePath: string): Promise<SessionTemplate> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  let value: unknown;
+  try {
+    value = path.extname(filePath) === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid template ${filePath}: ${String(error)}`);
+  }
+  return parseSessionTemplate(name, value);
+}
+
+/**
+ * Template files in a directory, by template name. A missing directory has
+ * no templates; files whose names are not valid IDs are skipped.
+ */
+async function templateFiles(dirPath: string): Promise<Map<string, string>> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dirPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+    throw error;
+  }
+
+  const files = new Map<string, string>();
+  for (const entry of entries.sort()) {
+    const extension = path.extname(entry);
+    if (!TEMPLATE_EXTENSIONS.includes(extension)) continue;
+    const name = entry.slice(0, -extension.length);
+    if (!isValidId(name)) {
+      console.error(`Skipping template with invalid name: ${entry}`);
+      continue;
+    }
+    if (files.has(name)) {
+      throw new Error(`Duplicate template: ${name} (${files.get(name)} and ${entry})`);
+    }
+    files.set(name, entry);
+  }
+  return new Map([...files].map(([name, entry]) => [name, path.join(dirPath, entry)]));
+}
+
+/**
+ * All valid templates in a directory, sorted by name. Invalid templates are
+ * skipped with a warning, so one bad file does not hide the rest.
+ */
+export async function loadTemplates(dirPath: string): Promise<SessionTemplate[]> {
+  const templates: SessionTemplate[] = [];
+  for (const [name, filePath] of await templateFiles(dirPath)) {
+    try {
+      templates.push(await readTemplateFile(name, filePath));
+    } catch (error) {
+      console.error(`Skipping template: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return templates;
+}
+
+export async function loadTemplate(dirPath: string, name: string): Promise<SessionTemplate> {
+  const filePath = (await templateFiles(dirPath)).get(name);
+  if (!filePath) {
+    throw new Error(`Template not found: ${name}`);
+  }
+  return readTemplateFile(name, filePath);
+}
+
+export function summarizeTemplate(template: SessionTemplate): TemplateSummary {
+  return {
+    name: template.name,
+    description: template.description,
+    tags: template.tags,
+    totalThoughts: template.totalThoughts,
+    taskCount: template.tasks.length,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Thought Graph
+ * Turns a session's flat thought records into a DAG. Edges point from the
+ * earlier thought to the later one:
+ * - sequence: consecutive thoughts on the same line (the main line or one branch)
+ * - branch: from the thought a branch starts at to the branch's first thought
+ * - revision: from a revised thought to the thought revising it
+ *
+ * The current line of reasoning is the path that ends at the latest thought
+ * outside abandoned branches, following branches back to where they
+ * diverged, minus thoughts that were revised along the way.
+ *
+ * Branches carry their lifecycle status from the session's branch
+ * resolutions; a branch with no resolution is open.
+ */
+
+import type { BranchResolution, BranchStatus, ThoughtRecord } from './types.js';
+
+/** Line name for thoughts outside any branch */
+export const MAIN_LINE = 'main';
+
+export type ThoughtEdgeType = 'sequence' | 'branch' | 'revision';
+
+export interface ThoughtNode {
+  /** Position in the session's thought log; thought numbers can repeat across lines */
+  id: number;
+  thoughtNumber: number;
+  totalThoughts: number;
+  thought: string;
+  /** branchId, or MAIN_LINE */
+  line: string;
+  isRevision: boolean;
+  /** Node ID of the thought this one revises */
+  revises?: number;
+  /** Node IDs of thoughts revising this one */
+  revisedBy: number[];
+  /** On the current line of reasoning */
+  current: boolean;
+  timestamp: Date;
+}
+
+export interface ThoughtEdge {
+  from: number;
+  to: number;
+  type: ThoughtEdgeType;
+}
+
+export interface ThoughtBranch {
+  branchId: string;
+  /** Node the branch diverged from, if its source could be found */
+  fromNode?: number;
+  nodes: number[];
+  status: BranchStatus;
+  conclusion?: string;
+  reason?: string;
+}
+
+export interface ThoughtGraph {
+  sessionId: string;
+  nodes: ThoughtNode[];
+  edges: ThoughtEdge[];
+  branches: ThoughtBranch[];
+  /** Node IDs of the current line of reasoning, in order */
+  currentLine: number[];
+}
+
+/**
+ * Latest node before `before` with this thought number, preferring the given
+ * line. References that match nothing (recorded in warn mode) resolve to
+ * undefined.
+ */
+function resolveReference(
+  nodes: ThoughtNode[],
+  thoughtNumber: number,
+  before: number,
+  preferredLine: string
+): ThoughtNode | undefined {
+  let fallback: ThoughtNode | undefined;
+  for (let i = before - 1; i >= 0; i--) {
+    const node = nodes[i];
+    if (node.thoughtNumber !== thoughtNumber) continue;
+    if (node.line === preferredLine) return node;
+    fallback ??= node;
+  }
+  return fallback;
+}
+
+export function buildThoughtGraph(
+  sessionId: string,
+  thoughts: ThoughtRecord[],
+  resolutions: Record<string, BranchResolution> = {}
+): ThoughtGraph {
+  const nodes: ThoughtNode[] = [];
+  const edges: ThoughtEdge[] = [];
+  const branches = new Map<string, ThoughtBranch>();
+  const lastOnLine = new Map<string, ThoughtNode>();
+  // Node each node continues from: its predecessor on the line, or a branch's source
+  const parent = new Map<number, number>();
+
+  for (const [id, record] of thoughts.entries()) {
+    const line = record.branchId ?? MAIN_LINE;
+    const node: ThoughtNode = {
+      id,
+      thoughtNumber: record.thoughtNumber,
+      totalThoughts: record.totalThoughts,
+      thought: record.thought,
+      line,
+      isRevision: record.isRevision ?? false,
+      revisedBy: [],
+      current: false,
+      timestamp: record.timestamp,
+    };
+    nodes.push(node);
+
+    const previous = lastOnLine.get(line);
+    if (previous) {
+      edges.push({ from: previous.id, to: id, type: 'sequence' });
+      parent.set(id, previous.id);
+    } else if (record.branchId) {
+      const source = record.branchFromThought !== undefined
+        ? resolveReference(nodes, record.branchFromThought, id, MAIN_LINE)
+        : undefined;
+      if (source) {
+        edges.push({ from: source.id, to: id, type: 'branch' });
+        parent.set(id, source.id);
+      }
+      const resolution = resolutions[record.branchId];
+      branches.set(record.branchId, {
+        branchId: record.branchId,
+        fromNode: source?.id,
+        nodes: [],
+        status: resolution?.status ?? 'open',
+        ...(resolution?.conclusion !== undefined && { conclusion: resolution.conclusion }),
+        ...(resolution?.reason !== undefined && { reason: resolution.reason }),
+      });
+    }
+    if (record.branchId) {
+      branches.get(record.branchId)?.nodes.push(id);
+    }
+    lastOnLine.set(line, node);
+
+    if (record.revisesThought !== undefined) {
+      const target = resolveReference(nodes, record.revisesThought, id, line);
+      if (target) {
+        edges.push({ from: target.id, to: id, type: 'revision' });
+        node.revises = target.id;
+        target.revisedBy.push(id);
+      }
+    }
+  }
+
+  // Walk back from the latest thought not on an abandoned branch, then drop
+  // what was revised on the way
+  let end = nodes.length - 1;
+  while (end >= 0 && branches.get(nodes[end].line)?.status === 'abandoned') {
+    end--;
+  }
+  const path: number[] = [];
+  for (let id: number | undefined = end; id !== undefined && id >= 0; id = parent.get(id)) {
+    path.unshift(id);
+  }
+  const revised = new Set(path.map(id => nodes[id].revises).filter((id): id is number => id !== undefined));
+  const currentLine = path.filter(id => !revised.has(id));
+  for (const id of currentLine) {
+    nodes[id].current = true;
+  }
+
+  return { sessionId, nodes, edges, branches: [...branches.values()], currentLine };
+}
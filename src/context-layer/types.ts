@@ -8,32 +8,114 @@ export interface ThoughtRecord {
   thoughtNumber: number;
   totalThoughts: number;
   branchId?: string;
+  branchFromThought?: number;
   isRevision?: boolean;
   revisesThought?: number;
+  /** Task named in the thought's taskContext */
+  taskId?: string;
   timestamp: Date;
 }
 
+export type TaskStatus = 'pending' | 'in_progress' | 'completed';
+
 export interface TaskCommit {
   sessionId: string;
   taskId: string;
   taskTitle: string;
   description?: string;
   completedAtThought: number;
-  status: 'pending' | 'in_progress' | 'completed';
+  status: TaskStatus;
   createdAt: Date;
   completedAt?: Date;
+  /** Task this one is a subtask of */
+  parentTaskId?: string;
+  /** Tasks that must be completed before this one can start */
+  blockedBy?: string[];
+  /** Status changes, oldest first; absent on tasks written before it was kept */
+  history?: TaskTransition[];
+  /** Latest thought number when the task was created; 0 before any thought */
+  createdAtThought?: number;
+  /** Thought numbers whose taskContext named this task, ascending */
+  thoughtRefs?: number[];
+}
+
+export interface TaskTransition {
+  /** Status before the change; absent on the entry for the task's creation */
+  from?: TaskStatus;
+  status: TaskStatus;
+  at: Date;
+  /** Latest thought number when the change happened; 0 before any thought */
+  atThought: number;
 }
 
 export interface Session {
   id: string;
   createdAt: Date;
   updatedAt: Date;
-  status: 'active' | 'completed';
+  // 'finalized' is set by the doc-worker once documentation is queued
+  status: 'active' | 'completed' | 'finalized';
   thoughtCount: number;
   taskCount: number;
+  // Set by finalize_thinking_session, or by the doc-worker when it
+  // finalizes an idle session
+  outcome?: SessionOutcome;
+  agentSummary?: string;
+  autoFinalized?: boolean;
+  // Set when retention dropped the thoughts and tasks, keeping documentation
+  prunedAt?: Date;
+  // Merged or abandoned branches, by branchId; branches not listed are open
+  branchResolutions?: Record<string, BranchResolution>;
+  // Lineage: the session this one was forked from, and forks made from it
+  forkedFrom?: ForkReference;
+  forks?: ForkReference[];
+  // Set when the session was started from a template
+  template?: SessionTemplateReference;
   metadata?: Record<string, unknown>;
 }
 
+/** Sections of generated documentation, in their default order */
+export type DocumentationSection = 'summary' | 'tasks' | 'task-reasoning' | 'branches' | 'thoughts' | 'alternatives';
+
+export interface DocumentationLayout {
+  /** Top-level heading (default: Thinking Session Documentation) */
+  title?: string;
+  /** Sections to include, in order (default: all, in the default order) */
+  sections?: DocumentationSection[];
+}
+
+/**
+ * The template a session was started from, as it stood at the time
+ */
+export interface SessionTemplateReference {
+  name: string;
+  /** Suggested totalThoughts for the first thought */
+  totalThoughts?: number;
+  documentation?: DocumentationLayout;
+}
+
+export type SessionOutcome = 'completed' | 'abandoned' | 'deferred';
+
+export type BranchStatus = 'open' | 'merged' | 'abandoned';
+
+export interface BranchResolution {
+  status: Exclude<BranchStatus, 'open'>;
+  /** What the branch established, for merged branches */
+  conclusion?: string;
+  /** Why it was dropped, for abandoned branches */
+  reason?: string;
+  /** Latest thought number in the session when the branch was resolved */
+  atThought: number;
+  resolvedAt: Date;
+}
+
+export interface ForkReference {
+  /** The other session: the source for forkedFrom, the fork for forks */
+  sessionId: string;
+  /** Last source thought number copied into the fork */
+  atThought: number;
+  createdAt: Date;
+}
+
 export interface SessionContext {
   session: Session;
   thoughts: ThoughtRecord[];
@@ -79,6 +161,7 @@ export interface ExtendedThoughtOutput {
   branches: string[];
   thoughtHistoryLength: number;
   // Layer 2 additions
+  branchStatus: Record<string, BranchStatus>;
   sessionId: string;
   persistedContext: boolean;
 }
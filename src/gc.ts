@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+/**
+ * DevPattern - Garbage Collection CLI
+ * Applies a retention policy to the configured storage backend
+ *
+ * Usage: devpattern-gc [--dry-run] [--policy=path] [dataPath]
+ * The policy defaults to $RETENTION_POLICY_FILE, dataPath to $DATA_PATH or ./data
+ */
+
+import { loadStorage } from './context-layer/storage/factory.js';
+import { loadCipherFromEnv } from './context-layer/storage/encryption.js';
+import { collectGarbage, loadRetentionPolicy } from './context-layer/retention.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const policyArg = args.find(arg => arg.startsWith('--policy='));
+  const policyPath = policyArg ? policyArg.slice('--policy='.length) : process.env.RETENTION_POLICY_FILE;
+  const dataPath = args.find(arg => !arg.startsWith('--')) || process.env.DATA_PATH || './data';
+
+  if (!policyPath) {
+    console.error('No retention policy: pass --policy=path or set RETENTION_POLICY_FILE');
+    process.exit(1);
+  }
+
+  const policy = await loadRetentionPolicy(policyPath);
+  const storage = await loadStorage(process.env.STORAGE_BACKEND || 'file', {
+    dataPath,
+    cipher: await loadCipherFromEnv(),
+  });
+  const report = await collectGarbage(storage, policy, { dryRun });
+
+  const deleted = report.actions.filter(a => a.action === 'delete').length;
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    `${dryRun ? '[dry run] ' : ''}${report.sessionsScanned} sessions scanned: ` +
+    `${deleted} ${dryRun ? 'to delete' : 'deleted'}, ` +
+    `${report.actions.length - deleted} ${dryRun ? 'to prune' : 'pruned'}, ${report.errors.length} errors`
+  );
+
+  if (report.errors.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error running garbage collection:", error);
+  process.exit(1);
+});
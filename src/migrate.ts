@@ -0,0 +1,34 @@
+#!/usr/bin/env node
+
+/**
+ * DevPattern - Data Migration CLI
+ * Upgrades a data directory to the current on-disk format
+ *
+ * Usage: devpattern-migrate [--dry-run] [dataPath]
+ * dataPath defaults to $DATA_PATH or ./data
+ */
+
+import { migrateDataDirectory } from './context-layer/storage/migrations.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const dataPath = args.find(arg => !arg.startsWith('--')) || process.env.DATA_PATH || './data';
+
+  const report = await migrateDataDirectory(dataPath, { dryRun });
+
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    `${dryRun ? '[dry run] ' : ''}${report.sessionsMigrated}/${report.sessionsScanned} sessions ` +
+    `${dryRun ? 'need migration' : 'migrated'} to format v${report.targetVersion}, ${report.errors.length} errors`
+  );
+
+  if (report.errors.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error running migration:", error);
+  process.exit(1);
+});
@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+
+/**
+ * DevPattern - Task Repair CLI
+ * Merges duplicate task records and recomputes session counters
+ *
+ * Usage: devpattern-repair-tasks [--dry-run] [dataPath]
+ * dataPath defaults to $DATA_PATH or ./data
+ */
+
+import { loadStorage } from './context-layer/storage/factory.js';
+import { loadCipherFromEnv } from './context-layer/storage/encryption.js';
+import { repairTasks } from './context-layer/task-repair.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const dataPath = args.find(arg => !arg.startsWith('--')) || process.env.DATA_PATH || './data';
+
+  const storage = await loadStorage(process.env.STORAGE_BACKEND || 'file', {
+    dataPath,
+    cipher: await loadCipherFromEnv(),
+  });
+  const report = await repairTasks(storage, { dryRun });
+
+  const duplicates = report.repaired.reduce((sum, r) => sum + r.duplicatesRemoved, 0);
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    `${dryRun ? '[dry run] ' : ''}${report.sessionsScanned} sessions scanned: ` +
+    `${report.repaired.length} ${dryRun ? 'to repair' : 'repaired'}, ` +
+    `${duplicates} duplicate tasks ${dryRun ? 'to merge' : 'merged'}, ${report.errors.length} errors`
+  );
+
+  if (report.errors.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error repairing tasks:", error);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+/**
+ * DevPattern - Encryption Key Rotation CLI
+ * Re-encrypts a data directory with the current key from ENCRYPTION_KEY or
+ * ENCRYPTION_KEY_FILE, reading older records with ENCRYPTION_PREVIOUS_KEYS
+ *
+ * Usage: devpattern-rotate-key [--dry-run] [--decrypt] [dataPath]
+ *        devpattern-rotate-key --generate-key
+ * dataPath defaults to $DATA_PATH or ./data
+ */
+
+import { loadCipherFromEnv, generateKey } from './context-layer/storage/encryption.js';
+import { rotateEncryptionKey } from './context-layer/storage/key-rotation.js';
+
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--generate-key')) {
+    console.log(generateKey());
+    return;
+  }
+
+  const dryRun = args.includes('--dry-run');
+  const decrypt = args.includes('--decrypt');
+  const dataPath = args.find(arg => !arg.startsWith('--')) || process.env.DATA_PATH || './data';
+
+  const cipher = await loadCipherFromEnv();
+  if (!cipher) {
+    console.error('ENCRYPTION_KEY or ENCRYPTION_KEY_FILE must be set');
+    process.exit(1);
+  }
+
+  const report = await rotateEncryptionKey(dataPath, cipher, { dryRun, decrypt });
+
+  console.log(JSON.stringify(report, null, 2));
+  console.error(
+    `${dryRun ? '[dry run] ' : ''}${report.sessionsRewritten}/${report.sessionsScanned} sessions ` +
+    `${dryRun ? 'need rewriting' : 'rewritten'} ` +
+    `${decrypt ? 'as plaintext' : `with key ${report.keyId}`}, ${report.errors.length} errors`
+  );
+
+  if (report.errors.length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Fatal error rotating encryption key:", error);
+  process.exit(1);
+});
@@ -4,17 +4,200 @@
  */
 
 import chalk from 'chalk';
-import type { ThoughtData, ThoughtResult } from './types.js';
+import type {
+  ThoughtData,
+  ThoughtResult,
+  ThoughtOutput,
+  ReferenceIssue,
+  ReferenceValidationMode,
+} from './types.js';
+
+/** Session key for callers that do not track sessions */
+export const DEFAULT_SESSION = '';
+
+export interface SequentialThinkingOptions {
+  /** Sessions kept in memory; the least recently used is evicted beyond this (default: 100) */
+  maxSessions?: number;
+  /** How to treat revisions and branches that do not match the history (default: warn) */
+  referenceValidation?: ReferenceValidationMode;
+}
+
+export const REFERENCE_VALIDATION_MODES: readonly ReferenceValidationMode[] = ['strict', 'warn'];
+
+/**
+ * Parse a validation mode from configuration, e.g. THOUGHT_VALIDATION
+ */
+export function parseReferenceValidationMode(value: string | undefined): ReferenceValidationMode {
+  if (value === undefined || value === '') return 'warn';
+  if (!REFERENCE_VALIDATION_MODES.includes(value as ReferenceValidationMode)) {
+    throw new Error(`Invalid thought validation mode: ${value} (expected ${REFERENCE_VALIDATION_MODES.join(' or ')})`);
+  }
+  return value as ReferenceValidationMode;
+}
+
+interface ThinkingState {
+  thoughtHistory: ThoughtData[];
+  branches: Record<string, ThoughtData[]>;
+  /** Revision of the persisted session this state was last synced with */
+  revision?: string;
+}
 
 export class SequentialThinkingServer {
-  private thoughtHistory: ThoughtData[] = [];
-  private branches: Record<string, ThoughtData[]> = {};
+  // Per-session state, in least to most recently used order
+  private sessions = new Map<string, ThinkingState>();
+  private maxSessions: number;
+  private referenceValidation: ReferenceValidationMode;
   private disableThoughtLogging: boolean;
 
-  constructor() {
+  constructor(options: SequentialThinkingOptions = {}) {
+    this.maxSessions = options.maxSessions ?? 100;
+    this.referenceValidation = options.referenceValidation ?? 'warn';
     this.disableThoughtLogging = (process.env.DISABLE_THOUGHT_LOGGING || "").toLowerCase() === "true";
   }
 
+  /**
+   * State for a session, created on first use
+   */
+  private getState(sessionId: string): ThinkingState {
+    let state = this.sessions.get(sessionId);
+    if (state) {
+      this.sessions.delete(sessionId);
+    } else {
+      state = { thoughtHistory: [], branches: {} };
+    }
+    this.sessions.set(sessionId, state);
+
+    while (this.sessions.size > this.maxSessions) {
+      this.sessions.delete(this.sessions.keys().next().value!);
+    }
+    return state;
+  }
+
+  private record(state: ThinkingState, thought: ThoughtData): void {
+    state.thoughtHistory.push(thought);
+
+    if (thought.branchFromThought && thought.branchId) {
+      if (!state.branches[thought.branchId]) {
+        state.branches[thought.branchId] = [];
+      }
+      state.branches[thought.branchId].push(thought);
+    }
+  }
+
+  /**
+   * Check a thought's revision and branch references against the history
+   */
+  private findReferenceIssues(state: ThinkingState | undefined, input: ThoughtData): ReferenceIssue[] {
+    const issues: ReferenceIssue[] = [];
+    const history = state?.thoughtHistory ?? [];
+    const exists = (thoughtNumber: number) => history.some(t => t.thoughtNumber === thoughtNumber);
+
+    if (input.isRevision && input.revisesThought === undefined) {
+      issues.push({ code: 'REVISION_TARGET_MISSING', message: 'isRevision is set but revisesThought is not' });
+    }
+    if (input.revisesThought !== undefined) {
+      if (!input.isRevision) {
+        issues.push({ code: 'REVISION_FLAG_MISSING', message: 'revisesThought is set but isRevision is not' });
+      }
+      if (!exists(input.revisesThought)) {
+        issues.push({
+          code: 'REVISION_TARGET_NOT_FOUND',
+          message: `revisesThought ${input.revisesThought} is not in this session's history`,
+        });
+      }
+    }
+
+    if (input.branchFromThought !== undefined) {
+      if (!input.branchId) {
+        issues.push({ code: 'BRANCH_ID_MISSING', message: 'branchFromThought is set but branchId is not' });
+      }
+      if (!exists(input.branchFromThought)) {
+        issues.push({
+          code: 'BRANCH_SOURCE_NOT_FOUND',
+          message: `branchFromThought ${input.branchFromThought} is not in this session's history`,
+        });
+      }
+    } else if (input.branchId && !state?.branches[input.branchId]) {
+      // Continuing a branch only needs its ID; starting one needs a source
+      issues.push({
+        code: 'BRANCH_NOT_FOUND',
+        message: `branch ${input.branchId} does not exist; set branchFromThought to start it`,
+      });
+    }
+
+    return issues;
+  }
+
+  private rejection(issues: ReferenceIssue[]): ThoughtResult {
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          error: 'Invalid thought references',
+          status: 'failed',
+          issues,
+        }, null, 2)
+      }],
+      isError: true
+    };
+  }
+
+  /**
+   * The error processThought would return for a thought in strict mode, or
+   * null if it would be accepted. Records nothing; without a sessionId the
+   * thought is checked as the first of a new session.
+   */
+  public checkThought(input: ThoughtData, sessionId?: string): ThoughtResult | null {
+    if (this.referenceValidation !== 'strict') return null;
+    const state = sessionId === undefined ? undefined : this.sessions.get(sessionId);
+    const issues = this.findReferenceIssues(state, input);
+    return issues.length > 0 ? this.rejection(issues) : null;
+  }
+
+  /**
+   * Whether a session's state is in memory
+   */
+  public hasSession(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Whether a session's state is in memory and in sync with this revision
+   * of the persisted session
+   */
+  public isCurrent(sessionId: string, revision: string): boolean {
+    return this.sessions.get(sessionId)?.revision === revision;
+  }
+
+  /**
+   * Rebuild a session's state from its earlier thoughts, e.g. persisted
+   * ones after a restart. Replaces any state already held.
+   */
+  public restoreSession(sessionId: string, thoughts: ThoughtData[], revision?: string): void {
+    this.sessions.delete(sessionId);
+    const state = this.getState(sessionId);
+    state.revision = revision;
+    for (const thought of thoughts) {
+      this.record(state, thought);
+    }
+  }
+
+  /**
+   * Record the persisted revision a session's state now matches, after
+   * this process wrote to the session itself
+   */
+  public setRevision(sessionId: string, revision: string): void {
+    const state = this.sessions.get(sessionId);
+    if (state) state.revision = revision;
+  }
+
+  /**
+   * Drop a session's state
+   */
+  public evictSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
   private formatThought(thoughtData: ThoughtData): string {
     const { thoughtNumber, totalThoughts, thought, isRevision, revisesThought, branchFromThought, branchId } = thoughtData;
 
@@ -43,28 +226,34 @@ export class SequentialThinkingServer {
 └${border}┘`;
   }
 
-  public getThoughtHistory(): ThoughtData[] {
-    return [...this.thoughtHistory];
+  public getThoughtHistory(sessionId = DEFAULT_SESSION): ThoughtData[] {
+    return [...(this.sessions.get(sessionId)?.thoughtHistory ?? [])];
   }
 
-  public getBranches(): Record<string, ThoughtData[]> {
-    return { ...this.branches };
+  public getBranches(sessionId = DEFAULT_SESSION): Record<string, ThoughtData[]> {
+    return { ...(this.sessions.get(sessionId)?.branches ?? {}) };
   }
 
-  public processThought(input: ThoughtData): ThoughtResult {
+  /**
+   * Process a thought in a session. A named session's state is evicted once
+   * a thought says no more are needed; the default session keeps its history.
+   */
+  public processThought(input: ThoughtData, sessionId = DEFAULT_SESSION): ThoughtResult {
     try {
       // Adjust totalThoughts if thoughtNumber exceeds it
       if (input.thoughtNumber > input.totalThoughts) {
         input.totalThoughts = input.thoughtNumber;
       }
 
-      this.thoughtHistory.push(input);
+      const state = this.getState(sessionId);
+      const issues = this.findReferenceIssues(state, input);
+      if (issues.length > 0 && this.referenceValidation === 'strict') {
+        return this.rejection(issues);
+      }
+      this.record(state, input);
 
-      if (input.branchFromThought && input.branchId) {
-        if (!this.branches[input.branchId]) {
-          this.branches[input.branchId] = [];
-        }
-        this.branches[input.branchId].push(input);
+      if (!input.nextThoughtNeeded && sessionId !== DEFAULT_SESSION) {
+        this.evictSession(sessionId);
       }
 
       if (!this.disableThoughtLogging) {
@@ -72,16 +261,21 @@ export class SequentialThinkingServer {
         console.error(formattedThought);
       }
 
+      const output: ThoughtOutput = {
+        thoughtNumber: input.thoughtNumber,
+        totalThoughts: input.totalThoughts,
+        nextThoughtNeeded: input.nextThoughtNeeded,
+        branches: Object.keys(state.branches),
+        thoughtHistoryLength: state.thoughtHistory.length
+      };
+      if (issues.length > 0) {
+        output.warnings = issues;
+      }
+
       return {
         content: [{
           type: "text" as const,
-          text: JSON.stringify({
-            thoughtNumber: input.thoughtNumber,
-            totalThoughts: input.totalThoughts,
-            nextThoughtNeeded: input.nextThoughtNeeded,
-            branches: Object.keys(this.branches),
-            thoughtHistoryLength: this.thoughtHistory.length
-          }, null, 2)
+          text: JSON.stringify(output, null, 2)
         }]
       };
     } catch (error) {
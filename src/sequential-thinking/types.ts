@@ -14,6 +14,26 @@ export interface ThoughtData {
   nextThoughtNeeded: boolean;
 }
 
+/**
+ * How processThought treats revisions and branches that do not match the
+ * session's history. strict: reject the thought; warn: record it and add
+ * warnings to the result.
+ */
+export type ReferenceValidationMode = 'strict' | 'warn';
+
+export type ReferenceIssueCode =
+  | 'REVISION_TARGET_MISSING'
+  | 'REVISION_TARGET_NOT_FOUND'
+  | 'REVISION_FLAG_MISSING'
+  | 'BRANCH_ID_MISSING'
+  | 'BRANCH_SOURCE_NOT_FOUND'
+  | 'BRANCH_NOT_FOUND';
+
+export interface ReferenceIssue {
+  code: ReferenceIssueCode;
+  message: string;
+}
+
 export interface ThoughtResult {
   content: Array<{ type: "text"; text: string }>;
   isError?: boolean;
@@ -25,5 +45,7 @@ export interface ThoughtOutput {
   nextThoughtNeeded: boolean;
   branches: string[];
   thoughtHistoryLength: number;
+  /** Reference problems, in warn mode */
+  warnings?: ReferenceIssue[];
 }
 
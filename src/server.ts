@@ -0,0 +1,780 @@
+/**
+ * DevPattern - MCP Server construction
+ * Tool registration shared by the STDIO and HTTP transports, and the HTTP
+ * server that hosts one MCP server per client session
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { z } from "zod";
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, ServerResponse, type Server } from 'node:http';
+import { SequentialThinkingServer } from './sequential-thinking/lib.js';
+import { ContextLayer, branchStatuses, loadTemplate, loadTemplates, summarizeTemplate, type Storage } from './context-layer/index.js';
+import { sessionIdSchema, taskIdSchema } from './context-layer/ids.js';
+import type { SessionQuery } from './context-layer/session-query.js';
+import type { ExtendedThoughtInput, Session, SessionOutcome, TaskStatus, ThoughtRecord } from './context-layer/types.js';
+import type { ThoughtData, ReferenceValidationMode } from './sequential-thinking/types.js';
+
+export const SERVER_VERSION = "0.2.0";
+
+export interface ServerDependencies {
+  dataPath: string;
+  /** Shared by every MCP server instance in the process */
+  storage: Storage;
+  /** How sequentialthinking treats bad revision and branch references (default: warn) */
+  thoughtValidation?: ReferenceValidationMode;
+  /** Directory of session template files; without it there are no templates */
+  templatesPath?: string;
+}
+
+// Tool description for sequential thinking
+const TOOL_DESCRIPTION = `A detailed tool for dynamic and reflective problem-solving through thoughts.
+This tool helps analyze problems through a flexible thinking process that can adapt and evolve.
+Each thought can build on, question, or revise previous insights as understanding deepens.
+
+EXTENDED FEATURES:
+- Automatic context persistence across sessions
+- Task tracking and commits
+- Auto-generated documentation on completion
+
+When to use this tool:
+- Breaking down complex problems into steps
+- Planning and design with room for revision
+- Analysis that might need course correction
+- Problems where the full scope might not be clear initially
+- Tasks that need to maintain context over multiple steps
+
+Key features:
+- Adjust total_thoughts up or down as you progress
+- Question or revise previous thoughts
+- Add more thoughts even after reaching what seemed like the end
+- Branch into alternative reasoning paths
+- Automatically persist context for future reference
+- Commit tasks as they are completed`;
+
+// Input schema for sequentialthinking
+const THOUGHT_SCHEMA = {
+  thought: z.string().describe("Your current thinking step"),
+  nextThoughtNeeded: z.boolean().describe("Whether another thought step is needed"),
+  thoughtNumber: z.number().int().min(1).describe("Current thought number"),
+  totalThoughts: z.number().int().min(1).describe("Estimated total thoughts needed"),
+  isRevision: z.boolean().optional().describe("Whether this revises previous thinking"),
+  revisesThought: z.number().int().min(1).optional().describe("Which thought is being reconsidered"),
+  branchFromThought: z.number().int().min(1).optional().describe("Branching point thought number"),
+  branchId: z.string().optional().describe("Branch identifier"),
+  needsMoreThoughts: z.boolean().optional().describe("If more thoughts are needed"),
+  // Layer 2 extensions
+  sessionId: sessionIdSchema.optional().describe("Session ID for context persistence"),
+  taskContext: z.object({
+    taskId: taskIdSchema.optional(),
+    taskTitle: z.string().optional(),
+    description: z.string().optional(),
+    commitTask: z.boolean().optional(),
+  }).optional().describe("Task tracking context"),
+};
+
+// Input schema for list_thinking_sessions
+const LIST_SESSIONS_SCHEMA = {
+  status: z.enum(['active', 'completed', 'finalized']).optional().describe("Only sessions with this status"),
+  createdAfter: z.string().optional().describe("ISO 8601 date; only sessions created at or after it"),
+  createdBefore: z.string().optional().describe("ISO 8601 date; only sessions created at or before it"),
+  updatedAfter: z.string().optional().describe("ISO 8601 date; only sessions updated at or after it"),
+  updatedBefore: z.string().optional().describe("ISO 8601 date; only sessions updated at or before it"),
+  tag: z.string().optional().describe("Only sessions whose metadata.tags contains this tag"),
+  metadata: z.record(z.unknown()).optional().describe("Only sessions whose metadata has these key/value pairs"),
+  forkTree: sessionIdSchema.optional().describe("Only sessions in the fork tree containing this session; the response includes the tree"),
+  sortBy: z.enum(['createdAt', 'updatedAt']).optional().describe("Sort field (default: updatedAt)"),
+  order: z.enum(['asc', 'desc']).optional().describe("Sort order (default: desc)"),
+  limit: z.number().int().min(1).max(100).optional().describe("Page size (default: 20)"),
+  cursor: z.string().optional().describe("nextCursor from the previous page"),
+};
+
+type ListSessionsArgs = {
+  [K in keyof typeof LIST_SESSIONS_SCHEMA]: z.infer<typeof LIST_SESSIONS_SCHEMA[K]>;
+};
+
+function parseDateArg(name: string, value?: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return date;
+}
+
+// Tool arguments -> SessionQuery, with defaults that keep listings small
+function toSessionQuery(args: ListSessionsArgs): SessionQuery {
+  return {
+    status: args.status,
+    createdAfter: parseDateArg('createdAfter', args.createdAfter),
+    createdBefore: parseDateArg('createdBefore', args.createdBefore),
+    updatedAfter: parseDateArg('updatedAfter', args.updatedAfter),
+    updatedBefore: parseDateArg('updatedBefore', args.updatedBefore),
+    tag: args.tag,
+    metadata: args.metadata,
+    forkTree: args.forkTree,
+    sortBy: args.sortBy || 'updatedAt',
+    order: args.order || 'desc',
+    limit: args.limit || 20,
+    cursor: args.cursor,
+  };
+}
+
+// Persisted thought -> Layer 1 input. Records do not keep nextThoughtNeeded,
+// but every earlier thought in a continuing session was followed by another.
+function toThoughtData(record: ThoughtRecord): ThoughtData {
+  return {
+    thought: record.thought,
+    thoughtNumber: record.thoughtNumber,
+    totalThoughts: record.totalThoughts,
+    nextThoughtNeeded: true,
+    isRevision: record.isRevision,
+    revisesThought: record.revisesThought,
+    branchFromThought: record.branchFromThought,
+    branchId: record.branchId,
+  };
+}
+
+/**
+ * Changes whenever the persisted session does: each thought bumps
+ * thoughtCount, and every other write bumps updatedAt
+ */
+function sessionRevision(session: Session): string {
+  return `${session.thoughtCount}@${session.updatedAt.getTime()}`;
+}
+
+function jsonResult(value: unknown) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify(value, null, 2)
+    }]
+  };
+}
+
+function errorResult(error: unknown) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({ error: String(error) }, null, 2)
+    }],
+    isError: true
+  };
+}
+
+/**
+ * Create an MCP server with every DevPattern tool registered. Each instance
+ * has its own thinking state; storage is shared.
+ */
+export function createMcpServer(deps: ServerDependencies): McpServer {
+  const server = new McpServer({
+    name: "devpattern",
+    version: SERVER_VERSION,
+  });
+
+  const thinkingServer = new SequentialThinkingServer({ referenceValidation: deps.thoughtValidation });
+  const contextLayer = new ContextLayer({ dataPath: deps.dataPath, storage: deps.storage });
+
+  // Rebuild a session's Layer 1 state from its persisted thoughts
+  const restoreThinkingState = async (sessionId: string, session?: Session | null) => {
+    session ??= await contextLayer.getSession(sessionId);
+    const persisted = await contextLayer.getThoughts(sessionId);
+    thinkingServer.restoreSession(sessionId, persisted.map(toThoughtData), session ? sessionRevision(session) : undefined);
+  };
+
+  // Register the extended sequential thinking tool
+  server.tool(
+    "sequentialthinking",
+    TOOL_DESCRIPTION,
+    THOUGHT_SCHEMA,
+    async (args: ExtendedThoughtInput) => {
+      const input: ThoughtData = {
+        thought: args.thought,
+        thoughtNumber: args.thoughtNumber,
+        totalThoughts: args.totalThoughts,
+        nextThoughtNeeded: args.nextThoughtNeeded,
+        isRevision: args.isRevision,
+        revisesThought: args.revisesThought,
+        branchFromThought: args.branchFromThought,
+        branchId: args.branchId,
+        needsMoreThoughts: args.needsMoreThoughts,
+      };
+
+      // Layer 2: Find the session. Layer 1 state is kept per session.
+      const existing = args.sessionId !== undefined ? await contextLayer.getSession(args.sessionId) : null;
+      const known = existing !== null;
+      if (existing && !thinkingServer.isCurrent(existing.id, sessionRevision(existing))) {
+        // New to this process (e.g. after a restart), or written to by
+        // another server since: rebuild from persisted thoughts
+        await restoreThinkingState(existing.id, existing);
+      }
+
+      // Layer 1: Reject bad references before a session is created for them
+      const rejection = thinkingServer.checkThought(input, known ? args.sessionId : undefined);
+      if (rejection) {
+        return { content: rejection.content, isError: true };
+      }
+      const sessionId = known ? args.sessionId! : await contextLayer.createSession();
+
+      // Layer 1: Core sequential thinking
+      const result = thinkingServer.processThought(input, sessionId);
+
+      if (result.isError) {
+        return { content: result.content, isError: true };
+      }
+
+      // Layer 2: Persist thought
+      const thoughtRecord: ThoughtRecord = {
+        sessionId,
+        thought: args.thought,
+        thoughtNumber: args.thoughtNumber,
+        totalThoughts: args.totalThoughts,
+        branchId: args.branchId,
+        branchFromThought: args.branchFromThought,
+        isRevision: args.isRevision,
+        revisesThought: args.revisesThought,
+        taskId: args.taskContext?.taskId,
+        timestamp: new Date(),
+      };
+      await contextLayer.persistThought(thoughtRecord);
+
+      // Layer 2: Task management
+      if (contextLayer.shouldCommitTask(args.taskContext)) {
+        await contextLayer.commitTask({
+          sessionId,
+          taskId: args.taskContext?.taskId,
+          taskTitle: args.taskContext?.taskTitle,
+          description: args.taskContext?.description,
+          completedAtThought: args.thoughtNumber,
+        });
+      } else if (args.taskContext?.taskId !== undefined) {
+        await contextLayer.referenceTask({
+          sessionId,
+          taskId: args.taskContext.taskId,
+          taskTitle: args.taskContext.taskTitle,
+          description: args.taskContext.description,
+          thoughtNumber: args.thoughtNumber,
+        });
+      }
+
+      // Layer 2: Auto-documentation on completion
+      if (!args.nextThoughtNeeded) {
+        await contextLayer.generateDocumentation(sessionId);
+      }
+
+      const parsedContent = JSON.parse(result.content[0].text);
+      const stored = await contextLayer.getSession(sessionId);
+      if (stored) {
+        // Our own writes leave the Layer 1 state in sync
+        thinkingServer.setRevision(sessionId, sessionRevision(stored));
+      }
+      const resolutions = stored?.branchResolutions ?? {};
+
+      return jsonResult({
+        ...parsedContent,
+        branchStatus: branchStatuses(parsedContent.branches, resolutions),
+        sessionId,
+        persistedContext: true,
+      });
+    }
+  );
+
+  // Additional Layer 2 tools
+
+  // Get thinking context tool
+  server.tool(
+    "get_thinking_context",
+    "Retrieve persisted thinking context for a session including all thoughts and tasks",
+    {
+      sessionId: sessionIdSchema.describe("Session ID to retrieve"),
+    },
+    async (args: { sessionId: string }) => {
+      try {
+        return jsonResult(await contextLayer.getContext(args.sessionId));
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Session lifecycle tools
+  server.tool(
+    "start_thinking_session",
+    "Start a new thinking session with metadata, before the first thought. Pass the returned sessionId to sequentialthinking",
+    {
+      metadata: z.record(z.unknown()).optional().describe("Free-form session metadata, e.g. project or goal"),
+      tags: z.array(z.string()).optional().describe("Tags, stored as metadata.tags"),
+    },
+    async (args: { metadata?: Record<string, unknown>; tags?: string[] }) => {
+      try {
+        const metadata = args.tags ? { ...args.metadata, tags: args.tags } : args.metadata;
+        const sessionId = await contextLayer.createSession(metadata);
+        return jsonResult((await contextLayer.getContext(sessionId)).session);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "list_session_templates",
+    "List the templates available to start_thinking_session_from_template",
+    {},
+    async () => {
+      try {
+        const templates = deps.templatesPath ? await loadTemplates(deps.templatesPath) : [];
+        return jsonResult({ templates: templates.map(summarizeTemplate) });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "start_thinking_session_from_template",
+    "Start a new session from a template: metadata defaults, seeded pending tasks and a documentation layout. Use the session's template.totalThoughts as the first thought's totalThoughts",
+    {
+      template: z.string().describe("Template name, from list_session_templates"),
+      metadata: z.record(z.unknown()).optional().describe("Metadata, merged over the template's defaults"),
+      tags: z.array(z.string()).optional().describe("Tags, added to the template's tags"),
+    },
+    async (args: { template: string; metadata?: Record<string, unknown>; tags?: string[] }) => {
+      try {
+        if (!deps.templatesPath) {
+          throw new Error(`Template not found: ${args.template}`);
+        }
+        const template = await loadTemplate(deps.templatesPath, args.template);
+        const sessionId = await contextLayer.startSessionFromTemplate(template, { metadata: args.metadata, tags: args.tags });
+        const { session, tasks } = await contextLayer.getContext(sessionId);
+        return jsonResult({ session, tasks });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "finalize_thinking_session",
+    "Finish a session with an explicit outcome and a summary in your own words. Generates documentation and marks the session completed",
+    {
+      sessionId: sessionIdSchema.describe("Session to finalize"),
+      outcome: z.enum(['completed', 'abandoned', 'deferred']).describe("How the session ended"),
+      agentSummary: z.string().optional().describe("What was attempted and where it landed"),
+    },
+    async (args: { sessionId: string; outcome: SessionOutcome; agentSummary?: string }) => {
+      try {
+        const session = await contextLayer.finalizeSession(args.sessionId, {
+          outcome: args.outcome,
+          agentSummary: args.agentSummary,
+        });
+        thinkingServer.evictSession(args.sessionId);
+        return jsonResult(session);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Task tools
+  server.tool(
+    "create_task",
+    "Plan a task in a session. Tasks start pending; move them through in_progress to completed with update_task",
+    {
+      sessionId: sessionIdSchema.describe("Session the task belongs to"),
+      taskTitle: z.string().min(1).describe("Short task title"),
+      description: z.string().optional().describe("Task details"),
+      taskId: taskIdSchema.optional().describe("Task ID (generated if omitted)"),
+      status: z.enum(['pending', 'in_progress']).optional().describe("Initial status (default: pending)"),
+      parentTaskId: taskIdSchema.optional().describe("Make this a subtask of another task"),
+      blockedBy: z.array(taskIdSchema).optional().describe("Tasks that must be completed first"),
+    },
+    async (args: {
+      sessionId: string;
+      taskTitle: string;
+      description?: string;
+      taskId?: string;
+      status?: 'pending' | 'in_progress';
+      parentTaskId?: string;
+      blockedBy?: string[];
+    }) => {
+      try {
+        return jsonResult(await contextLayer.createTask(args));
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "update_task",
+    "Change a task's status, title, description, parent task or blockers. Subtask and dependency cycles are rejected",
+    {
+      sessionId: sessionIdSchema.describe("Session the task belongs to"),
+      taskId: taskIdSchema.describe("Task to update"),
+      status: z.enum(['pending', 'in_progress', 'completed']).optional().describe("New status"),
+      taskTitle: z.string().min(1).optional().describe("New title"),
+      description: z.string().optional().describe("New description"),
+      parentTaskId: taskIdSchema.nullable().optional().describe("New parent task; null makes it top-level"),
+      blockedBy: z.array(taskIdSchema).optional().describe("Replaces the tasks this one is blocked by"),
+      atThought: z.number().int().min(0).optional().describe("Thought number the status change happened at (default: the latest thought)"),
+    },
+    async (args: {
+      sessionId: string;
+      taskId: string;
+      status?: TaskStatus;
+      taskTitle?: string;
+      description?: string;
+      parentTaskId?: string | null;
+      blockedBy?: string[];
+      atThought?: number;
+    }) => {
+      try {
+        const { sessionId, taskId, ...changes } = args;
+        return jsonResult(await contextLayer.updateTask(sessionId, taskId, changes));
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "list_tasks",
+    "List a session's tasks. Each is marked actionable when it is not completed, nothing it is blocked by is open, and it has no open subtasks",
+    {
+      sessionId: sessionIdSchema.describe("Session ID"),
+      status: z.enum(['pending', 'in_progress', 'completed']).optional().describe("Only tasks with this status"),
+      actionable: z.boolean().optional().describe("Only tasks that are (true) or are not (false) actionable now"),
+    },
+    async (args: { sessionId: string; status?: TaskStatus; actionable?: boolean }) => {
+      try {
+        return jsonResult({
+          tasks: await contextLayer.listTasks(args.sessionId, { status: args.status, actionable: args.actionable }),
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "get_task",
+    "Get one task",
+    {
+      sessionId: sessionIdSchema.describe("Session ID"),
+      taskId: taskIdSchema.describe("Task ID"),
+    },
+    async (args: { sessionId: string; taskId: string }) => {
+      try {
+        return jsonResult(await contextLayer.getTask(args.sessionId, args.taskId));
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "get_task_thoughts",
+    "Get the thoughts that went into a task: the one that created it, every one that named it in taskContext, and the one that completed it",
+    {
+      sessionId: sessionIdSchema.describe("Session ID"),
+      taskId: taskIdSchema.describe("Task ID"),
+    },
+    async (args: { sessionId: string; taskId: string }) => {
+      try {
+        return jsonResult(await contextLayer.getTaskThoughts(args.sessionId, args.taskId));
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "get_thought_tasks",
+    "Get the tasks a thought touched, each with its roles: created, referenced or completed",
+    {
+      sessionId: sessionIdSchema.describe("Session ID"),
+      thoughtNumber: z.number().int().min(1).describe("Thought number"),
+    },
+    async (args: { sessionId: string; thoughtNumber: number }) => {
+      try {
+        return jsonResult({ tasks: await contextLayer.getThoughtTasks(args.sessionId, args.thoughtNumber) });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Resume session tool
+  server.tool(
+    "resume_thinking_session",
+    "Reopen a session to continue thinking in it. Returns a briefing: recent thoughts, open tasks, unresolved branches, the latest documentation summary and the next thoughtNumber to use",
+    {
+      sessionId: sessionIdSchema.describe("Session ID to resume"),
+      recentThoughts: z.number().int().min(0).max(100).optional().describe("Number of latest thoughts to include (default 5)"),
+    },
+    async (args: { sessionId: string; recentThoughts?: number }) => {
+      try {
+        const briefing = await contextLayer.resumeSession(args.sessionId, { recentThoughts: args.recentThoughts });
+        await restoreThinkingState(args.sessionId);
+        return jsonResult(briefing);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Fork session tool
+  server.tool(
+    "fork_thinking_session",
+    "Fork a session at a thought: the new session starts with thoughts 1..atThought of the source and its tasks as of that point, leaving the source untouched",
+    {
+      sessionId: sessionIdSchema.describe("Session to fork"),
+      atThought: z.number().int().min(1).describe("Last thought number to copy"),
+    },
+    async (args: { sessionId: string; atThought: number }) => {
+      try {
+        const forkId = await contextLayer.forkSession(args.sessionId, args.atThought);
+        const briefing = await contextLayer.resumeSession(forkId);
+        await restoreThinkingState(forkId);
+        return jsonResult({ ...briefing, forkedFrom: { sessionId: args.sessionId, atThought: args.atThought } });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Thought graph tool
+  server.tool(
+    "get_thought_graph",
+    "Get a session's thoughts as a graph: nodes, sequence/branch/revision edges, branches, and the current line of reasoning",
+    {
+      sessionId: sessionIdSchema.describe("Session ID"),
+    },
+    async (args: { sessionId: string }) => {
+      try {
+        return jsonResult(await contextLayer.getThoughtGraph(args.sessionId));
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Branch lifecycle tools
+  server.tool(
+    "merge_thought_branch",
+    "Merge a branch back into the main line, recording the conclusion it reached",
+    {
+      sessionId: sessionIdSchema.describe("Session ID"),
+      branchId: z.string().min(1).describe("Branch to merge"),
+      conclusion: z.string().min(1).describe("What the branch established"),
+    },
+    async (args: { sessionId: string; branchId: string; conclusion: string }) => {
+      try {
+        const resolution = await contextLayer.mergeBranch(args.sessionId, args.branchId, args.conclusion);
+        return jsonResult({ sessionId: args.sessionId, branchId: args.branchId, ...resolution });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  server.tool(
+    "abandon_thought_branch",
+    "Abandon a branch as a dead end, recording why",
+    {
+      sessionId: sessionIdSchema.describe("Session ID"),
+      branchId: z.string().min(1).describe("Branch to abandon"),
+      reason: z.string().min(1).describe("Why the branch was dropped"),
+    },
+    async (args: { sessionId: string; branchId: string; reason: string }) => {
+      try {
+        const resolution = await contextLayer.abandonBranch(args.sessionId, args.branchId, args.reason);
+        return jsonResult({ sessionId: args.sessionId, branchId: args.branchId, ...resolution });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // List sessions tool
+  server.tool(
+    "list_thinking_sessions",
+    "List thinking sessions with their status and statistics. Supports filtering by status, date range, tag and metadata, and cursor pagination",
+    LIST_SESSIONS_SCHEMA,
+    async (args: ListSessionsArgs) => {
+      try {
+        return jsonResult(await contextLayer.querySessions(toSessionQuery(args)));
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  return server;
+}
+
+// Parse JSON body from raw request
+async function parseJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk.toString(); });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch (e) {
+        reject(e);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Check if request body contains an initialize request
+function isInitializeRequest(body: unknown): boolean {
+  if (Array.isArray(body)) {
+    return body.some(msg => msg?.method === 'initialize');
+  }
+  return (body as Record<string, unknown>)?.method === 'initialize';
+}
+
+export interface HttpServerHandle {
+  httpServer: Server;
+  /** Close every MCP session, then stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Create the HTTP server for the streamable HTTP transport. Each client
+ * session gets its own MCP server from createMcpServer. Not yet listening.
+ */
+export function createHttpServer(deps: ServerDependencies): HttpServerHandle {
+  // Track active sessions: sessionId -> { server, transport }
+  const sessions: Map<string, { server: McpServer; transport: StreamableHTTPServerTransport }> = new Map();
+
+  const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+
+    // Health check endpoint
+    if (url.pathname === '/health' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        status: 'ok',
+        transport: 'http',
+        version: SERVER_VERSION,
+        activeSessions: sessions.size
+      }));
+      return;
+    }
+
+    // MCP endpoint
+    if (url.pathname === '/mcp') {
+      try {
+        // Check for existing session
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+        if (sessionId && sessions.has(sessionId)) {
+          // Reuse existing session's transport
+          const session = sessions.get(sessionId)!;
+          await session.transport.handleRequest(req, res);
+          return;
+        }
+
+        if (req.method === 'POST') {
+          // Parse request body to check if it's an initialization request
+          const body = await parseJsonBody(req);
+
+          if (!sessionId && isInitializeRequest(body)) {
+            // New initialization request - create new server + transport pair
+            const mcpServer = createMcpServer(deps);
+            const transport = new StreamableHTTPServerTransport({
+              sessionIdGenerator: () => randomUUID(),
+              onsessioninitialized: (newSessionId) => {
+                sessions.set(newSessionId, { server: mcpServer, transport });
+                console.error(`[HTTP] New session initialized: ${newSessionId}`);
+              },
+            });
+
+            // Set up cleanup on close
+            transport.onclose = () => {
+              const sid = transport.sessionId;
+              if (sid && sessions.has(sid)) {
+                sessions.delete(sid);
+                console.error(`[HTTP] Session closed: ${sid}`);
+              }
+            };
+
+            // Connect the transport to the MCP server before handling request
+            await mcpServer.connect(transport);
+
+            // Handle the request with parsed body
+            await transport.handleRequest(req, res, body);
+            return;
+          }
+
+          // Non-initialization POST without valid session
+          if (!sessionId) {
+            res.writeHead(400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({
+              jsonrpc: '2.0',
+              error: { code: -32600, message: 'Bad Request: Session ID required for non-initialization requests' },
+              id: null
+            }));
+            return;
+          }
+        }
+
+        // Session not found (for GET, DELETE, or POST with unknown session)
+        if (sessionId && !sessions.has(sessionId)) {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            jsonrpc: '2.0',
+            error: { code: -32001, message: 'Session not found' },
+            id: null
+          }));
+          return;
+        }
+
+        // GET or DELETE without session
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          jsonrpc: '2.0',
+          error: { code: -32600, message: 'Bad Request: Session ID required' },
+          id: null
+        }));
+      } catch (error) {
+        console.error('[HTTP] Error handling request:', error);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            jsonrpc: '2.0',
+            error: { code: -32603, message: 'Internal server error' },
+            id: null
+          }));
+        }
+      }
+      return;
+    }
+
+    // 404 for unknown paths
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+  });
+
+  return {
+    httpServer,
+    async close() {
+      for (const [sessionId, session] of sessions) {
+        try {
+          await session.transport.close();
+          console.error(`[HTTP] Closed session: ${sessionId}`);
+        } catch (e) {
+          console.error(`[HTTP] Error closing session ${sessionId}:`, e);
+        }
+      }
+      sessions.clear();
+
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    },
+  };
+}
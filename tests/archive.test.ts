@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { gunzipSync } from 'zlib';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { ArchiveScheduler } from '../src/context-layer/storage/archive-scheduler.js';
+import { RecordCipher } from '../src/context-layer/storage/encryption.js';
+import { rotateEncryptionKey } from '../src/context-layer/storage/key-rotation.js';
+import { DocumentationGenerator } from '../src/context-layer/documentation.js';
+import { Storage as DocWorkerStorage } from '../doc-worker/src/storage.js';
+import type { Session, ThoughtRecord, TaskCommit } from '../src/context-layer/types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function makeSession(id: string, status: Session['status'], hoursAgo = 2): Session {
+  const updatedAt = new Date(Date.now() - hoursAgo * HOUR);
+  return { id, createdAt: updatedAt, updatedAt, status, thoughtCount: 1, taskCount: 1 };
+}
+
+function makeThought(sessionId: string, thoughtNumber: number): ThoughtRecord {
+  return { sessionId, thought: `Thought ${thoughtNumber}`, thoughtNumber, totalThoughts: 5, timestamp: new Date() };
+}
+
+function makeTask(sessionId: string): TaskCommit {
+  return { sessionId, taskId: 't1', taskTitle: 'Task', completedAtThought: 1, status: 'completed', createdAt: new Date() };
+}
+
+describe('FileStorage archival', () => {
+  let dataPath: string;
+  let storage: FileStorage;
+  const sessionDir = (id: string) => join(dataPath, 'sessions', id);
+
+  async function seed(session: Session, target = storage): Promise<void> {
+    await target.createSession(session);
+    await target.saveThought(makeThought(session.id, 1));
+    await target.saveTask(makeTask(session.id));
+    await target.saveDocumentation({
+      sessionId: session.id, generatedAt: new Date(), summary: 'Summary',
+      thoughtCount: 1, taskCount: 1, branches: [], content: '# Doc',
+    });
+  }
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-archive-'));
+    storage = new FileStorage(dataPath);
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should pack completed and finalized sessions into one archive', async () => {
+    await seed(makeSession('done', 'completed'));
+    await seed(makeSession('final', 'finalized'));
+    await seed(makeSession('open', 'active'));
+
+    const report = await storage.archiveSessions();
+
+    expect(report.archived.map(a => a.sessionId).sort()).toEqual(['done', 'final']);
+    expect(report.sessionsScanned).toBe(3);
+    expect(report.errors).toEqual([]);
+    expect(await readdir(sessionDir('done'))).toEqual(['archive.json.gz']);
+    expect(await readdir(sessionDir('open'))).toContain('session.json');
+
+    const archive = JSON.parse(gunzipSync(await readFile(join(sessionDir('done'), 'archive.json.gz'))).toString());
+    expect(Object.keys(archive.files).sort()).toEqual(['documentation.json', 'session.json', 'tasks.jsonl', 'thoughts.jsonl']);
+  });
+
+  it('should read archived sessions transparently', async () => {
+    await seed(makeSession('done', 'completed'));
+    await storage.archiveSessions();
+
+    expect((await storage.getSession('done'))?.status).toBe('completed');
+    expect((await storage.getThoughts('done')).map(t => t.thoughtNumber)).toEqual([1]);
+    expect((await storage.getTasks('done')).map(t => t.taskId)).toEqual(['t1']);
+    expect((await storage.getDocumentation('done'))?.content).toBe('# Doc');
+    expect((await storage.listSessions()).map(s => s.id)).toEqual(['done']);
+
+    await storage.rebuildSessionIndex();
+    expect((await storage.listSessions()).map(s => s.id)).toEqual(['done']);
+  });
+
+  it('should unpack a session when it is written to again', async () => {
+    await seed(makeSession('done', 'completed'));
+    await storage.archiveSessions();
+
+    await storage.saveThought(makeThought('done', 2));
+    await storage.updateSession({ ...makeSession('done', 'active', 0), thoughtCount: 2 });
+
+    const files = await readdir(sessionDir('done'));
+    expect(files).not.toContain('archive.json.gz');
+    expect(files).toContain('documentation.json');
+    expect((await storage.getThoughts('done')).map(t => t.thoughtNumber)).toEqual([1, 2]);
+    expect((await storage.archiveSessions()).sessionsArchived).toBe(0);
+  });
+
+  it('should wait for the archiver before unpacking a session to document it', async () => {
+    const docWorker = new DocWorkerStorage(dataPath);
+    const writers = [
+      () => new DocumentationGenerator(storage).generate('done'),
+      () => docWorker.saveDocumentation({
+        sessionId: 'done', generatedAt: new Date(), summary: 'Worker', thoughtCount: 1, taskCount: 1, branches: [], content: '# Worker',
+      }),
+    ];
+    await seed(makeSession('done', 'completed'));
+
+    for (const write of writers) {
+      await storage.archiveSessions();
+      let writing: Promise<unknown> = Promise.resolve();
+      // Hold the lock the way archiveSessions does while it packs
+      await storage.withSessionLock('done', async () => {
+        writing = write();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(await readdir(sessionDir('done'))).toContain('archive.json.gz');
+        expect(await readdir(sessionDir('done'))).not.toContain('session.json');
+      });
+      await writing;
+
+      expect(await readdir(sessionDir('done'))).not.toContain('archive.json.gz');
+      expect(await storage.getThoughts('done')).toHaveLength(1);
+      expect(await storage.getTasks('done')).toHaveLength(1);
+    }
+    expect((await storage.getDocumentation('done'))?.summary).toBe('Worker');
+  });
+
+  it('should respect dry runs and the idle threshold', async () => {
+    await seed(makeSession('old', 'completed', 3));
+    await seed(makeSession('recent', 'completed', 0));
+
+    const dryRun = await storage.archiveSessions({ dryRun: true, minIdleMs: HOUR });
+    expect(dryRun.archived.map(a => a.sessionId)).toEqual(['old']);
+    expect(dryRun.archived[0].bytesAfter).toBeLessThan(dryRun.archived[0].bytesBefore);
+    expect(await readdir(sessionDir('old'))).toContain('session.json');
+
+    const report = await storage.archiveSessions({ minIdleMs: HOUR });
+    expect(report.archived.map(a => a.sessionId)).toEqual(['old']);
+    expect((await storage.archiveSessions({ minIdleMs: HOUR })).sessionsArchived).toBe(0);
+  });
+
+  it('should finish an interrupted archive run', async () => {
+    await seed(makeSession('done', 'completed'));
+    const thoughts = await readFile(join(sessionDir('done'), 'thoughts.jsonl'), 'utf-8');
+    await storage.archiveSessions();
+    // Crash after writing the archive but before removing every loose file
+    await writeFile(join(sessionDir('done'), 'thoughts.jsonl'), thoughts, 'utf-8');
+
+    expect(await storage.getThoughts('done')).toHaveLength(1);
+
+    const report = await storage.archiveSessions();
+    expect(report.sessionsArchived).toBe(1);
+    expect(await readdir(sessionDir('done'))).toEqual(['archive.json.gz']);
+    expect((await storage.getSession('done'))?.id).toBe('done');
+  });
+
+  it('should keep encrypted sessions encrypted and rotate them', async () => {
+    const oldKey = randomBytes(32);
+    const newKey = randomBytes(32);
+    const encrypted = new FileStorage(dataPath, { cipher: new RecordCipher(oldKey) });
+    await seed(makeSession('done', 'completed'), encrypted);
+    await encrypted.archiveSessions();
+
+    const raw = gunzipSync(await readFile(join(sessionDir('done'), 'archive.json.gz'))).toString();
+    expect(raw).not.toContain('Thought 1');
+
+    const dryRun = await rotateEncryptionKey(dataPath, new RecordCipher(newKey, [oldKey]), { dryRun: true });
+    expect(dryRun.files.map(f => f.file).sort()).toEqual(['documentation.json', 'session.json', 'tasks.jsonl', 'thoughts.jsonl']);
+    expect(await readdir(sessionDir('done'))).toContain('archive.json.gz');
+
+    await rotateEncryptionKey(dataPath, new RecordCipher(newKey, [oldKey]));
+    const rotated = new FileStorage(dataPath, { cipher: new RecordCipher(newKey) });
+    expect((await rotated.getThoughts('done'))[0].thought).toBe('Thought 1');
+    expect((await rotated.getDocumentation('done'))?.content).toBe('# Doc');
+  });
+
+  it('should archive on a schedule', async () => {
+    await seed(makeSession('done', 'completed'));
+    const scheduler = new ArchiveScheduler(storage, { intervalMs: HOUR, minIdleMs: 0 });
+
+    const report = await scheduler.runOnce();
+
+    expect(report?.sessionsArchived).toBe(1);
+  });
+});
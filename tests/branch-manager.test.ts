@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryStorage } from '../src/context-layer/storage/memory-storage.js';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { ContextStore } from '../src/context-layer/context-store.js';
+import { BranchManager, branchStatuses } from '../src/context-layer/branch-manager.js';
+import type { Storage } from '../src/context-layer/storage/storage.js';
+
+async function sessionWithBranches(storage: Storage): Promise<string> {
+  const store = new ContextStore(storage);
+  const sessionId = await store.createSession();
+  const base = { sessionId, totalThoughts: 4, timestamp: new Date() };
+  await store.saveThought({ ...base, thought: 'Start', thoughtNumber: 1 });
+  await store.saveThought({ ...base, thought: 'Cache it', thoughtNumber: 2, branchFromThought: 1, branchId: 'cache' });
+  await store.saveThought({ ...base, thought: 'Precompute it', thoughtNumber: 2, branchFromThought: 1, branchId: 'precompute' });
+  await store.saveThought({ ...base, thought: 'Go with the cache', thoughtNumber: 3 });
+  return sessionId;
+}
+
+describe('BranchManager', () => {
+  let storage: MemoryStorage;
+  let branches: BranchManager;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    branches = new BranchManager(storage);
+    sessionId = await sessionWithBranches(storage);
+  });
+
+  it('should merge a branch with its conclusion', async () => {
+    const resolution = await branches.mergeBranch(sessionId, 'cache', 'An LRU cache is enough');
+
+    expect(resolution).toMatchObject({ status: 'merged', conclusion: 'An LRU cache is enough', atThought: 3 });
+    expect((await storage.getSession(sessionId))?.branchResolutions?.cache).toEqual(resolution);
+  });
+
+  it('should abandon a branch with its reason', async () => {
+    await branches.abandonBranch(sessionId, 'precompute', 'Inputs are unbounded');
+
+    const session = await storage.getSession(sessionId);
+    expect(session?.branchResolutions?.precompute).toMatchObject({ status: 'abandoned', reason: 'Inputs are unbounded' });
+    expect(branchStatuses(['cache', 'precompute'], session?.branchResolutions)).toEqual({
+      cache: 'open',
+      precompute: 'abandoned',
+    });
+  });
+
+  it('should refuse to resolve a branch twice', async () => {
+    await branches.mergeBranch(sessionId, 'cache', 'Done');
+
+    await expect(branches.abandonBranch(sessionId, 'cache', 'Changed my mind'))
+      .rejects.toThrow('Branch cache is already merged');
+  });
+
+  it('should reject unknown branches and sessions', async () => {
+    await expect(branches.mergeBranch(sessionId, 'missing', 'X')).rejects.toThrow('Branch not found: missing');
+    await expect(branches.mergeBranch('session_none', 'cache', 'X')).rejects.toThrow('Session not found');
+  });
+
+  it('should keep resolutions across memory snapshots', async () => {
+    await branches.mergeBranch(sessionId, 'cache', 'Done');
+
+    const restored = new MemoryStorage();
+    restored.restore(storage.snapshot());
+
+    const resolution = (await restored.getSession(sessionId))?.branchResolutions?.cache;
+    expect(resolution?.resolvedAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('BranchManager with file storage', () => {
+  let dataPath: string;
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-branches-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should persist resolutions', async () => {
+    const sessionId = await sessionWithBranches(new FileStorage(dataPath));
+    await new BranchManager(new FileStorage(dataPath)).abandonBranch(sessionId, 'precompute', 'Too slow');
+
+    const session = await new FileStorage(dataPath).getSession(sessionId);
+    expect(session?.branchResolutions?.precompute).toMatchObject({ status: 'abandoned', reason: 'Too slow', atThought: 3 });
+    expect(session?.branchResolutions?.precompute.resolvedAt).toBeInstanceOf(Date);
+  });
+});
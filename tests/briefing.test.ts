@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ContextLayer } from '../src/context-layer/index.js';
+import { MemoryStorage } from '../src/context-layer/storage/memory-storage.js';
+
+describe('resumeSession', () => {
+  let storage: MemoryStorage;
+  let layer: ContextLayer;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    storage = new MemoryStorage();
+    layer = new ContextLayer({ dataPath: '', storage });
+    sessionId = await layer.createSession({ topic: 'caching' });
+    const base = { sessionId, totalThoughts: 4, timestamp: new Date() };
+    for (let n = 1; n <= 3; n++) {
+      await layer.persistThought({ ...base, thought: `Thought ${n}`, thoughtNumber: n });
+    }
+    await layer.persistThought({ ...base, thought: 'Try a CDN', thoughtNumber: 3, branchFromThought: 2, branchId: 'cdn' });
+    await layer.persistThought({ ...base, thought: 'Try sharding', thoughtNumber: 3, branchFromThought: 2, branchId: 'shard' });
+    await layer.abandonBranch(sessionId, 'shard', 'Not enough data');
+    await layer.persistThought({ ...base, thought: 'Wrap up', thoughtNumber: 4 });
+    await layer.commitTask({ sessionId, taskId: 'done', taskTitle: 'Done', completedAtThought: 4 });
+  });
+
+  it('should reopen a completed session', async () => {
+    await layer.generateDocumentation(sessionId);
+
+    const briefing = await layer.resumeSession(sessionId);
+
+    expect(briefing.previousStatus).toBe('completed');
+    expect((await layer.getContext(sessionId)).session.status).toBe('active');
+    expect(briefing.documentationSummary).toContain('6 thoughts');
+  });
+
+  it('should drop the previous outcome so the session can end differently', async () => {
+    await layer.finalizeSession(sessionId, { outcome: 'abandoned', agentSummary: 'Gave up on caching' });
+
+    await layer.resumeSession(sessionId);
+    const { session } = await layer.getContext(sessionId);
+    expect(session.outcome).toBeUndefined();
+    expect(session.agentSummary).toBeUndefined();
+
+    await layer.persistThought({ sessionId, thought: 'CDN works after all', thoughtNumber: 5, totalThoughts: 5, timestamp: new Date() });
+    await layer.generateDocumentation(sessionId);
+    const doc = await storage.getDocumentation(sessionId);
+    expect(doc?.content).toContain('## Summary');
+    expect(doc?.content).not.toContain('Outcome: abandoned');
+    expect(doc?.content).not.toContain('Gave up on caching');
+  });
+
+  it('should condense the session', async () => {
+    const briefing = await layer.resumeSession(sessionId, { recentThoughts: 2 });
+
+    expect(briefing.metadata).toEqual({ topic: 'caching' });
+    expect(briefing.thoughtCount).toBe(6);
+    expect(briefing.recentThoughts.map(t => t.thought)).toEqual(['Try sharding', 'Wrap up']);
+    expect(briefing.openBranches).toEqual([{ branchId: 'cdn', fromThought: 2, thoughtCount: 1, lastThought: 3 }]);
+    expect(briefing.openTasks).toEqual([]);
+    expect(briefing.documentationSummary).toBeUndefined();
+    expect(briefing.nextThoughtNumber).toBe(5);
+    expect(briefing.totalThoughts).toBe(5);
+  });
+
+  it('should start an empty session at thought 1', async () => {
+    const empty = await layer.createSession();
+
+    const briefing = await layer.resumeSession(empty);
+
+    expect(briefing.recentThoughts).toEqual([]);
+    expect(briefing.nextThoughtNumber).toBe(1);
+  });
+
+  it('should refuse pruned sessions', async () => {
+    const session = await storage.getSession(sessionId);
+    await storage.updateSession({ ...session!, prunedAt: new Date() });
+
+    await expect(layer.resumeSession(sessionId)).rejects.toThrow('was pruned');
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryStorage } from '../src/context-layer/storage/memory-storage.js';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import {
+  exportBundle,
+  importBundle,
+  readBundleFile,
+  writeBundleFile,
+} from '../src/context-layer/bundle.js';
+import type { Session } from '../src/context-layer/types.js';
+import type { Storage } from '../src/context-layer/storage/storage.js';
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+function makeSession(id: string, overrides: Partial<Session> = {}): Session {
+  return { id, createdAt: now, updatedAt: now, status: 'finalized', thoughtCount: 1, taskCount: 1, ...overrides };
+}
+
+async function seed(storage: Storage, session: Session, thought = 'T'): Promise<void> {
+  await storage.createSession(session);
+  await storage.saveThought({ sessionId: session.id, thought, thoughtNumber: 1, totalThoughts: 1, timestamp: now });
+  await storage.saveTask({
+    sessionId: session.id, taskId: 'task_1', taskTitle: 'Do it',
+    completedAtThought: 1, status: 'pending', createdAt: now,
+  });
+  await storage.saveDocumentation({
+    sessionId: session.id, generatedAt: now, summary: 'S',
+    thoughtCount: 1, taskCount: 1, branches: [], content: '# Doc',
+  });
+}
+
+/** Round-trip through JSON, as a bundle file would */
+async function exportAsFile(storage: Storage, ...args: Parameters<typeof exportBundle> extends [unknown, ...infer R] ? R : never) {
+  return JSON.parse(JSON.stringify(await exportBundle(storage, ...args)));
+}
+
+describe('session bundles', () => {
+  let source: MemoryStorage;
+  let target: MemoryStorage;
+
+  beforeEach(async () => {
+    source = new MemoryStorage();
+    target = new MemoryStorage();
+    await seed(source, makeSession('a', { metadata: { tags: ['keep'] } }));
+    await seed(source, makeSession('b', { status: 'active' }));
+  });
+
+  it('should export and import every session', async () => {
+    const report = await importBundle(target, await exportAsFile(source));
+
+    expect(report.imported.sort()).toEqual(['a', 'b']);
+    expect(await target.getSession('a')).toEqual(await source.getSession('a'));
+    expect(await target.getThoughts('a')).toEqual(await source.getThoughts('a'));
+    expect(await target.getTasks('a')).toEqual(await source.getTasks('a'));
+    expect(await target.getDocumentation('a')).toEqual(await source.getDocumentation('a'));
+  });
+
+  it('should export selected or filtered sessions', async () => {
+    expect((await exportBundle(source, { sessionIds: ['b'] })).sessions.map(s => s.session.id)).toEqual(['b']);
+    expect((await exportBundle(source, { query: { tag: 'keep' } })).sessions.map(s => s.session.id)).toEqual(['a']);
+    await expect(exportBundle(source, { sessionIds: ['missing'] })).rejects.toThrow('Session not found: missing');
+  });
+
+  it('should skip, overwrite or re-ID conflicting sessions', async () => {
+    const bundle = await exportAsFile(source, { sessionIds: ['a'] });
+    await seed(target, makeSession('a'), 'existing');
+
+    const skipped = await importBundle(target, bundle, { onConflict: 'skip' });
+    expect(skipped.skipped).toEqual(['a']);
+    expect((await target.getThoughts('a'))[0].thought).toBe('existing');
+
+    const reassigned = await importBundle(target, bundle, { onConflict: 'reid' });
+    const newId = reassigned.reassigned[0].to;
+    expect(newId).not.toBe('a');
+    expect((await target.getThoughts(newId))[0]).toMatchObject({ sessionId: newId, thought: 'T' });
+    expect((await target.getTasks(newId))[0].sessionId).toBe(newId);
+    expect((await target.getDocumentation(newId))?.sessionId).toBe(newId);
+    expect((await target.getThoughts('a'))[0].thought).toBe('existing');
+
+    const overwritten = await importBundle(target, bundle, { onConflict: 'overwrite' });
+    expect(overwritten.overwritten).toEqual(['a']);
+    expect(await target.getThoughts('a')).toHaveLength(1);
+    expect((await target.getThoughts('a'))[0].thought).toBe('T');
+  });
+
+  it('should change nothing on a dry run', async () => {
+    const report = await importBundle(target, await exportAsFile(source), { dryRun: true });
+    expect(report.imported).toHaveLength(2);
+    expect(await target.listSessions()).toEqual([]);
+  });
+
+  it('should report sessions whose checksum does not match', async () => {
+    const bundle = await exportAsFile(source);
+    bundle.sessions[0].thoughts[0].thought = 'tampered';
+
+    const report = await importBundle(target, bundle);
+    expect(report.errors).toEqual([{ sessionId: bundle.sessions[0].session.id, error: 'checksum mismatch' }]);
+    expect(report.imported).toEqual([bundle.sessions[1].session.id]);
+  });
+
+  it('should report sessions holding another session\'s records', async () => {
+    await seed(target, makeSession('b'), 'existing');
+    // A crafted export whose checksums are valid but whose entry for a
+    // carries a thought for b
+    const crafted: Storage = Object.create(source);
+    crafted.getThoughts = async id => (await source.getThoughts(id)).map(t => ({ ...t, sessionId: 'b' }));
+    const bundle = await exportAsFile(crafted, { sessionIds: ['a'] });
+
+    const report = await importBundle(target, bundle);
+    expect(report.errors).toEqual([{ sessionId: 'a', error: 'Record for session b in the entry for session a' }]);
+    expect(await target.getSession('a')).toBeNull();
+    expect((await target.getThoughts('b')).map(t => t.thought)).toEqual(['existing']);
+  });
+
+  it('should reject truncated, foreign and newer bundles', async () => {
+    const truncated = await exportAsFile(source);
+    truncated.sessions.pop();
+    await expect(importBundle(target, truncated)).rejects.toThrow('Bundle checksum mismatch');
+
+    await expect(importBundle(target, { sessions: [] })).rejects.toThrow('Not a DevPattern bundle');
+
+    const newer = await exportAsFile(source);
+    newer.version = 99;
+    await expect(importBundle(target, newer)).rejects.toThrow('newer than supported');
+  });
+
+  describe('files', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'devpattern-bundle-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should round-trip a gzip bundle into file storage', async () => {
+      const file = join(dir, 'backup.json.gz');
+      await writeBundleFile(file, await exportBundle(source));
+
+      const storage = new FileStorage(join(dir, 'data'));
+      const report = await importBundle(storage, await readBundleFile(file));
+
+      expect(report.errors).toEqual([]);
+      expect(await storage.getThoughts('b')).toEqual(await source.getThoughts('b'));
+      expect(await storage.getDocumentation('b')).toMatchObject(await source.getDocumentation('b') ?? {});
+    });
+  });
+});
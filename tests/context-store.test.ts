@@ -1,84 +1,23 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { ContextStore } from '../src/context-layer/context-store.js';
-import type { Storage } from '../src/context-layer/storage/storage.js';
-import type { Session, ThoughtRecord, TaskCommit, DocumentationEntry } from '../src/context-layer/types.js';
-
-// Mock storage implementation matching actual Storage interface
-class MockStorage implements Storage {
-  private sessions: Map<string, Session> = new Map();
-  private thoughts: Map<string, ThoughtRecord[]> = new Map();
-  private tasks: Map<string, TaskCommit[]> = new Map();
-  private docs: Map<string, DocumentationEntry> = new Map();
-
-  async createSession(session: Session): Promise<void> {
-    this.sessions.set(session.id, session);
-  }
-
-  async getSession(sessionId: string): Promise<Session | null> {
-    return this.sessions.get(sessionId) || null;
-  }
-
-  async updateSession(session: Session): Promise<void> {
-    this.sessions.set(session.id, session);
-  }
-
-  async listSessions(): Promise<Session[]> {
-    return Array.from(this.sessions.values());
-  }
-
-  async deleteSession(sessionId: string): Promise<void> {
-    this.sessions.delete(sessionId);
-  }
-
-  async saveThought(thought: ThoughtRecord): Promise<void> {
-    const existing = this.thoughts.get(thought.sessionId) || [];
-    existing.push(thought);
-    this.thoughts.set(thought.sessionId, existing);
-  }
-
-  async getThoughts(sessionId: string): Promise<ThoughtRecord[]> {
-    return this.thoughts.get(sessionId) || [];
-  }
-
-  async saveTask(task: TaskCommit): Promise<void> {
-    const existing = this.tasks.get(task.sessionId) || [];
-    existing.push(task);
-    this.tasks.set(task.sessionId, existing);
-  }
-
-  async getTask(sessionId: string, taskId: string): Promise<TaskCommit | null> {
-    const tasks = this.tasks.get(sessionId) || [];
-    return tasks.find(t => t.taskId === taskId) || null;
-  }
-
-  async getTasks(sessionId: string): Promise<TaskCommit[]> {
-    return this.tasks.get(sessionId) || [];
-  }
-
-  async updateTask(task: TaskCommit): Promise<void> {
-    const tasks = this.tasks.get(task.sessionId) || [];
-    const index = tasks.findIndex(t => t.taskId === task.taskId);
-    if (index >= 0) {
-      tasks[index] = task;
-    }
-  }
-
-  async saveDocumentation(doc: DocumentationEntry): Promise<void> {
-    this.docs.set(doc.sessionId, doc);
-  }
-
-  async getDocumentation(sessionId: string): Promise<DocumentationEntry | null> {
-    return this.docs.get(sessionId) || null;
-  }
-}
-
-describe('ContextStore', () => {
+import { TaskManager } from '../src/context-layer/task-manager.js';
+import { withSessionLock, type Storage } from '../src/context-layer/storage/storage.js';
+import type { ThoughtRecord } from '../src/context-layer/types.js';
+import { storageBackends, type TestBackend } from './fixtures/storage-backends.js';
+
+describe.each(storageBackends)('ContextStore (%s storage)', (_name, openBackend) => {
+  let backend: TestBackend;
   let store: ContextStore;
-  let mockStorage: MockStorage;
+  let storage: Storage;
+
+  beforeEach(async () => {
+    backend = await openBackend();
+    storage = backend.storage;
+    store = new ContextStore(storage);
+  });
 
-  beforeEach(() => {
-    mockStorage = new MockStorage();
-    store = new ContextStore(mockStorage);
+  afterEach(async () => {
+    await backend.close();
   });
 
   describe('createSession', () => {
@@ -99,7 +38,7 @@ describe('ContextStore', () => {
     it('should store session with metadata', async () => {
       const sessionId = await store.createSession({ topic: 'testing' });
 
-      const session = await mockStorage.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       expect(session).not.toBeNull();
       expect(session?.metadata).toEqual({ topic: 'testing' });
     });
@@ -120,7 +59,7 @@ describe('ContextStore', () => {
 
       await store.saveThought(thought);
 
-      const thoughts = await mockStorage.getThoughts(sessionId);
+      const thoughts = await storage.getThoughts(sessionId);
       expect(thoughts).toHaveLength(1);
       expect(thoughts[0].thought).toBe('Test thought content');
     });
@@ -137,11 +76,37 @@ describe('ContextStore', () => {
         timestamp: new Date(),
       });
 
-      const session = await mockStorage.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       expect(session?.thoughtCount).toBe(1);
     });
   });
 
+  it('should not lose counter updates from overlapping saves', async () => {
+    const sessionId = await store.createSession();
+
+    await Promise.all([1, 2, 3, 4].map(n => store.saveThought({
+      sessionId, thought: `Thought ${n}`, thoughtNumber: n, totalThoughts: 4, timestamp: new Date(),
+    })));
+
+    expect((await storage.getSession(sessionId))?.thoughtCount).toBe(4);
+  });
+
+  it('should not save a thought to a session deleted while it waited for the lock', async () => {
+    const sessionId = await store.createSession();
+
+    let pending!: Promise<void>;
+    await withSessionLock(storage, sessionId, async () => {
+      pending = store.saveThought({
+        sessionId, thought: 'Late', thoughtNumber: 1, totalThoughts: 1, timestamp: new Date(),
+      });
+      await storage.deleteSession(sessionId);
+    });
+
+    await expect(pending).rejects.toThrow(`Session not found: ${sessionId}`);
+    expect(await storage.getSession(sessionId)).toBeNull();
+    expect(await storage.getThoughts(sessionId)).toEqual([]);
+  });
+
   describe('sessionExists', () => {
     it('should return true for existing session', async () => {
       const sessionId = await store.createSession();
@@ -182,9 +147,84 @@ describe('ContextStore', () => {
       const sessionId = await store.createSession();
       await store.completeSession(sessionId);
 
-      const session = await mockStorage.getSession(sessionId);
+      const session = await storage.getSession(sessionId);
       expect(session?.status).toBe('completed');
     });
   });
+
+  describe('forkSession', () => {
+    let sourceId: string;
+
+    beforeEach(async () => {
+      sourceId = await store.createSession({ topic: 'caching' });
+      const at = (ms: number) => new Date(Date.UTC(2024, 0, 1, 0, 0, 0, ms));
+      const base = { sessionId: sourceId, totalThoughts: 4 };
+      await store.saveThought({ ...base, thought: 'One', thoughtNumber: 1, timestamp: at(10) });
+      await store.saveThought({ ...base, thought: 'Two', thoughtNumber: 2, timestamp: at(20) });
+      await store.saveThought({ ...base, thought: 'Alt', thoughtNumber: 2, branchFromThought: 1, branchId: 'alt', timestamp: at(30) });
+      await store.saveThought({ ...base, thought: 'Three', thoughtNumber: 3, timestamp: at(40) });
+      const task = { sessionId: sourceId, description: undefined };
+      await storage.saveTask({ ...task, taskId: 'early', taskTitle: 'Early', status: 'completed', completedAtThought: 2, createdAt: at(21), completedAt: at(21) });
+      await storage.saveTask({ ...task, taskId: 'planned', taskTitle: 'Planned', status: 'completed', completedAtThought: 3, createdAt: at(5), completedAt: at(41) });
+      await storage.saveTask({ ...task, taskId: 'late', taskTitle: 'Late', status: 'completed', completedAtThought: 3, createdAt: at(41), completedAt: at(41) });
+    });
+
+    it('should copy thoughts up to the fork point on every line', async () => {
+      const forkId = await store.forkSession(sourceId, 2);
+
+      const context = await store.getContext(forkId);
+      expect(context.thoughts.map(t => t.thought)).toEqual(['One', 'Two', 'Alt']);
+      expect(context.thoughts.every(t => t.sessionId === forkId)).toBe(true);
+      expect(context.session).toMatchObject({ status: 'active', thoughtCount: 3, taskCount: 2, metadata: { topic: 'caching' } });
+    });
+
+    it('should copy tasks as they stood at the fork point', async () => {
+      const forkId = await store.forkSession(sourceId, 2);
+
+      const tasks = await storage.getTasks(forkId);
+      expect(tasks.map(t => [t.taskId, t.status])).toEqual([['early', 'completed'], ['planned', 'pending']]);
+      expect(tasks[1].completedAt).toBeUndefined();
+    });
+
+    it('should rebuild status and history from transitions up to the fork point', async () => {
+      const manager = new TaskManager(storage);
+      await manager.createTask({ sessionId: sourceId, taskId: 'tracked', taskTitle: 'Tracked', atThought: 1 });
+      await manager.updateTask(sourceId, 'tracked', { status: 'in_progress', atThought: 2 });
+      await manager.updateTask(sourceId, 'tracked', { status: 'completed', atThought: 3 });
+      await manager.createTask({ sessionId: sourceId, taskId: 'after', taskTitle: 'After', atThought: 3 });
+
+      const forkId = await store.forkSession(sourceId, 2);
+
+      const tracked = await storage.getTask(forkId, 'tracked');
+      expect(tracked).toMatchObject({ status: 'in_progress', completedAtThought: 0 });
+      expect(tracked?.completedAt).toBeUndefined();
+      expect(tracked?.history?.map(h => [h.status, h.atThought])).toEqual([['pending', 1], ['in_progress', 2]]);
+      expect(await storage.getTask(forkId, 'after')).toBeNull();
+    });
+
+    it('should drop task references to thoughts after the fork point', async () => {
+      const planned = (await storage.getTask(sourceId, 'planned'))!;
+      await storage.updateTask({ ...planned, thoughtRefs: [1, 3] });
+
+      const forkId = await store.forkSession(sourceId, 2);
+
+      expect((await storage.getTask(forkId, 'planned'))?.thoughtRefs).toEqual([1]);
+    });
+
+    it('should record lineage on both sessions', async () => {
+      const forkId = await store.forkSession(sourceId, 2);
+
+      const fork = await storage.getSession(forkId);
+      const source = await storage.getSession(sourceId);
+      expect(fork?.forkedFrom).toMatchObject({ sessionId: sourceId, atThought: 2 });
+      expect(source?.forks).toEqual([expect.objectContaining({ sessionId: forkId, atThought: 2 })]);
+      expect((await storage.getThoughts(sourceId))).toHaveLength(4);
+    });
+
+    it('should reject thoughts the source does not have', async () => {
+      await expect(store.forkSession(sourceId, 9)).rejects.toThrow('Thought 9 not found');
+      await expect(store.forkSession('missing', 1)).rejects.toThrow('Session not found');
+    });
+  });
 });
 
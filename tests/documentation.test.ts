@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { DocumentationGenerator } from '../src/context-layer/documentation.js';
+import { getEventPublisher } from '../src/context-layer/event-publisher.js';
 import type { Storage } from '../src/context-layer/storage/storage.js';
 import type { Session, ThoughtRecord, TaskCommit, DocumentationEntry } from '../src/context-layer/types.js';
 
@@ -185,6 +186,86 @@ describe('DocumentationGenerator', () => {
       expect(doc.content).toContain('Revision');
     });
 
+    it('should order thoughts by the current line of reasoning', async () => {
+      const base = { sessionId: 'test-session', totalThoughts: 4, timestamp: new Date() };
+      mockStorage.setThoughts('test-session', [
+        { ...base, thought: 'Start', thoughtNumber: 1 },
+        { ...base, thought: 'Dead end', thoughtNumber: 2 },
+        { ...base, thought: 'Alternative', thoughtNumber: 2, branchFromThought: 1, branchId: 'alt' },
+        { ...base, thought: 'Better alternative', thoughtNumber: 3, branchId: 'alt', isRevision: true, revisesThought: 2 },
+      ]);
+
+      const doc = await generator.generate('test-session');
+      const [progression, alternatives] = doc.content.split('## Alternatives and Revised Thoughts');
+
+      expect(progression.indexOf('Start')).toBeLessThan(progression.indexOf('Better alternative'));
+      expect(progression).not.toContain('Dead end');
+      expect(progression).not.toContain('Alternative\n');
+      expect(alternatives).toContain('### Main line');
+      expect(alternatives).toContain('Dead end');
+      expect(alternatives).toContain('Revised by thought 3');
+    });
+
+    it('should leave an abandoned branch out of the thought progression', async () => {
+      const base = { sessionId: 'test-session', totalThoughts: 3, timestamp: new Date() };
+      mockStorage.setThoughts('test-session', [
+        { ...base, thought: 'Start', thoughtNumber: 1 },
+        { ...base, thought: 'Keep going', thoughtNumber: 2 },
+        { ...base, thought: 'Shard', thoughtNumber: 2, branchFromThought: 1, branchId: 'shard' },
+      ]);
+      const session = await mockStorage.getSession('test-session');
+      session!.branchResolutions = {
+        shard: { status: 'abandoned', reason: 'Not enough data', atThought: 2, resolvedAt: new Date() },
+      };
+
+      const doc = await generator.generate('test-session');
+      const [progression, alternatives] = doc.content.split('## Alternatives and Revised Thoughts');
+
+      expect(progression).toContain('Keep going');
+      expect(progression).not.toContain('Shard');
+      expect(alternatives).toContain('### 🌿 Branch: shard (from thought 1)');
+    });
+
+    it('should list how each branch ended', async () => {
+      const base = { sessionId: 'test-session', totalThoughts: 3, timestamp: new Date() };
+      mockStorage.setThoughts('test-session', [
+        { ...base, thought: 'Start', thoughtNumber: 1 },
+        { ...base, thought: 'Cache', thoughtNumber: 2, branchFromThought: 1, branchId: 'cache' },
+        { ...base, thought: 'Precompute', thoughtNumber: 2, branchFromThought: 1, branchId: 'precompute' },
+        { ...base, thought: 'Shard', thoughtNumber: 2, branchFromThought: 1, branchId: 'shard' },
+      ]);
+      const session = await mockStorage.getSession('test-session');
+      session!.branchResolutions = {
+        cache: { status: 'merged', conclusion: 'LRU is enough', atThought: 2, resolvedAt: new Date() },
+        precompute: { status: 'abandoned', reason: 'Inputs are unbounded', atThought: 2, resolvedAt: new Date() },
+      };
+
+      const doc = await generator.generate('test-session');
+
+      expect(doc.content).toContain('## Branches');
+      expect(doc.content).toContain('- ✅ cache: merged — LRU is enough');
+      expect(doc.content).toContain('- 🚫 precompute: abandoned — Inputs are unbounded');
+      expect(doc.content).toContain('- 🌿 shard: open');
+    });
+
+    it('should report the outcome and agent summary', async () => {
+      const session = await mockStorage.getSession('test-session');
+      session!.outcome = 'deferred';
+      session!.agentSummary = 'Blocked on the vendor API.';
+      const publish = vi.spyOn(getEventPublisher(), 'publish').mockResolvedValue();
+
+      const doc = await generator.generate('test-session');
+
+      expect(doc.summary).toMatch(/^Session deferred with/);
+      expect(doc.content).toContain('- Outcome: deferred');
+      expect(doc.content).toContain('Blocked on the vendor API.');
+      expect(publish).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'session.finalized',
+        payload: expect.objectContaining({ outcome: 'deferred', agentSummary: 'Blocked on the vendor API.' }),
+      }));
+      publish.mockRestore();
+    });
+
     it('should throw error for non-existent session', async () => {
       await expect(generator.generate('non-existent'))
         .rejects.toThrow('Session not found');
@@ -220,6 +301,65 @@ describe('DocumentationGenerator', () => {
       expect(doc.taskCount).toBe(1);
     });
 
+    it('should render tasks as a tree with rolled-up completion', async () => {
+      const base = { sessionId: 'test-session', completedAtThought: 0, createdAt: new Date() };
+      mockStorage.setTasks('test-session', [
+        { ...base, taskId: 'release', taskTitle: 'Release', status: 'pending' },
+        { ...base, taskId: 'api', taskTitle: 'Build API', status: 'completed', completedAtThought: 2, parentTaskId: 'release' },
+        { ...base, taskId: 'docs', taskTitle: 'Write docs', status: 'pending', parentTaskId: 'release', blockedBy: ['api'] },
+      ]);
+
+      const doc = await generator.generate('test-session');
+
+      expect(doc.content).toContain('Overall completion: 50%');
+      expect(doc.content).toContain('- ⏳ **Release** (50%)\n');
+      expect(doc.content).toContain('  - ✅ **Build API** (100%) — completed at thought 2\n');
+      expect(doc.content).toContain('  - ⏳ **Write docs** (0%) — blocked by: Build API\n');
+    });
+
+    it('should show the thoughts behind each completed task', async () => {
+      const base = { sessionId: 'test-session', totalThoughts: 3, timestamp: new Date() };
+      mockStorage.setThoughts('test-session', [
+        { ...base, thought: 'Sketch the endpoints', thoughtNumber: 1, taskId: 'api' },
+        { ...base, thought: 'Unrelated', thoughtNumber: 2 },
+        { ...base, thought: 'Routes are in', thoughtNumber: 3, taskId: 'api' },
+      ]);
+      mockStorage.setTasks('test-session', [
+        {
+          sessionId: 'test-session', taskId: 'api', taskTitle: 'Build API', status: 'completed', createdAt: new Date(),
+          completedAtThought: 3, createdAtThought: 1, thoughtRefs: [1, 3],
+        },
+        { sessionId: 'test-session', taskId: 'docs', taskTitle: 'Write docs', status: 'pending', createdAt: new Date(), completedAtThought: 0, thoughtRefs: [2] },
+      ]);
+
+      const doc = await generator.generate('test-session');
+
+      expect(doc.content).toContain(
+        '## Task Reasoning\n\n### ✅ Build API\n\n- Thought 1 (created): Sketch the endpoints\n- Thought 3 (completed): Routes are in\n\n'
+      );
+      expect(doc.content).not.toContain('### ✅ Write docs');
+    });
+
+    it("should follow the session template's layout", async () => {
+      const session = (await mockStorage.getSession('test-session'))!;
+      await mockStorage.updateSession({
+        ...session,
+        template: { name: 'postmortem', documentation: { title: 'Incident Postmortem', sections: ['thoughts', 'summary'] } },
+      });
+      mockStorage.setThoughts('test-session', [
+        { sessionId: 'test-session', thought: 'Timeline', thoughtNumber: 1, totalThoughts: 1, timestamp: new Date() },
+      ]);
+      mockStorage.setTasks('test-session', [
+        { sessionId: 'test-session', taskId: 'a', taskTitle: 'Actions', status: 'pending', createdAt: new Date(), completedAtThought: 0 },
+      ]);
+
+      const doc = await generator.generate('test-session');
+
+      expect(doc.content.startsWith('# Incident Postmortem\n\n## Thought Progression\n\n')).toBe(true);
+      expect(doc.content.indexOf('## Summary')).toBeGreaterThan(doc.content.indexOf('Timeline'));
+      expect(doc.content).not.toContain('## Tasks');
+    });
+
     it('should generate summary with counts', async () => {
       mockStorage.setThoughts('test-session', [
         {
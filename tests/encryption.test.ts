@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile, readdir, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { RecordCipher, loadCipherFromEnv, keyIdOf } from '../src/context-layer/storage/encryption.js';
+import { rotateEncryptionKey } from '../src/context-layer/storage/key-rotation.js';
+import { EncryptionKeyError, StorageCorruptionError } from '../src/context-layer/storage/errors.js';
+import type { Session, ThoughtRecord } from '../src/context-layer/types.js';
+
+function makeSession(id: string): Session {
+  const now = new Date();
+  return { id, createdAt: now, updatedAt: now, status: 'active', thoughtCount: 0, taskCount: 0 };
+}
+
+function makeThought(sessionId: string, thoughtNumber: number): ThoughtRecord {
+  return { sessionId, thought: `Secret design ${thoughtNumber}`, thoughtNumber, totalThoughts: 5, timestamp: new Date() };
+}
+
+async function readSessionFiles(dir: string): Promise<string> {
+  const files = await readdir(dir);
+  const contents = await Promise.all(files.map(f => readFile(join(dir, f), 'utf-8')));
+  return contents.join('\n');
+}
+
+describe('RecordCipher', () => {
+  const oldKey = randomBytes(32);
+  const newKey = randomBytes(32);
+
+  it('should round-trip records and open ones sealed with a previous key', () => {
+    const oldCipher = new RecordCipher(oldKey);
+    const rotated = new RecordCipher(newKey, [oldKey]);
+
+    const sealed = oldCipher.seal({ hello: 'world' });
+    expect(sealed.encrypted.keyId).toBe(keyIdOf(oldKey));
+    expect(rotated.open(sealed, 'f')).toEqual({ hello: 'world' });
+    expect(rotated.seal({}).encrypted.keyId).toBe(keyIdOf(newKey));
+  });
+
+  it('should reject unknown keys and tampered data', () => {
+    const sealed = new RecordCipher(oldKey).seal({ hello: 'world' });
+
+    expect(() => new RecordCipher(newKey).open(sealed, 'f')).toThrow(EncryptionKeyError);
+
+    const data = Buffer.from(sealed.encrypted.data, 'base64');
+    data[0] ^= 1;
+    const tampered = { encrypted: { ...sealed.encrypted, data: data.toString('base64') } };
+    expect(() => new RecordCipher(oldKey).open(tampered, 'f')).toThrow(/authentication/);
+  });
+
+  it('should load the current and previous keys from a key file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'devpattern-keys-'));
+    try {
+      const keyFile = join(dir, 'keys');
+      await writeFile(keyFile, `# current\n${newKey.toString('base64')}\n${oldKey.toString('hex')}\n`, 'utf-8');
+
+      const cipher = await loadCipherFromEnv({ ENCRYPTION_KEY_FILE: keyFile });
+
+      expect(cipher?.keyId).toBe(keyIdOf(newKey));
+      expect(cipher?.open(new RecordCipher(oldKey).seal(1), 'f')).toBe(1);
+      expect(await loadCipherFromEnv({})).toBeUndefined();
+      await expect(loadCipherFromEnv({ ENCRYPTION_KEY: 'short' })).rejects.toThrow(/32-byte key/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('FileStorage encryption', () => {
+  let dataPath: string;
+  const key = randomBytes(32);
+  const sessionDir = (id: string) => join(dataPath, 'sessions', id);
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-encrypted-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should write no plaintext and read everything back', async () => {
+    const storage = new FileStorage(dataPath, { cipher: new RecordCipher(key) });
+    await storage.createSession({ ...makeSession('s1'), metadata: { project: 'Secret project' } });
+    await storage.saveThought(makeThought('s1', 1));
+    await storage.listSessions();
+
+    const onDisk = await readSessionFiles(sessionDir('s1')) + await readFile(join(dataPath, 'session-index.jsonl'), 'utf-8');
+    expect(onDisk).not.toContain('Secret');
+
+    const raw = JSON.parse(await readFile(join(sessionDir('s1'), 'session.json'), 'utf-8'));
+    expect(raw.formatVersion).toBe(2);
+
+    expect((await storage.getThoughts('s1'))[0].thought).toBe('Secret design 1');
+    expect((await storage.getSession('s1'))?.metadata).toEqual({ project: 'Secret project' });
+    expect((await storage.listSessions()).map(s => s.id)).toEqual(['s1']);
+  });
+
+  it('should read a directory mixing plaintext and encrypted records', async () => {
+    const plain = new FileStorage(dataPath);
+    await plain.createSession(makeSession('s1'));
+    await plain.saveThought(makeThought('s1', 1));
+
+    const encrypted = new FileStorage(dataPath, { cipher: new RecordCipher(key) });
+    await encrypted.saveThought(makeThought('s1', 2));
+
+    const thoughts = await encrypted.getThoughts('s1');
+    expect(thoughts.map(t => t.thoughtNumber)).toEqual([1, 2]);
+  });
+
+  it('should raise EncryptionKeyError without quarantining when the key is missing', async () => {
+    const encrypted = new FileStorage(dataPath, { cipher: new RecordCipher(key) });
+    await encrypted.createSession(makeSession('s1'));
+
+    await expect(new FileStorage(dataPath).getSession('s1')).rejects.toThrow(EncryptionKeyError);
+    await expect(new FileStorage(dataPath, { cipher: new RecordCipher(randomBytes(32)) }).getSession('s1'))
+      .rejects.toThrow(EncryptionKeyError);
+    await access(join(sessionDir('s1'), 'session.json'));
+  });
+
+  it('should treat a tampered record as corruption', async () => {
+    const storage = new FileStorage(dataPath, { cipher: new RecordCipher(key) });
+    await storage.createSession(makeSession('s1'));
+
+    const filePath = join(sessionDir('s1'), 'session.json');
+    const raw = JSON.parse(await readFile(filePath, 'utf-8'));
+    raw.encrypted.tag = Buffer.alloc(16).toString('base64');
+    await writeFile(filePath, JSON.stringify(raw), 'utf-8');
+
+    await expect(storage.getSession('s1')).rejects.toThrow(StorageCorruptionError);
+  });
+});
+
+describe('rotateEncryptionKey', () => {
+  let dataPath: string;
+  const oldKey = randomBytes(32);
+  const newKey = randomBytes(32);
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-rotate-'));
+    const plain = new FileStorage(dataPath);
+    await plain.createSession(makeSession('plain'));
+    await plain.saveThought(makeThought('plain', 1));
+
+    const old = new FileStorage(dataPath, { cipher: new RecordCipher(oldKey) });
+    await old.createSession(makeSession('old'));
+    await old.saveThought(makeThought('old', 1));
+    await old.saveDocumentation({
+      sessionId: 'old', generatedAt: new Date(), summary: 'Secret summary',
+      thoughtCount: 1, taskCount: 0, branches: [], content: '',
+    });
+    await old.listSessions();
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should report without writing on a dry run', async () => {
+    const before = await readSessionFiles(join(dataPath, 'sessions', 'old'));
+
+    const report = await rotateEncryptionKey(dataPath, new RecordCipher(newKey, [oldKey]), { dryRun: true });
+
+    expect(report.sessionsRewritten).toBe(2);
+    expect(report.indexRemoved).toBe(true);
+    expect(report.errors).toEqual([]);
+    expect(await readSessionFiles(join(dataPath, 'sessions', 'old'))).toBe(before);
+  });
+
+  it('should re-encrypt every session under the new key', async () => {
+    const report = await rotateEncryptionKey(dataPath, new RecordCipher(newKey, [oldKey]));
+
+    expect(report.keyId).toBe(keyIdOf(newKey));
+    expect(report.files).toContainEqual({ sessionId: 'old', file: 'documentation.json' });
+    expect(report.errors).toEqual([]);
+
+    const storage = new FileStorage(dataPath, { cipher: new RecordCipher(newKey) });
+    expect((await storage.getThoughts('plain'))[0].thought).toBe('Secret design 1');
+    expect((await storage.getThoughts('old'))[0].thought).toBe('Secret design 1');
+    expect((await storage.listSessions()).map(s => s.id).sort()).toEqual(['old', 'plain']);
+
+    const second = await rotateEncryptionKey(dataPath, new RecordCipher(newKey));
+    expect(second.sessionsRewritten).toBe(0);
+  });
+
+  it('should report sessions whose key is missing', async () => {
+    const report = await rotateEncryptionKey(dataPath, new RecordCipher(newKey));
+
+    expect(report.errors.map(e => e.sessionId)).toEqual(['old']);
+  });
+
+  it('should decrypt everything back to plaintext', async () => {
+    await rotateEncryptionKey(dataPath, new RecordCipher(oldKey), { decrypt: true });
+
+    expect(await readSessionFiles(join(dataPath, 'sessions', 'old'))).toContain('Secret design 1');
+    expect((await new FileStorage(dataPath).getThoughts('old'))[0].thought).toBe('Secret design 1');
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir, readFile, utimes, writeFile } from 'fs/promises';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { ContextStore } from '../src/context-layer/context-store.js';
+import { withFileLock } from '../src/context-layer/storage/file-lock.js';
+
+const execFileAsync = promisify(execFile);
+
+describe('withFileLock', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'devpattern-lock-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should serialize concurrent holders', async () => {
+    const lockPath = join(dir, '.lock');
+    const events: string[] = [];
+
+    await Promise.all([1, 2, 3].map(n =>
+      withFileLock(lockPath, async () => {
+        events.push(`start ${n}`);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        events.push(`end ${n}`);
+      })
+    ));
+
+    for (let i = 0; i < events.length; i += 2) {
+      expect(events[i].replace('start', 'end')).toBe(events[i + 1]);
+    }
+  });
+
+  it('should release the lock when the callback throws', async () => {
+    const lockPath = join(dir, '.lock');
+
+    await expect(withFileLock(lockPath, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(withFileLock(lockPath, async () => 'ok', { timeoutMs: 100 })).resolves.toBe('ok');
+  });
+
+  it('should time out while another holder keeps the lock', async () => {
+    const lockPath = join(dir, '.lock');
+
+    await withFileLock(lockPath, async () => {
+      await expect(withFileLock(lockPath, async () => 'never', { timeoutMs: 50 })).rejects.toThrow(/Timed out/);
+    });
+  });
+
+  it('should keep a lock held past staleMs', async () => {
+    const lockPath = join(dir, '.lock');
+    const events: string[] = [];
+
+    await Promise.all([
+      withFileLock(lockPath, async () => {
+        await new Promise(resolve => setTimeout(resolve, 250));
+        events.push('holder done');
+      }, { staleMs: 60 }),
+      new Promise(resolve => setTimeout(resolve, 20)).then(() =>
+        withFileLock(lockPath, async () => { events.push('waiter'); }, { staleMs: 60 })),
+    ]);
+
+    expect(events).toEqual(['holder done', 'waiter']);
+  });
+
+  it('should break a stale lock', async () => {
+    const lockPath = join(dir, '.lock');
+
+    await withFileLock(lockPath, async () => {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      await expect(withFileLock(lockPath, async () => 'taken over', { staleMs: 10 })).resolves.toBe('taken over');
+    });
+  });
+});
+
+describe('withFileLock across processes', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'devpattern-lock-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should let only one of several processes take over a stale lock', async () => {
+    const lockPath = join(dir, '.lock');
+    const logPath = join(dir, 'log');
+    await writeFile(lockPath, JSON.stringify({ pid: 0, acquiredAt: '2024-01-01T00:00:00Z' }));
+    const longAgo = new Date(Date.now() - 60000);
+    await utimes(lockPath, longAgo, longAgo);
+
+    const viteNode = join(__dirname, '..', 'node_modules', '.bin', 'vite-node');
+    const fixture = join(__dirname, 'fixtures', 'contend-lock.ts');
+    const startAt = String(Date.now() + 4000);
+    const names = ['a', 'b', 'c'];
+    await Promise.all(names.map(name => execFileAsync(viteNode, [fixture, lockPath, logPath, name, startAt])));
+
+    // Holders never overlap: every start is followed by its own end
+    const log = (await readFile(logPath, 'utf-8')).trim().split('\n');
+    expect(log).toHaveLength(names.length * 2);
+    for (let i = 0; i < log.length; i += 2) {
+      expect(log[i + 1]).toBe(log[i].replace('start', 'end'));
+    }
+    expect(await readdir(dir)).toEqual(['log']);
+  }, 60000);
+});
+
+describe('FileStorage.withSessionLock', () => {
+  let dataPath: string;
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-session-lock-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should keep holding the lock while deleting the session', async () => {
+    const storage = new FileStorage(dataPath);
+    const sessionId = await new ContextStore(storage).createSession();
+    const events: string[] = [];
+
+    let waiter: Promise<void> | undefined;
+    await storage.withSessionLock(sessionId, async () => {
+      waiter = storage.withSessionLock(sessionId, async () => { events.push('waiter'); });
+      await storage.deleteSession(sessionId);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      events.push('deleted');
+    });
+    await waiter;
+
+    expect(events).toEqual(['deleted', 'waiter']);
+    expect(await storage.getSession(sessionId)).toBeNull();
+    expect(await readdir(join(dataPath, 'locks'))).toEqual([]);
+  });
+});
+
+describe('FileStorage under concurrent processes', () => {
+  let dataPath: string;
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-hammer-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should not lose counter updates when several processes write one session', async () => {
+    const workers = 4;
+    const iterations = 10;
+    const storage = new FileStorage(dataPath);
+    const sessionId = await new ContextStore(storage).createSession();
+
+    const viteNode = join(__dirname, '..', 'node_modules', '.bin', 'vite-node');
+    const fixture = join(__dirname, 'fixtures', 'hammer-session.ts');
+    await Promise.all(Array.from({ length: workers }, (_, i) =>
+      execFileAsync(viteNode, [fixture, dataPath, sessionId, String(i), String(iterations)])
+    ));
+
+    const session = await storage.getSession(sessionId);
+    expect(session?.thoughtCount).toBe(workers * iterations);
+    expect(session?.taskCount).toBe(workers * iterations);
+    expect(await storage.getThoughts(sessionId)).toHaveLength(workers * iterations);
+    expect(await storage.getTasks(sessionId)).toHaveLength(workers * iterations);
+
+    // No lock or temp files left behind
+    const leftovers = (await readdir(join(dataPath, 'sessions', sessionId)))
+      .filter(name => name.endsWith('.tmp'));
+    expect(leftovers).toEqual([]);
+    expect(await readdir(join(dataPath, 'locks'))).toEqual([]);
+  }, 60000);
+});
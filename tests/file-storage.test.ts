@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile, appendFile, mkdir, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { StorageCorruptionError } from '../src/context-layer/storage/errors.js';
+import type { Session, ThoughtRecord, TaskCommit } from '../src/context-layer/types.js';
+
+function makeSession(id: string): Session {
+  const now = new Date();
+  return { id, createdAt: now, updatedAt: now, status: 'active', thoughtCount: 0, taskCount: 0 };
+}
+
+function makeThought(sessionId: string, thoughtNumber: number): ThoughtRecord {
+  return { sessionId, thought: `Thought ${thoughtNumber}`, thoughtNumber, totalThoughts: 5, timestamp: new Date() };
+}
+
+function makeTask(sessionId: string, taskId: string): TaskCommit {
+  return {
+    sessionId,
+    taskId,
+    taskTitle: `Task ${taskId}`,
+    completedAtThought: 0,
+    status: 'pending',
+    createdAt: new Date(),
+  };
+}
+
+describe('FileStorage', () => {
+  let dataPath: string;
+  let storage: FileStorage;
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-files-'));
+    storage = new FileStorage(dataPath);
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  const sessionDir = (sessionId: string) => join(dataPath, 'sessions', sessionId);
+
+  describe('thought log', () => {
+    it('should append one JSON line per thought', async () => {
+      await storage.createSession(makeSession('s1'));
+      await storage.saveThought(makeThought('s1', 1));
+      await storage.saveThought(makeThought('s1', 2));
+
+      const lines = (await readFile(join(sessionDir('s1'), 'thoughts.jsonl'), 'utf-8')).trim().split('\n');
+      expect(JSON.parse(lines[0])).toEqual({ formatVersion: 2 });
+      expect(lines).toHaveLength(3);
+
+      const thoughts = await storage.getThoughts('s1');
+      expect(thoughts.map(t => t.thoughtNumber)).toEqual([1, 2]);
+    });
+
+    it('should ignore a truncated last line and recover on the next append', async () => {
+      await storage.createSession(makeSession('s1'));
+      await storage.saveThought(makeThought('s1', 1));
+      await appendFile(join(sessionDir('s1'), 'thoughts.jsonl'), '{"sessionId":"s1","thou', 'utf-8');
+
+      expect(await storage.getThoughts('s1')).toHaveLength(1);
+
+      await storage.saveThought(makeThought('s1', 2));
+      const thoughts = await storage.getThoughts('s1');
+      expect(thoughts.map(t => t.thoughtNumber)).toEqual([1, 2]);
+    });
+
+    it('should reject corruption before the last line', async () => {
+      await storage.createSession(makeSession('s1'));
+      await writeFile(
+        join(sessionDir('s1'), 'thoughts.jsonl'),
+        `not json\n${JSON.stringify(makeThought('s1', 2))}\n`,
+        'utf-8'
+      );
+
+      await expect(storage.getThoughts('s1')).rejects.toThrow(StorageCorruptionError);
+      await expect(access(join(sessionDir('s1'), 'thoughts.jsonl'))).rejects.toThrow();
+    });
+
+    it('should read and migrate a legacy thoughts.json on first write', async () => {
+      await mkdir(sessionDir('legacy'), { recursive: true });
+      await writeFile(join(sessionDir('legacy'), 'session.json'), JSON.stringify(makeSession('legacy')), 'utf-8');
+      await writeFile(
+        join(sessionDir('legacy'), 'thoughts.json'),
+        JSON.stringify([makeThought('legacy', 1), makeThought('legacy', 2)]),
+        'utf-8'
+      );
+
+      expect(await storage.getThoughts('legacy')).toHaveLength(2);
+
+      await storage.saveThought(makeThought('legacy', 3));
+
+      const thoughts = await storage.getThoughts('legacy');
+      expect(thoughts.map(t => t.thoughtNumber)).toEqual([1, 2, 3]);
+      await expect(access(join(sessionDir('legacy'), 'thoughts.json'))).rejects.toThrow();
+    });
+  });
+
+  describe('task log', () => {
+    it('should record task updates as log entries', async () => {
+      await storage.createSession(makeSession('s1'));
+      await storage.saveTask(makeTask('s1', 't1'));
+      await storage.saveTask(makeTask('s1', 't2'));
+      await storage.updateTask({ ...makeTask('s1', 't1'), status: 'completed', completedAtThought: 3 });
+
+      const tasks = await storage.getTasks('s1');
+      expect(tasks.map(t => [t.taskId, t.status])).toEqual([['t1', 'completed'], ['t2', 'pending']]);
+
+      const lines = (await readFile(join(sessionDir('s1'), 'tasks.jsonl'), 'utf-8')).trim().split('\n');
+      expect(lines).toHaveLength(4);
+    });
+
+    it('should ignore updates for unknown tasks', async () => {
+      await storage.createSession(makeSession('s1'));
+      await storage.updateTask(makeTask('s1', 'missing'));
+
+      expect(await storage.getTasks('s1')).toEqual([]);
+    });
+
+    it('should not recreate a deleted session when appending', async () => {
+      await storage.createSession(makeSession('s1'));
+      await storage.deleteSession('s1');
+
+      await expect(storage.saveTask(makeTask('s1', 't1'))).rejects.toThrow('Session not found: s1');
+      await expect(access(sessionDir('s1'))).rejects.toThrow();
+    });
+
+    it('should read and migrate a legacy tasks.json on first write', async () => {
+      await mkdir(sessionDir('legacy'), { recursive: true });
+      await writeFile(join(sessionDir('legacy'), 'session.json'), JSON.stringify(makeSession('legacy')), 'utf-8');
+      await writeFile(join(sessionDir('legacy'), 'tasks.json'), JSON.stringify([makeTask('legacy', 't1')]), 'utf-8');
+
+      await storage.updateTask({ ...makeTask('legacy', 't1'), status: 'in_progress' });
+
+      const tasks = await storage.getTasks('legacy');
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0].status).toBe('in_progress');
+      await expect(access(join(sessionDir('legacy'), 'tasks.json'))).rejects.toThrow();
+    });
+  });
+
+  describe('session index', () => {
+    const indexPath = () => join(dataPath, 'session-index.jsonl');
+
+    it('should build the index on first listing and append updates', async () => {
+      await storage.createSession(makeSession('s1'));
+      expect((await storage.listSessions()).map(s => s.id)).toEqual(['s1']);
+
+      await storage.createSession(makeSession('s2'));
+      await storage.updateSession({ ...makeSession('s1'), thoughtCount: 3 });
+
+      const lines = (await readFile(indexPath(), 'utf-8')).trim().split('\n');
+      expect(lines).toHaveLength(4);
+
+      const sessions = await storage.listSessions();
+      expect(sessions.map(s => [s.id, s.thoughtCount]).sort()).toEqual([['s1', 3], ['s2', 0]]);
+    });
+
+    it('should drop deleted sessions', async () => {
+      await storage.createSession(makeSession('s1'));
+      await storage.createSession(makeSession('s2'));
+      await storage.listSessions();
+
+      await storage.deleteSession('s1');
+
+      expect((await storage.listSessions()).map(s => s.id)).toEqual(['s2']);
+    });
+
+    it('should rebuild an unreadable index from the session directories', async () => {
+      await storage.createSession(makeSession('s1'));
+      await storage.listSessions();
+      await writeFile(indexPath(), 'garbage\n{}\n', 'utf-8');
+
+      expect((await storage.listSessions()).map(s => s.id)).toEqual(['s1']);
+      expect((await readFile(indexPath(), 'utf-8')).trim().split('\n')).toHaveLength(2);
+    });
+
+    it('should compact the log once it outgrows the live sessions', async () => {
+      const session = makeSession('s1');
+      await storage.createSession(session);
+      await storage.listSessions();
+      for (let i = 1; i <= 100; i++) {
+        await storage.updateSession({ ...session, thoughtCount: i });
+      }
+
+      const sessions = await storage.listSessions();
+
+      expect(sessions[0].thoughtCount).toBe(100);
+      expect((await readFile(indexPath(), 'utf-8')).trim().split('\n')).toHaveLength(2);
+    });
+  });
+
+  describe('validation', () => {
+    it('should revive dates on read', async () => {
+      await storage.createSession(makeSession('s1'));
+      await storage.saveThought(makeThought('s1', 1));
+
+      const session = await storage.getSession('s1');
+      const thoughts = await storage.getThoughts('s1');
+
+      expect(session?.createdAt).toBeInstanceOf(Date);
+      expect(thoughts[0].timestamp).toBeInstanceOf(Date);
+    });
+
+    it('should keep the on-disk formatVersion out of returned records', async () => {
+      await storage.createSession(makeSession('s1'));
+      await storage.saveDocumentation({
+        sessionId: 's1', generatedAt: new Date(), summary: 'S',
+        thoughtCount: 0, taskCount: 0, branches: [], content: '# Doc',
+      });
+      // The doc-worker indexes sessions as they are on disk
+      await storage.listSessions();
+      await appendFile(join(dataPath, 'session-index.jsonl'), JSON.stringify({
+        op: 'put', session: { ...makeSession('s2'), formatVersion: 2 },
+      }) + '\n', 'utf-8');
+
+      expect(await storage.getSession('s1')).not.toHaveProperty('formatVersion');
+      expect(await storage.getDocumentation('s1')).not.toHaveProperty('formatVersion');
+      const sessions = await storage.listSessions();
+      expect(sessions.map(s => s.id).sort()).toEqual(['s1', 's2']);
+      for (const session of sessions) {
+        expect(session).not.toHaveProperty('formatVersion');
+      }
+      expect(JSON.parse(await readFile(join(sessionDir('s1'), 'session.json'), 'utf-8')).formatVersion).toBe(2);
+    });
+
+    it('should return null for a missing session', async () => {
+      expect(await storage.getSession('missing')).toBeNull();
+    });
+
+    it('should quarantine unparsable JSON and raise StorageCorruptionError', async () => {
+      await storage.createSession(makeSession('s1'));
+      await writeFile(join(sessionDir('s1'), 'session.json'), '{"id": "s1", ', 'utf-8');
+
+      const error = await storage.getSession('s1').catch(e => e);
+
+      expect(error).toBeInstanceOf(StorageCorruptionError);
+      expect(error.quarantinePath).toContain(join(dataPath, 'quarantine', 'sessions', 's1', 'session.json'));
+      expect(await readFile(error.quarantinePath, 'utf-8')).toBe('{"id": "s1", ');
+      expect(await storage.getSession('s1')).toBeNull();
+    });
+
+    it('should reject records that fail schema validation', async () => {
+      await storage.createSession(makeSession('s1'));
+      await writeFile(
+        join(sessionDir('s1'), 'session.json'),
+        JSON.stringify({ ...makeSession('s1'), thoughtCount: 'many' }),
+        'utf-8'
+      );
+
+      await expect(storage.getSession('s1')).rejects.toThrow(StorageCorruptionError);
+    });
+
+    it('should skip corrupt sessions when listing', async () => {
+      await storage.createSession(makeSession('good'));
+      await storage.createSession(makeSession('bad'));
+      await writeFile(join(sessionDir('bad'), 'session.json'), 'garbage', 'utf-8');
+
+      const sessions = await storage.listSessions();
+
+      expect(sessions.map(s => s.id)).toEqual(['good']);
+    });
+
+    it('should preserve fields written by the doc-worker', async () => {
+      await storage.createSession(makeSession('s1'));
+      await writeFile(
+        join(sessionDir('s1'), 'session.json'),
+        JSON.stringify({ ...makeSession('s1'), status: 'finalized', outcome: 'abandoned', autoFinalized: true }),
+        'utf-8'
+      );
+
+      const session = await storage.getSession('s1');
+      await storage.updateSession({ ...session!, thoughtCount: 1 });
+
+      const raw = JSON.parse(await readFile(join(sessionDir('s1'), 'session.json'), 'utf-8'));
+      expect(raw.outcome).toBe('abandoned');
+      expect(raw.autoFinalized).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,17 @@
+/**
+ * Child process for the stale-lock test in file-lock.test.ts: waits until
+ * `startAt`, takes the lock and records when it held it.
+ * Usage: contend-lock.ts <lockPath> <logPath> <name> <startAt>
+ */
+
+import { appendFile } from 'fs/promises';
+import { withFileLock } from '../../src/context-layer/storage/file-lock.js';
+
+const [lockPath, logPath, name, startAt] = process.argv.slice(2);
+
+await new Promise(resolve => setTimeout(resolve, Math.max(0, Number(startAt) - Date.now())));
+await withFileLock(lockPath, async () => {
+  await appendFile(logPath, `start ${name}\n`);
+  await new Promise(resolve => setTimeout(resolve, 200));
+  await appendFile(logPath, `end ${name}\n`);
+}, { staleMs: 1000, retryMs: 1 });
@@ -0,0 +1,16 @@
+/**
+ * Custom storage module used by storage-factory.test.ts
+ */
+
+import { MemoryStorage } from '../../src/context-layer/storage/memory-storage.js';
+import type { StorageFactoryOptions } from '../../src/context-layer/storage/factory.js';
+
+export class TaggedStorage extends MemoryStorage {
+  constructor(public readonly dataPath: string) {
+    super();
+  }
+}
+
+export function createStorage(options: StorageFactoryOptions): TaggedStorage {
+  return new TaggedStorage(options.dataPath);
+}
@@ -0,0 +1,29 @@
+/**
+ * Child process for the concurrent-writer test in file-lock.test.ts.
+ * Usage: hammer-session.ts <dataPath> <sessionId> <workerIndex> <iterations>
+ */
+
+import { FileStorage } from '../../src/context-layer/storage/file-storage.js';
+import { ContextStore } from '../../src/context-layer/context-store.js';
+import { TaskManager } from '../../src/context-layer/task-manager.js';
+
+const [dataPath, sessionId, workerIndex, iterations] = process.argv.slice(2);
+
+const storage = new FileStorage(dataPath);
+const store = new ContextStore(storage);
+const tasks = new TaskManager(storage);
+
+for (let i = 1; i <= Number(iterations); i++) {
+  await store.saveThought({
+    sessionId,
+    thought: `Worker ${workerIndex} thought ${i}`,
+    thoughtNumber: i,
+    totalThoughts: Number(iterations),
+    timestamp: new Date(),
+  });
+  await tasks.commitTask({
+    sessionId,
+    taskTitle: `Worker ${workerIndex} task ${i}`,
+    completedAtThought: i,
+  });
+}
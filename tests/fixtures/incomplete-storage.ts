@@ -0,0 +1,11 @@
+/**
+ * Storage module missing most Storage methods, used by storage-factory.test.ts
+ */
+
+export default function createStorage() {
+  return {
+    async getSession() {
+      return null;
+    },
+  };
+}
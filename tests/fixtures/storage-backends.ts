@@ -0,0 +1,29 @@
+/**
+ * The built-in storage backends, for suites that must behave the same on
+ * each of them: describe.each(storageBackends)('... (%s storage)', ...)
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStorage } from '../../src/context-layer/storage/file-storage.js';
+import { MemoryStorage } from '../../src/context-layer/storage/memory-storage.js';
+import { SqliteStorage } from '../../src/context-layer/storage/sqlite-storage.js';
+import type { Storage } from '../../src/context-layer/storage/storage.js';
+
+export interface TestBackend {
+  storage: Storage;
+  close(): Promise<void>;
+}
+
+export const storageBackends: Array<[string, () => Promise<TestBackend>]> = [
+  ['file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'devpattern-backend-'));
+    return { storage: new FileStorage(dir), close: () => rm(dir, { recursive: true, force: true }) };
+  }],
+  ['memory', async () => ({ storage: new MemoryStorage(), close: async () => {} })],
+  ['sqlite', async () => {
+    const storage = new SqliteStorage(':memory:');
+    return { storage, close: async () => storage.close() };
+  }],
+];
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { assertSessionId, assertTaskId, isValidId, InvalidIdError } from '../src/context-layer/ids.js';
+import { resolveWithin, sessionDirPath } from '../src/context-layer/storage/paths.js';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { ContextLayer } from '../src/context-layer/index.js';
+
+describe('ID validation', () => {
+  it('should accept generated and simple IDs', () => {
+    for (const id of ['session_1a2b3c4d5e6f', 'task_abc', 'a', 'v1.2-rc_3', 'x'.repeat(128)]) {
+      expect(isValidId(id)).toBe(true);
+    }
+  });
+
+  it('should reject path-like and malformed IDs', () => {
+    for (const id of ['', '.', '..', '../x', '/etc/passwd', 'a/b', 'a\\b', '.hidden', 'a b', 'a\0b', 'x'.repeat(129), 42, null]) {
+      expect(isValidId(id)).toBe(false);
+    }
+    expect(() => assertSessionId('../x')).toThrow(InvalidIdError);
+    expect(() => assertTaskId('../x')).toThrow('Invalid task ID');
+  });
+});
+
+describe('resolveWithin', () => {
+  it('should resolve paths inside the root', () => {
+    expect(resolveWithin('/data', 'sessions', 'a')).toBe(join('/data', 'sessions', 'a'));
+    expect(sessionDirPath('data', 'session_1')).toBe(join('data', 'sessions', 'session_1'));
+  });
+
+  it('should refuse paths that escape the root', () => {
+    expect(() => resolveWithin('/data', '..', 'etc')).toThrow('resolves outside');
+    expect(() => resolveWithin('/data', 'sessions', '../../etc')).toThrow('resolves outside');
+    expect(() => sessionDirPath('/data', '../etc')).toThrow(InvalidIdError);
+  });
+});
+
+describe('storage ID checks', () => {
+  let dataPath: string;
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-ids-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should reject invalid IDs in file storage', async () => {
+    const storage = new FileStorage(dataPath);
+    await expect(storage.getSession('../outside')).rejects.toThrow(InvalidIdError);
+    await expect(storage.deleteSession('/etc')).rejects.toThrow(InvalidIdError);
+  });
+
+  it('should skip session directories with invalid names when listing', async () => {
+    await mkdir(join(dataPath, 'sessions', 'bad name'), { recursive: true });
+    await writeFile(join(dataPath, 'sessions', 'bad name', 'session.json'), '{}');
+    const storage = new FileStorage(dataPath);
+
+    expect(await storage.rebuildSessionIndex()).toEqual([]);
+  });
+
+  it('should reject invalid IDs in the context layer with any backend', async () => {
+    const layer = new ContextLayer({ dataPath, ephemeral: true });
+    await expect(layer.getContext('../outside')).rejects.toThrow(InvalidIdError);
+    await expect(layer.ensureSession('a/b')).rejects.toThrow(InvalidIdError);
+  });
+});
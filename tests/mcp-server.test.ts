@@ -0,0 +1,407 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { ReadBuffer, serializeMessage } from '@modelcontextprotocol/sdk/shared/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { createMcpServer, createHttpServer, type HttpServerHandle, type ServerDependencies } from '../src/server.js';
+
+/**
+ * Client side of a STDIO connection over in-process pipes, framed exactly
+ * as the server's StdioServerTransport expects
+ */
+class PipeClientTransport implements Transport {
+  onmessage?: (message: JSONRPCMessage) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  private buffer = new ReadBuffer();
+
+  constructor(private toServer: PassThrough, private fromServer: PassThrough) {}
+
+  async start(): Promise<void> {
+    this.fromServer.on('data', (chunk: Buffer) => {
+      this.buffer.append(chunk);
+      let message;
+      while ((message = this.buffer.readMessage())) {
+        this.onmessage?.(message);
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    this.toServer.write(serializeMessage(message));
+  }
+
+  async close(): Promise<void> {
+    this.onclose?.();
+  }
+}
+
+const TRAVERSAL_IDS = ['../outside', '../../etc/passwd', '/etc/passwd', 'a/../../outside', '..', 'a\\..\\..\\outside'];
+
+function resultText(result: Awaited<ReturnType<Client['callTool']>>): string {
+  return (result.content as Array<{ text: string }>)[0].text;
+}
+
+async function connectStdio(dataPath: string, options: Partial<ServerDependencies> = {}): Promise<Client> {
+  const toServer = new PassThrough();
+  const fromServer = new PassThrough();
+  const server = createMcpServer({ dataPath, storage: new FileStorage(dataPath), ...options });
+  await server.connect(new StdioServerTransport(toServer, fromServer));
+
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await client.connect(new PipeClientTransport(toServer, fromServer));
+  return client;
+}
+
+describe.each(['stdio', 'http'] as const)('session ID validation over %s', (transport) => {
+  let root: string;
+  let dataPath: string;
+  let client: Client;
+  let http: HttpServerHandle | undefined;
+
+  beforeEach(async () => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    root = await mkdtemp(join(tmpdir(), 'devpattern-mcp-'));
+    dataPath = join(root, 'data');
+    // A session-shaped directory outside the data path that traversal would reach
+    await writeFile(join(root, 'session.json'), JSON.stringify({ id: 'outside' }));
+
+    if (transport === 'stdio') {
+      client = await connectStdio(dataPath);
+    } else {
+      http = createHttpServer({ dataPath, storage: new FileStorage(dataPath) });
+      await new Promise<void>(resolve => http!.httpServer.listen(0, '127.0.0.1', resolve));
+      const { port } = http.httpServer.address() as AddressInfo;
+      client = new Client({ name: 'test', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+    }
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await http?.close();
+    http = undefined;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it.each(TRAVERSAL_IDS)('should reject get_thinking_context for %s', async (sessionId) => {
+    const result = await client.callTool({ name: 'get_thinking_context', arguments: { sessionId } });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Invalid session ID');
+  });
+
+  it.each(TRAVERSAL_IDS)('should reject sequentialthinking for %s', async (sessionId) => {
+    const result = await client.callTool({
+      name: 'sequentialthinking',
+      arguments: { thought: 'T', thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: true, sessionId },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Invalid session ID');
+    expect(await readdir(root)).toEqual(['session.json']);
+  });
+
+  it('should reject invalid task IDs', async () => {
+    const result = await client.callTool({
+      name: 'sequentialthinking',
+      arguments: {
+        thought: 'T', thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: true,
+        taskContext: { taskId: '../task', taskTitle: 'Task', commitTask: true },
+      },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(resultText(result)).toContain('Invalid task ID');
+  });
+
+  it('should accept valid session IDs', async () => {
+    const created = await client.callTool({
+      name: 'sequentialthinking',
+      arguments: { thought: 'T', thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: true },
+    });
+    const { sessionId } = JSON.parse(resultText(created));
+
+    const result = await client.callTool({ name: 'get_thinking_context', arguments: { sessionId } });
+    expect(result.isError).toBeFalsy();
+    expect(JSON.parse(resultText(result)).session.id).toBe(sessionId);
+  });
+});
+
+describe('thought history over stdio', () => {
+  let dataPath: string;
+
+  beforeEach(async () => {
+    process.env.DISABLE_THOUGHT_LOGGING = 'true';
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-mcp-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  async function think(client: Client, args: Record<string, unknown>) {
+    const result = await client.callTool({
+      name: 'sequentialthinking',
+      arguments: { thought: 'T', totalThoughts: 5, nextThoughtNeeded: true, ...args },
+    });
+    return JSON.parse(resultText(result));
+  }
+
+  it('should keep each session\'s history separate', async () => {
+    const client = await connectStdio(dataPath);
+    const first = await think(client, { thoughtNumber: 1 });
+    await think(client, { thoughtNumber: 2, sessionId: first.sessionId, branchFromThought: 1, branchId: 'alt' });
+    const other = await think(client, { thoughtNumber: 1 });
+
+    expect(other.sessionId).not.toBe(first.sessionId);
+    expect(other.thoughtHistoryLength).toBe(1);
+    expect(other.branches).toEqual([]);
+    await client.close();
+  });
+
+  it('should rebuild a session\'s history after a restart', async () => {
+    const before = await connectStdio(dataPath);
+    const first = await think(before, { thoughtNumber: 1 });
+    await think(before, { thoughtNumber: 2, sessionId: first.sessionId, branchFromThought: 1, branchId: 'alt' });
+    await before.close();
+
+    const after = await connectStdio(dataPath);
+    const resumed = await think(after, { thoughtNumber: 3, sessionId: first.sessionId });
+
+    expect(resumed.thoughtHistoryLength).toBe(3);
+    expect(resumed.branches).toEqual(['alt']);
+    await after.close();
+  });
+
+  it('should pick up thoughts another server added to the session', async () => {
+    const a = await connectStdio(dataPath, { thoughtValidation: 'strict' });
+    const b = await connectStdio(dataPath, { thoughtValidation: 'strict' });
+    const first = await think(a, { thoughtNumber: 1 });
+    await think(b, { thoughtNumber: 2, sessionId: first.sessionId, branchFromThought: 1, branchId: 'alt' });
+
+    const revised = await think(a, { thoughtNumber: 3, sessionId: first.sessionId, isRevision: true, revisesThought: 2 });
+
+    expect(revised.thoughtHistoryLength).toBe(3);
+    expect(revised.branches).toEqual(['alt']);
+    await a.close();
+    await b.close();
+  });
+
+  it('should reject bad references in strict mode without creating a session', async () => {
+    const client = await connectStdio(dataPath, { thoughtValidation: 'strict' });
+    const result = await client.callTool({
+      name: 'sequentialthinking',
+      arguments: { thought: 'T', thoughtNumber: 1, totalThoughts: 3, nextThoughtNeeded: true, isRevision: true, revisesThought: 2 },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse(resultText(result)).issues.map((i: { code: string }) => i.code)).toEqual(['REVISION_TARGET_NOT_FOUND']);
+    expect(await new FileStorage(dataPath).listSessions()).toEqual([]);
+    await client.close();
+  });
+
+  it('should return warnings in warn mode', async () => {
+    const client = await connectStdio(dataPath);
+    const first = await think(client, { thoughtNumber: 1 });
+    const revised = await think(client, { thoughtNumber: 2, sessionId: first.sessionId, isRevision: true, revisesThought: 5 });
+
+    expect(revised.warnings.map((w: { code: string }) => w.code)).toEqual(['REVISION_TARGET_NOT_FOUND']);
+    await client.close();
+  });
+
+  it('should return the thought graph', async () => {
+    const client = await connectStdio(dataPath);
+    const first = await think(client, { thoughtNumber: 1 });
+    await think(client, { thoughtNumber: 2, sessionId: first.sessionId, branchFromThought: 1, branchId: 'alt' });
+
+    const graph = JSON.parse(resultText(await client.callTool({
+      name: 'get_thought_graph',
+      arguments: { sessionId: first.sessionId },
+    })));
+
+    expect(graph.edges).toEqual([{ from: 0, to: 1, type: 'branch' }]);
+    expect(graph.currentLine).toEqual([0, 1]);
+    await client.close();
+  });
+
+  it('should merge and abandon branches', async () => {
+    const client = await connectStdio(dataPath);
+    const first = await think(client, { thoughtNumber: 1 });
+    const { sessionId } = first;
+    await think(client, { thoughtNumber: 2, sessionId, branchFromThought: 1, branchId: 'cache' });
+    await think(client, { thoughtNumber: 2, sessionId, branchFromThought: 1, branchId: 'precompute' });
+
+    const merged = await client.callTool({
+      name: 'merge_thought_branch',
+      arguments: { sessionId, branchId: 'cache', conclusion: 'LRU is enough' },
+    });
+    expect(JSON.parse(resultText(merged))).toMatchObject({ branchId: 'cache', status: 'merged', atThought: 2 });
+    await client.callTool({
+      name: 'abandon_thought_branch',
+      arguments: { sessionId, branchId: 'precompute', reason: 'Inputs are unbounded' },
+    });
+
+    const again = await client.callTool({
+      name: 'abandon_thought_branch',
+      arguments: { sessionId, branchId: 'cache', reason: 'Never mind' },
+    });
+    expect(again.isError).toBe(true);
+    expect(resultText(again)).toContain('already merged');
+
+    const next = await think(client, { thoughtNumber: 3, sessionId });
+    expect(next.branchStatus).toEqual({ cache: 'merged', precompute: 'abandoned' });
+    await client.close();
+  });
+
+  it('should resume a completed session', async () => {
+    const client = await connectStdio(dataPath);
+    const first = await think(client, { thoughtNumber: 1, totalThoughts: 2 });
+    await think(client, { thoughtNumber: 2, totalThoughts: 2, sessionId: first.sessionId, nextThoughtNeeded: false });
+
+    const briefing = JSON.parse(resultText(await client.callTool({
+      name: 'resume_thinking_session',
+      arguments: { sessionId: first.sessionId },
+    })));
+    expect(briefing).toMatchObject({ previousStatus: 'completed', nextThoughtNumber: 3, thoughtCount: 2 });
+
+    const next = await think(client, { thoughtNumber: briefing.nextThoughtNumber, sessionId: first.sessionId });
+    expect(next.thoughtHistoryLength).toBe(3);
+    await client.close();
+  });
+
+  it('should fork a session and list its fork tree', async () => {
+    const client = await connectStdio(dataPath);
+    const first = await think(client, { thoughtNumber: 1 });
+    await think(client, { thoughtNumber: 2, sessionId: first.sessionId });
+    await think(client, { thoughtNumber: 3, sessionId: first.sessionId, nextThoughtNeeded: false });
+
+    const fork = JSON.parse(resultText(await client.callTool({
+      name: 'fork_thinking_session',
+      arguments: { sessionId: first.sessionId, atThought: 1 },
+    })));
+    expect(fork).toMatchObject({ thoughtCount: 1, nextThoughtNumber: 2 });
+
+    const next = await think(client, { thoughtNumber: 2, sessionId: fork.sessionId });
+    expect(next.thoughtHistoryLength).toBe(2);
+
+    const listing = JSON.parse(resultText(await client.callTool({
+      name: 'list_thinking_sessions',
+      arguments: { forkTree: fork.sessionId },
+    })));
+    expect(listing.total).toBe(2);
+    expect(listing.tree).toMatchObject({
+      sessionId: first.sessionId,
+      children: [{ sessionId: fork.sessionId, atThought: 1, children: [] }],
+    });
+    await client.close();
+  });
+
+  it('should start and finalize a session with an outcome', async () => {
+    const client = await connectStdio(dataPath);
+    const started = JSON.parse(resultText(await client.callTool({
+      name: 'start_thinking_session',
+      arguments: { metadata: { project: 'api' }, tags: ['auth'] },
+    })));
+    expect(started).toMatchObject({ status: 'active', metadata: { project: 'api', tags: ['auth'] } });
+    await think(client, { thoughtNumber: 1, sessionId: started.id });
+
+    const finalized = JSON.parse(resultText(await client.callTool({
+      name: 'finalize_thinking_session',
+      arguments: { sessionId: started.id, outcome: 'abandoned', agentSummary: 'Wrong approach' },
+    })));
+    expect(finalized).toMatchObject({ status: 'completed', outcome: 'abandoned', agentSummary: 'Wrong approach' });
+
+    const doc = await new FileStorage(dataPath).getDocumentation(started.id);
+    expect(doc?.summary).toMatch(/^Session abandoned with 1 thoughts/);
+    await client.close();
+  });
+
+  it('should plan and tick off tasks', async () => {
+    const client = await connectStdio(dataPath);
+    const { sessionId } = await think(client, { thoughtNumber: 1 });
+    await think(client, { thoughtNumber: 2, sessionId });
+    const call = async (name: string, args: Record<string, unknown>) =>
+      JSON.parse(resultText(await client.callTool({ name, arguments: { sessionId, ...args } })));
+
+    await call('create_task', { taskId: 'schema', taskTitle: 'Design schema' });
+    await call('create_task', { taskId: 'api', taskTitle: 'Build API' });
+    await call('update_task', { taskId: 'schema', status: 'in_progress' });
+    const done = await call('update_task', { taskId: 'schema', status: 'completed' });
+    expect(done).toMatchObject({ status: 'completed', completedAtThought: 2 });
+
+    expect((await call('list_tasks', { status: 'pending' })).tasks.map((t: { taskId: string }) => t.taskId)).toEqual(['api']);
+    expect(await call('get_task', { taskId: 'api' })).toMatchObject({ taskTitle: 'Build API', status: 'pending' });
+
+    await call('create_task', { taskId: 'docs', taskTitle: 'Write docs', blockedBy: ['api'] });
+    const actionable = await call('list_tasks', { actionable: true });
+    expect(actionable.tasks.map((t: { taskId: string }) => t.taskId)).toEqual(['api']);
+    const cycle = await client.callTool({ name: 'update_task', arguments: { sessionId, taskId: 'api', blockedBy: ['docs'] } });
+    expect(resultText(cycle)).toContain('Dependency cycle');
+
+    const missing = await client.callTool({ name: 'get_task', arguments: { sessionId, taskId: 'nope' } });
+    expect(missing.isError).toBe(true);
+    expect(resultText(missing)).toContain('Task not found');
+    await client.close();
+  });
+
+  it('should link tasks to the thoughts that named them', async () => {
+    const client = await connectStdio(dataPath);
+    const { sessionId } = await think(client, { thought: 'Plan the API', thoughtNumber: 1, taskContext: { taskId: 'api', taskTitle: 'Build API' } });
+    await think(client, { thought: 'Unrelated', thoughtNumber: 2, sessionId });
+    await think(client, { thought: 'Routes done', thoughtNumber: 3, sessionId, taskContext: { taskId: 'api', commitTask: true } });
+    const call = async (name: string, args: Record<string, unknown>) =>
+      JSON.parse(resultText(await client.callTool({ name, arguments: { sessionId, ...args } })));
+
+    const links = await call('get_task_thoughts', { taskId: 'api' });
+    expect(links.created.thought).toBe('Plan the API');
+    expect(links.referenced.map((t: { thoughtNumber: number }) => t.thoughtNumber)).toEqual([1, 3]);
+    expect(links.completed.thought).toBe('Routes done');
+
+    const touched = await call('get_thought_tasks', { thoughtNumber: 3 });
+    expect(touched.tasks).toEqual([expect.objectContaining({ roles: ['referenced', 'completed'] })]);
+    expect((await call('get_thought_tasks', { thoughtNumber: 2 })).tasks).toEqual([]);
+    await client.close();
+  });
+
+  it('should start sessions from templates', async () => {
+    const templatesPath = await mkdtemp(join(tmpdir(), 'devpattern-templates-'));
+    await writeFile(join(templatesPath, 'triage.yaml'), [
+      'description: Bug triage',
+      'tags: [bug]',
+      'metadata: { team: core }',
+      'totalThoughts: 6',
+      'tasks:',
+      '  - { taskId: repro, taskTitle: Reproduce }',
+      '  - { taskId: fix, taskTitle: Fix, blockedBy: [repro] }',
+      'documentation: { title: Bug Triage }',
+    ].join('\n'));
+    const client = await connectStdio(dataPath, { templatesPath });
+    const call = async (name: string, args: Record<string, unknown>) =>
+      JSON.parse(resultText(await client.callTool({ name, arguments: args })));
+
+    const { templates } = await call('list_session_templates', {});
+    expect(templates).toEqual([{ name: 'triage', description: 'Bug triage', tags: ['bug'], totalThoughts: 6, taskCount: 2 }]);
+
+    const { session, tasks } = await call('start_thinking_session_from_template', { template: 'triage', tags: ['urgent'], metadata: { ticket: 'BUG-1' } });
+    expect(session.metadata).toEqual({ team: 'core', ticket: 'BUG-1', tags: ['bug', 'urgent'] });
+    expect(session.template).toMatchObject({ name: 'triage', totalThoughts: 6 });
+    expect(tasks.map((t: { taskId: string; status: string }) => [t.taskId, t.status])).toEqual([['repro', 'pending'], ['fix', 'pending']]);
+
+    const briefing = await call('resume_thinking_session', { sessionId: session.id });
+    expect(briefing).toMatchObject({ nextThoughtNumber: 1, totalThoughts: 6 });
+
+    const missing = await client.callTool({ name: 'start_thinking_session_from_template', arguments: { template: 'nope' } });
+    expect(resultText(missing)).toContain('Template not found: nope');
+    await client.close();
+    await rm(templatesPath, { recursive: true, force: true });
+  });
+});
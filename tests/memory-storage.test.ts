@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryStorage } from '../src/context-layer/storage/memory-storage.js';
+import { ContextStore } from '../src/context-layer/context-store.js';
+import { TaskManager } from '../src/context-layer/task-manager.js';
+import { DocumentationGenerator } from '../src/context-layer/documentation.js';
+import { ContextLayer } from '../src/context-layer/index.js';
+
+describe('MemoryStorage', () => {
+  let storage: MemoryStorage;
+  let store: ContextStore;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    store = new ContextStore(storage);
+  });
+
+  it('should isolate stored records from caller mutation', async () => {
+    const sessionId = await store.createSession();
+
+    const session = await storage.getSession(sessionId);
+    session!.thoughtCount = 99;
+
+    expect((await storage.getSession(sessionId))?.thoughtCount).toBe(0);
+  });
+
+  it('should remove all records when a session is deleted', async () => {
+    const sessionId = await store.createSession();
+    await store.saveThought({ sessionId, thought: 'T', thoughtNumber: 1, totalThoughts: 1, timestamp: new Date() });
+
+    await storage.deleteSession(sessionId);
+
+    expect(await storage.getSession(sessionId)).toBeNull();
+    expect(await storage.getThoughts(sessionId)).toEqual([]);
+  });
+
+  describe('snapshot/restore', () => {
+    it('should round-trip sessions, thoughts, tasks and documentation', async () => {
+      const sessionId = await store.createSession({ topic: 'snapshots' });
+      await store.saveThought({ sessionId, thought: 'Only thought', thoughtNumber: 1, totalThoughts: 1, timestamp: new Date() });
+      await new TaskManager(storage).commitTask({ sessionId, taskTitle: 'Done', completedAtThought: 1 });
+      await new DocumentationGenerator(storage).generate(sessionId);
+
+      const restored = new MemoryStorage();
+      restored.restore(storage.snapshot());
+
+      const session = await restored.getSession(sessionId);
+      expect(session?.metadata).toEqual({ topic: 'snapshots' });
+      expect(session?.status).toBe('completed');
+      expect(session?.createdAt).toBeInstanceOf(Date);
+
+      const thoughts = await restored.getThoughts(sessionId);
+      expect(thoughts[0].thought).toBe('Only thought');
+      expect(thoughts[0].timestamp).toBeInstanceOf(Date);
+
+      const tasks = await restored.getTasks(sessionId);
+      expect(tasks[0].completedAt).toBeInstanceOf(Date);
+
+      const doc = await restored.getDocumentation(sessionId);
+      expect(doc?.generatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should replace existing state on restore', async () => {
+      const empty = new MemoryStorage().snapshot();
+      await store.createSession();
+
+      storage.restore(empty);
+
+      expect(await storage.listSessions()).toEqual([]);
+    });
+
+    it('should validate every record type on restore', async () => {
+      const sessionId = await store.createSession();
+      await store.saveThought({ sessionId, thought: 'T', thoughtNumber: 1, totalThoughts: 1, timestamp: new Date() });
+      const bundle = JSON.parse(storage.snapshot());
+      bundle.thoughts[sessionId][0].thoughtNumber = 'one';
+
+      expect(() => new MemoryStorage().restore(JSON.stringify(bundle))).toThrow();
+    });
+
+    it('should reject bundles with an unknown version', () => {
+      const bundle = JSON.parse(storage.snapshot());
+      bundle.version = 99;
+
+      expect(() => storage.restore(JSON.stringify(bundle))).toThrow(/Unsupported snapshot version/);
+    });
+  });
+});
+
+describe('ContextLayer in ephemeral mode', () => {
+  it('should keep sessions in memory without a usable data path', async () => {
+    const layer = new ContextLayer({ dataPath: '/nonexistent/devpattern', ephemeral: true });
+
+    const sessionId = await layer.createSession();
+    await layer.persistThought({ sessionId, thought: 'T', thoughtNumber: 1, totalThoughts: 1, timestamp: new Date() });
+
+    const context = await layer.getContext(sessionId);
+    expect(context.thoughts).toHaveLength(1);
+    expect(await layer.listSessions()).toHaveLength(1);
+  });
+});
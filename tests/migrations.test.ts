@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, mkdir, writeFile, readFile, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { migrateDataDirectory } from '../src/context-layer/storage/migrations.js';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { FORMAT_VERSION } from '../src/context-layer/storage/format.js';
+import { UnsupportedFormatVersionError } from '../src/context-layer/storage/errors.js';
+
+const legacySession = {
+  id: 'legacy',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  status: 'completed',
+  thoughtCount: 2,
+  taskCount: 1,
+};
+
+const legacyThoughts = [1, 2].map(n => ({
+  sessionId: 'legacy',
+  thought: `Thought ${n}`,
+  thoughtNumber: n,
+  totalThoughts: 2,
+  timestamp: '2024-01-01T00:00:00.000Z',
+}));
+
+const legacyTasks = [{
+  sessionId: 'legacy',
+  taskId: 't1',
+  taskTitle: 'Task',
+  completedAtThought: 2,
+  status: 'completed',
+  createdAt: '2024-01-01T00:00:00.000Z',
+}];
+
+describe('migrateDataDirectory', () => {
+  let dataPath: string;
+  const sessionDir = (id: string) => join(dataPath, 'sessions', id);
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-migrate-'));
+    await mkdir(sessionDir('legacy'), { recursive: true });
+    await writeFile(join(sessionDir('legacy'), 'session.json'), JSON.stringify(legacySession), 'utf-8');
+    await writeFile(join(sessionDir('legacy'), 'thoughts.json'), JSON.stringify(legacyThoughts), 'utf-8');
+    await writeFile(join(sessionDir('legacy'), 'tasks.json'), JSON.stringify(legacyTasks), 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should report pending changes without touching files in dry-run mode', async () => {
+    const report = await migrateDataDirectory(dataPath, { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.sessionsScanned).toBe(1);
+    expect(report.sessionsMigrated).toBe(1);
+    expect(report.actions.map(a => a.file)).toEqual(['thoughts.json', 'tasks.json', 'session.json']);
+    expect((await readdir(sessionDir('legacy'))).sort()).toEqual(['session.json', 'tasks.json', 'thoughts.json']);
+  });
+
+  it('should upgrade a legacy session in place', async () => {
+    const report = await migrateDataDirectory(dataPath);
+
+    expect(report.errors).toEqual([]);
+    expect((await readdir(sessionDir('legacy'))).sort()).toEqual(['session.json', 'tasks.jsonl', 'thoughts.jsonl']);
+
+    const raw = JSON.parse(await readFile(join(sessionDir('legacy'), 'session.json'), 'utf-8'));
+    expect(raw.formatVersion).toBe(FORMAT_VERSION);
+
+    const storage = new FileStorage(dataPath);
+    expect((await storage.getThoughts('legacy')).map(t => t.thoughtNumber)).toEqual([1, 2]);
+    expect((await storage.getTasks('legacy')).map(t => t.taskId)).toEqual(['t1']);
+  });
+
+  it('should be idempotent', async () => {
+    await migrateDataDirectory(dataPath);
+    const second = await migrateDataDirectory(dataPath);
+
+    expect(second.sessionsMigrated).toBe(0);
+    expect(second.actions).toEqual([]);
+  });
+
+  it('should add a header to unversioned logs', async () => {
+    await rm(join(sessionDir('legacy'), 'thoughts.json'));
+    await writeFile(
+      join(sessionDir('legacy'), 'thoughts.jsonl'),
+      legacyThoughts.map(t => JSON.stringify(t)).join('\n') + '\n',
+      'utf-8'
+    );
+
+    const report = await migrateDataDirectory(dataPath);
+
+    expect(report.actions.find(a => a.file === 'thoughts.jsonl')?.description).toBe('add format header');
+    const firstLine = (await readFile(join(sessionDir('legacy'), 'thoughts.jsonl'), 'utf-8')).split('\n')[0];
+    expect(JSON.parse(firstLine)).toEqual({ formatVersion: FORMAT_VERSION });
+  });
+
+  it('should report sessions written in a newer format as errors', async () => {
+    await writeFile(
+      join(sessionDir('legacy'), 'session.json'),
+      JSON.stringify({ ...legacySession, formatVersion: FORMAT_VERSION + 1 }),
+      'utf-8'
+    );
+
+    const report = await migrateDataDirectory(dataPath);
+
+    expect(report.errors).toHaveLength(1);
+    expect(report.errors[0].sessionId).toBe('legacy');
+  });
+});
+
+describe('FileStorage format versions', () => {
+  let dataPath: string;
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-format-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should refuse to overwrite a file written in a newer format', async () => {
+    const dir = join(dataPath, 'sessions', 'future');
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      join(dir, 'session.json'),
+      JSON.stringify({ ...legacySession, id: 'future', formatVersion: FORMAT_VERSION + 1 }),
+      'utf-8'
+    );
+    const storage = new FileStorage(dataPath);
+
+    const session = await storage.getSession('future');
+
+    await expect(storage.updateSession(session!)).rejects.toThrow(UnsupportedFormatVersionError);
+  });
+
+  it('should refuse to append to a log written in a newer format', async () => {
+    const dir = join(dataPath, 'sessions', 'future');
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'session.json'), JSON.stringify({ ...legacySession, id: 'future' }), 'utf-8');
+    await writeFile(join(dir, 'thoughts.jsonl'), `{"formatVersion":${FORMAT_VERSION + 1}}\n`, 'utf-8');
+    const storage = new FileStorage(dataPath);
+
+    await expect(storage.saveThought({ ...legacyThoughts[0], sessionId: 'future', timestamp: new Date() }))
+      .rejects.toThrow(UnsupportedFormatVersionError);
+  });
+});
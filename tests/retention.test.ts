@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryStorage } from '../src/context-layer/storage/memory-storage.js';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import {
+  collectGarbage,
+  matchRetentionRule,
+  parseRetentionPolicy,
+  type RetentionPolicy,
+} from '../src/context-layer/retention.js';
+import type { Session } from '../src/context-layer/types.js';
+import type { Storage } from '../src/context-layer/storage/storage.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2024-06-01T00:00:00Z');
+
+function makeSession(id: string, daysAgo: number, overrides: Partial<Session> = {}): Session {
+  const updatedAt = new Date(now.getTime() - daysAgo * DAY);
+  return { id, createdAt: updatedAt, updatedAt, status: 'finalized', thoughtCount: 1, taskCount: 0, ...overrides };
+}
+
+async function seed(storage: Storage, session: Session, withDocs = true): Promise<void> {
+  await storage.createSession(session);
+  await storage.saveThought({ sessionId: session.id, thought: 'T', thoughtNumber: 1, totalThoughts: 1, timestamp: now });
+  if (withDocs) {
+    await storage.saveDocumentation({
+      sessionId: session.id, generatedAt: now, summary: 'S',
+      thoughtCount: 1, taskCount: 0, branches: [], content: '# Doc',
+    });
+  }
+}
+
+const policy: RetentionPolicy = parseRetentionPolicy({
+  rules: [
+    { name: 'abandoned', outcome: 'abandoned', olderThanDays: 30, action: 'delete' },
+    { name: 'docs only', status: ['completed', 'finalized'], olderThanDays: 90, action: 'keep-documentation' },
+    { name: 'expire', olderThanDays: 365, action: 'delete' },
+  ],
+});
+
+describe('retention policy', () => {
+  it('should pick the first matching rule', () => {
+    expect(matchRetentionRule(policy, makeSession('a', 31, { outcome: 'abandoned' }), now)?.name).toBe('abandoned');
+    expect(matchRetentionRule(policy, makeSession('b', 29, { outcome: 'abandoned' }), now)).toBeUndefined();
+    expect(matchRetentionRule(policy, makeSession('c', 100, { outcome: 'completed' }), now)?.name).toBe('docs only');
+    expect(matchRetentionRule(policy, makeSession('d', 100, { status: 'active' }), now)).toBeUndefined();
+  });
+
+  it('should pass over keep-documentation rules for pruned sessions', () => {
+    expect(matchRetentionRule(policy, makeSession('a', 100, { prunedAt: now }), now)).toBeUndefined();
+    expect(matchRetentionRule(policy, makeSession('b', 400, { prunedAt: now }), now)?.name).toBe('expire');
+  });
+
+  it('should match on autoFinalized', () => {
+    const autoPolicy = parseRetentionPolicy({ rules: [{ autoFinalized: true, olderThanDays: 7, action: 'delete' }] });
+    expect(matchRetentionRule(autoPolicy, makeSession('a', 8, { autoFinalized: true }), now)).toBeDefined();
+    expect(matchRetentionRule(autoPolicy, makeSession('b', 8), now)).toBeUndefined();
+  });
+
+  it('should reject invalid policies', () => {
+    expect(() => parseRetentionPolicy({ rules: [{ olderThanDays: 1, action: 'shred' }] })).toThrow(/rules\.0\.action/);
+    expect(() => parseRetentionPolicy({ rules: [{ olderThanDays: 1, action: 'delete', outcom: 'x' }] })).toThrow();
+  });
+});
+
+describe('collectGarbage', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    await seed(storage, makeSession('abandoned', 40, { outcome: 'abandoned', autoFinalized: true }));
+    await seed(storage, makeSession('old', 120, { outcome: 'completed' }));
+    await seed(storage, makeSession('undocumented', 120, { outcome: 'completed' }), false);
+    await seed(storage, makeSession('recent', 5, { outcome: 'abandoned' }));
+  });
+
+  it('should report without changing anything on a dry run', async () => {
+    const report = await collectGarbage(storage, policy, { dryRun: true, now });
+
+    expect(report.sessionsScanned).toBe(4);
+    expect(report.actions).toEqual([
+      { sessionId: 'abandoned', rule: 'abandoned', action: 'delete' },
+      { sessionId: 'old', rule: 'docs only', action: 'keep-documentation' },
+    ]);
+    expect(report.skipped).toEqual([{ sessionId: 'undocumented', rule: 'docs only', reason: 'no documentation' }]);
+    expect(await storage.listSessions()).toHaveLength(4);
+    expect(await storage.getThoughts('old')).toHaveLength(1);
+  });
+
+  it('should delete and prune sessions', async () => {
+    const report = await collectGarbage(storage, policy, { now });
+
+    expect(report.errors).toEqual([]);
+    expect(await storage.getSession('abandoned')).toBeNull();
+    expect(await storage.getThoughts('old')).toEqual([]);
+    expect((await storage.getDocumentation('old'))?.content).toBe('# Doc');
+    expect((await storage.getSession('old'))?.prunedAt).toBeInstanceOf(Date);
+    expect(await storage.getThoughts('recent')).toHaveLength(1);
+
+    const again = await collectGarbage(storage, policy, { now });
+    expect(again.actions).toEqual([]);
+  });
+});
+
+describe('FileStorage.pruneSession', () => {
+  let dataPath: string;
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-retention-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  it('should keep only the session record and documentation, including for archived sessions', async () => {
+    const storage = new FileStorage(dataPath);
+    await seed(storage, makeSession('old', 120, { outcome: 'completed' }));
+    await storage.saveTask({
+      sessionId: 'old', taskId: 't1', taskTitle: 'Task', completedAtThought: 1, status: 'completed', createdAt: now,
+    });
+    await storage.archiveSessions();
+
+    const report = await collectGarbage(storage, policy, { now });
+
+    expect(report.actions.map(a => a.sessionId)).toEqual(['old']);
+    const files = (await readdir(join(dataPath, 'sessions', 'old'))).sort();
+    expect(files).toEqual(['documentation.json', 'session.json']);
+    expect(await storage.getTasks('old')).toEqual([]);
+    expect((await storage.getSession('old'))?.prunedAt).toBeInstanceOf(Date);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { SequentialThinkingServer } from '../src/sequential-thinking/lib.js';
+import { SequentialThinkingServer, parseReferenceValidationMode } from '../src/sequential-thinking/lib.js';
 import type { ThoughtData } from '../src/sequential-thinking/types.js';
 
 describe('SequentialThinkingServer', () => {
@@ -157,5 +157,133 @@ describe('SequentialThinkingServer', () => {
       expect(history[1].thought).toBe('Second');
     });
   });
+
+  describe('sessions', () => {
+    const thought = (thoughtNumber: number, extra: Partial<ThoughtData> = {}): ThoughtData => ({
+      thought: `Thought ${thoughtNumber}`,
+      thoughtNumber,
+      totalThoughts: 3,
+      nextThoughtNeeded: true,
+      ...extra,
+    });
+
+    it('should keep history and branches separate per session', () => {
+      server.processThought(thought(1), 'a');
+      server.processThought(thought(2, { branchFromThought: 1, branchId: 'alt' }), 'a');
+      const result = server.processThought(thought(1), 'b');
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.thoughtHistoryLength).toBe(1);
+      expect(parsed.branches).toEqual([]);
+      expect(server.getThoughtHistory('a')).toHaveLength(2);
+      expect(Object.keys(server.getBranches('a'))).toEqual(['alt']);
+      expect(server.getThoughtHistory()).toEqual([]);
+    });
+
+    it('should evict a session when it completes', () => {
+      server.processThought(thought(1), 'a');
+      const result = server.processThought(thought(2, { nextThoughtNeeded: false }), 'a');
+
+      expect(JSON.parse(result.content[0].text).thoughtHistoryLength).toBe(2);
+      expect(server.hasSession('a')).toBe(false);
+    });
+
+    it('should rebuild a session from earlier thoughts', () => {
+      server.restoreSession('a', [thought(1), thought(2, { branchFromThought: 1, branchId: 'alt' })]);
+      const result = server.processThought(thought(3), 'a');
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(parsed.thoughtHistoryLength).toBe(3);
+      expect(parsed.branches).toEqual(['alt']);
+    });
+
+    it('should track which persisted revision a session was synced with', () => {
+      server.restoreSession('a', [thought(1)], 'r1');
+      expect(server.isCurrent('a', 'r1')).toBe(true);
+
+      server.processThought(thought(2), 'a');
+      server.setRevision('a', 'r2');
+      expect(server.isCurrent('a', 'r1')).toBe(false);
+      expect(server.isCurrent('a', 'r2')).toBe(true);
+      expect(server.isCurrent('b', 'r2')).toBe(false);
+    });
+
+    it('should evict the least recently used session beyond maxSessions', () => {
+      server = new SequentialThinkingServer({ maxSessions: 2 });
+      server.processThought(thought(1), 'a');
+      server.processThought(thought(1), 'b');
+      server.processThought(thought(2), 'a');
+      server.processThought(thought(1), 'c');
+
+      expect(server.hasSession('a')).toBe(true);
+      expect(server.hasSession('b')).toBe(false);
+      expect(server.hasSession('c')).toBe(true);
+    });
+  });
+
+  describe('reference validation', () => {
+    const thought = (thoughtNumber: number, extra: Partial<ThoughtData> = {}): ThoughtData => ({
+      thought: `Thought ${thoughtNumber}`,
+      thoughtNumber,
+      totalThoughts: 5,
+      nextThoughtNeeded: true,
+      ...extra,
+    });
+
+    const codes = (result: { content: Array<{ text: string }> }, key: 'issues' | 'warnings') =>
+      (JSON.parse(result.content[0].text)[key] ?? []).map((issue: { code: string }) => issue.code);
+
+    it('should warn about invalid references by default and still record the thought', () => {
+      server.processThought(thought(1), 'a');
+      const result = server.processThought(thought(2, { isRevision: true, revisesThought: 99 }), 'a');
+
+      expect(result.isError).toBeUndefined();
+      expect(codes(result, 'warnings')).toEqual(['REVISION_TARGET_NOT_FOUND']);
+      expect(server.getThoughtHistory('a')).toHaveLength(2);
+    });
+
+    it('should reject invalid references in strict mode with error codes', () => {
+      server = new SequentialThinkingServer({ referenceValidation: 'strict' });
+      server.processThought(thought(1), 'a');
+
+      const cases: Array<[Partial<ThoughtData>, string[]]> = [
+        [{ isRevision: true }, ['REVISION_TARGET_MISSING']],
+        [{ revisesThought: 1 }, ['REVISION_FLAG_MISSING']],
+        [{ isRevision: true, revisesThought: 99 }, ['REVISION_TARGET_NOT_FOUND']],
+        [{ branchFromThought: 1 }, ['BRANCH_ID_MISSING']],
+        [{ branchFromThought: 7, branchId: 'alt' }, ['BRANCH_SOURCE_NOT_FOUND']],
+        [{ branchId: 'alt' }, ['BRANCH_NOT_FOUND']],
+      ];
+      for (const [extra, expected] of cases) {
+        const result = server.processThought(thought(2, extra), 'a');
+        expect(result.isError).toBe(true);
+        expect(codes(result, 'issues')).toEqual(expected);
+      }
+      expect(server.getThoughtHistory('a')).toHaveLength(1);
+    });
+
+    it('should accept valid references in strict mode', () => {
+      server = new SequentialThinkingServer({ referenceValidation: 'strict' });
+      server.processThought(thought(1), 'a');
+
+      expect(server.processThought(thought(2, { isRevision: true, revisesThought: 1 }), 'a').isError).toBeUndefined();
+      expect(server.processThought(thought(3, { branchFromThought: 1, branchId: 'alt' }), 'a').isError).toBeUndefined();
+      expect(server.processThought(thought(4, { branchId: 'alt' }), 'a').isError).toBeUndefined();
+    });
+
+    it('should check the first thought of a new session without recording it', () => {
+      server = new SequentialThinkingServer({ referenceValidation: 'strict' });
+
+      expect(server.checkThought(thought(1))).toBeNull();
+      expect(server.checkThought(thought(1, { isRevision: true, revisesThought: 1 }))?.isError).toBe(true);
+      expect(server.hasSession('a')).toBe(false);
+    });
+
+    it('should parse validation modes', () => {
+      expect(parseReferenceValidationMode(undefined)).toBe('warn');
+      expect(parseReferenceValidationMode('strict')).toBe('strict');
+      expect(() => parseReferenceValidationMode('loud')).toThrow('Invalid thought validation mode');
+    });
+  });
 });
 
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { querySessions, buildForkTree, type SessionQuery } from '../src/context-layer/session-query.js';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { SqliteStorage } from '../src/context-layer/storage/sqlite-storage.js';
+import type { Storage } from '../src/context-layer/storage/storage.js';
+import type { Session } from '../src/context-layer/types.js';
+
+function makeSession(id: string, day: number, overrides: Partial<Session> = {}): Session {
+  return {
+    id,
+    createdAt: new Date(Date.UTC(2024, 0, day)),
+    updatedAt: new Date(Date.UTC(2024, 1, day)),
+    status: 'active',
+    thoughtCount: 0,
+    taskCount: 0,
+    ...overrides,
+  };
+}
+
+describe('querySessions', () => {
+  const sessions = [
+    makeSession('a', 1, { metadata: { tags: ['auth'], project: 'api' } }),
+    makeSession('b', 2, { status: 'completed', metadata: { tags: ['auth', 'db'] } }),
+    makeSession('c', 3, { status: 'finalized', metadata: { project: 'web' } }),
+    makeSession('d', 4),
+  ];
+
+  it('should sort by createdAt ascending by default', () => {
+    const page = querySessions(sessions);
+    expect(page.sessions.map(s => s.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(page.total).toBe(4);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('should filter by status, tag, metadata and date range', () => {
+    expect(querySessions(sessions, { status: 'completed' }).sessions.map(s => s.id)).toEqual(['b']);
+    expect(querySessions(sessions, { tag: 'auth' }).sessions.map(s => s.id)).toEqual(['a', 'b']);
+    expect(querySessions(sessions, { metadata: { project: 'web' } }).sessions.map(s => s.id)).toEqual(['c']);
+    expect(querySessions(sessions, {
+      createdAfter: new Date(Date.UTC(2024, 0, 2)),
+      updatedBefore: new Date(Date.UTC(2024, 1, 3)),
+    }).sessions.map(s => s.id)).toEqual(['b', 'c']);
+  });
+
+  it('should page through results with a cursor', () => {
+    const query = { sortBy: 'updatedAt' as const, order: 'desc' as const, limit: 3 };
+    const first = querySessions(sessions, query);
+    expect(first.sessions.map(s => s.id)).toEqual(['d', 'c', 'b']);
+    expect(first.total).toBe(4);
+
+    const second = querySessions(sessions, { ...query, cursor: first.nextCursor });
+    expect(second.sessions.map(s => s.id)).toEqual(['a']);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should not repeat sessions added between pages', () => {
+    const first = querySessions(sessions, { limit: 2 });
+    const grown = [...sessions, makeSession('e', 0)];
+
+    const second = querySessions(grown, { limit: 2, cursor: first.nextCursor });
+    expect(second.sessions.map(s => s.id)).toEqual(['c', 'd']);
+  });
+
+  it('should include tags and ISO dates in summaries', () => {
+    const [summary] = querySessions(sessions, { limit: 1 }).sessions;
+    expect(summary).toMatchObject({ id: 'a', tags: ['auth'], createdAt: '2024-01-01T00:00:00.000Z' });
+  });
+
+  it('should reject an invalid cursor', () => {
+    expect(() => querySessions(sessions, { cursor: 'nope' })).toThrow('Invalid cursor');
+  });
+});
+
+describe('fork trees', () => {
+  const fork = (sessionId: string, atThought: number) => ({ sessionId, atThought, createdAt: new Date() });
+  const sessions = [
+    makeSession('root', 1, { forks: [fork('f1', 2), fork('f2', 3)] }),
+    makeSession('f1', 2, { forkedFrom: fork('root', 2), forks: [fork('f1a', 1)] }),
+    makeSession('f2', 3, { forkedFrom: fork('root', 3) }),
+    makeSession('f1a', 4, { forkedFrom: fork('f1', 1) }),
+    makeSession('other', 5),
+  ];
+
+  it('should build the tree from any member', () => {
+    expect(buildForkTree(sessions, 'f1a')).toEqual({
+      sessionId: 'root',
+      status: 'active',
+      children: [
+        { sessionId: 'f1', status: 'active', atThought: 2, children: [
+          { sessionId: 'f1a', status: 'active', atThought: 1, children: [] },
+        ] },
+        { sessionId: 'f2', status: 'active', atThought: 3, children: [] },
+      ],
+    });
+  });
+
+  it('should limit a query to one tree and return it', () => {
+    const page = querySessions(sessions, { forkTree: 'f2' });
+
+    expect(page.sessions.map(s => s.id)).toEqual(['root', 'f1', 'f2', 'f1a']);
+    expect(page.tree?.sessionId).toBe('root');
+    expect(page.sessions[0].forks).toEqual(['f1', 'f2']);
+    expect(page.sessions[1].forkedFrom).toBe('root');
+  });
+
+  it('should survive a lineage cycle', () => {
+    const cyclic = [
+      makeSession('x', 1, { forkedFrom: fork('y', 1) }),
+      makeSession('y', 2, { forkedFrom: fork('x', 1) }),
+    ];
+
+    expect(buildForkTree(cyclic, 'x').children.map(c => c.sessionId)).toEqual(['x']);
+  });
+});
+
+describe.each([
+  ['file', async (dir: string): Promise<Storage> => new FileStorage(dir)],
+  ['sqlite', async (dir: string): Promise<Storage> => new SqliteStorage(join(dir, 'sessions.db'))],
+])('%s storage querySessions', (_name, open) => {
+  let dir: string;
+  let storage: Storage;
+  const sessions = [
+    makeSession('a', 1, { metadata: { tags: ['auth'], project: 'api', owner: { team: 'core' } } }),
+    makeSession('b', 2, { status: 'completed', metadata: { tags: ['auth', 'db'] } }),
+    makeSession('c', 3, { status: 'finalized', metadata: { project: 'web' } }),
+    makeSession('d', 4),
+    makeSession('e', 4, { updatedAt: new Date(Date.UTC(2024, 1, 4)) }),
+  ];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'devpattern-query-'));
+    storage = await open(dir);
+    for (const session of sessions) await storage.createSession(session);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should match the in-memory query', async () => {
+    const queries: SessionQuery[] = [
+      {},
+      { status: 'completed' },
+      { tag: 'auth' },
+      { metadata: { project: 'api', owner: { team: 'core' } } },
+      { createdAfter: new Date(Date.UTC(2024, 0, 2)), updatedBefore: new Date(Date.UTC(2024, 1, 3)) },
+      { sortBy: 'updatedAt', order: 'desc' },
+    ];
+    for (const query of queries) {
+      expect(await storage.querySessions!(query)).toEqual(querySessions(sessions, query));
+    }
+  });
+
+  it('should page with the same cursors as the in-memory query', async () => {
+    for (const order of ['asc', 'desc'] as const) {
+      const query: SessionQuery = { order, limit: 2 };
+      let cursor: string | undefined;
+      do {
+        const page = await storage.querySessions!({ ...query, cursor });
+        expect(page).toEqual(querySessions(sessions, { ...query, cursor }));
+        cursor = page.nextCursor;
+      } while (cursor);
+    }
+  });
+
+  it('should see sessions written since the last query', async () => {
+    expect((await storage.querySessions!({})).total).toBe(5);
+    await storage.createSession(makeSession('f', 5));
+    await storage.updateSession({ ...sessions[0], status: 'completed' });
+
+    expect((await storage.querySessions!({ status: 'completed' })).sessions.map(s => s.id)).toEqual(['a', 'b']);
+    expect((await storage.querySessions!({})).total).toBe(6);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SqliteStorage } from '../src/context-layer/storage/sqlite-storage.js';
+import { ContextStore } from '../src/context-layer/context-store.js';
+import { TaskManager } from '../src/context-layer/task-manager.js';
+
+// Behaviour shared with the other backends is covered by the suites that run
+// over every backend (context-store, task-manager, session-query)
+describe('SqliteStorage', () => {
+  describe('persistence', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'devpattern-sqlite-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should revive dates and survive reopening the database file', async () => {
+      const dbPath = join(dir, 'nested', 'devpattern.db');
+      const first = new SqliteStorage(dbPath);
+      const sessionId = await new ContextStore(first).createSession();
+      await first.saveDocumentation({
+        sessionId,
+        generatedAt: new Date(),
+        summary: 'Summary',
+        thoughtCount: 0,
+        taskCount: 0,
+        branches: [],
+        content: '# Doc',
+      });
+      first.close();
+
+      const second = new SqliteStorage(dbPath);
+      const session = await second.getSession(sessionId);
+      const doc = await second.getDocumentation(sessionId);
+      second.close();
+
+      expect(session?.createdAt).toBeInstanceOf(Date);
+      expect(doc?.generatedAt).toBeInstanceOf(Date);
+      expect(doc?.content).toBe('# Doc');
+    });
+
+    it('should delete a session with all its records', async () => {
+      const dbPath = join(dir, 'devpattern.db');
+      const sqlite = new SqliteStorage(dbPath);
+      const sessionId = await new ContextStore(sqlite).createSession();
+      await sqlite.saveThought({ sessionId, thought: 'T', thoughtNumber: 1, totalThoughts: 1, timestamp: new Date() });
+
+      await sqlite.deleteSession(sessionId);
+
+      expect(await sqlite.getSession(sessionId)).toBeNull();
+      expect(await sqlite.getThoughts(sessionId)).toEqual([]);
+      sqlite.close();
+    });
+
+    it('should prune thoughts and tasks but keep the session', async () => {
+      const sqlite = new SqliteStorage(join(dir, 'devpattern.db'));
+      const sessionId = await new ContextStore(sqlite).createSession();
+      await sqlite.saveThought({ sessionId, thought: 'T', thoughtNumber: 1, totalThoughts: 1, timestamp: new Date() });
+      await new TaskManager(sqlite).createTask({ sessionId, taskTitle: 'Task' });
+
+      await sqlite.pruneSession(sessionId);
+
+      expect(await sqlite.getSession(sessionId)).not.toBeNull();
+      expect(await sqlite.getThoughts(sessionId)).toEqual([]);
+      expect(await sqlite.getTasks(sessionId)).toEqual([]);
+      sqlite.close();
+    });
+  });
+});
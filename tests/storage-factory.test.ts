@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { createStorage, loadStorage } from '../src/context-layer/storage/factory.js';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { MemoryStorage } from '../src/context-layer/storage/memory-storage.js';
+import { SqliteStorage } from '../src/context-layer/storage/sqlite-storage.js';
+import { RecordCipher } from '../src/context-layer/storage/encryption.js';
+import { ContextLayer } from '../src/context-layer/index.js';
+import { TaggedStorage } from './fixtures/custom-storage.js';
+
+describe('createStorage', () => {
+  it('should create built-in backends by name', () => {
+    expect(createStorage('file', { dataPath: '/tmp/devpattern' })).toBeInstanceOf(FileStorage);
+    expect(createStorage('memory', { dataPath: '/tmp/devpattern' })).toBeInstanceOf(MemoryStorage);
+  });
+
+  it('should refuse encryption for backends that do not support it', () => {
+    const cipher = new RecordCipher(randomBytes(32));
+    expect(createStorage('file', { dataPath: '/tmp/devpattern', cipher })).toBeInstanceOf(FileStorage);
+    expect(() => createStorage('memory', { dataPath: '/tmp/devpattern', cipher })).toThrow(/not supported/);
+  });
+});
+
+describe('loadStorage', () => {
+  it('should resolve built-in backend names', async () => {
+    const storage = await loadStorage('memory', { dataPath: '/tmp/devpattern' });
+    expect(storage).toBeInstanceOf(MemoryStorage);
+  });
+
+  it('should load a custom backend module by path', async () => {
+    const modulePath = join(__dirname, 'fixtures', 'custom-storage.ts');
+    const storage = await loadStorage(modulePath, { dataPath: '/srv/devpattern' });
+
+    expect(storage).toBeInstanceOf(TaggedStorage);
+    expect((storage as TaggedStorage).dataPath).toBe('/srv/devpattern');
+  });
+
+  it('should reject modules whose backend is missing Storage methods', async () => {
+    const modulePath = join(__dirname, 'fixtures', 'incomplete-storage.ts');
+
+    await expect(loadStorage(modulePath, { dataPath: '/tmp/devpattern' })).rejects.toThrow(/missing: createSession/);
+  });
+});
+
+describe('ContextLayer storage option', () => {
+  it('should use a provided Storage instance', async () => {
+    const storage = new MemoryStorage();
+    const layer = new ContextLayer({ dataPath: '/unused', storage });
+
+    const sessionId = await layer.createSession();
+
+    expect(await storage.getSession(sessionId)).not.toBeNull();
+  });
+
+  it('should accept a backend name', async () => {
+    const layer = new ContextLayer({ dataPath: '/unused', storage: 'memory' });
+    const sessionId = await layer.createSession();
+
+    expect((await layer.getContext(sessionId)).session.id).toBe(sessionId);
+  });
+
+  it('should keep SqliteStorage selectable by name', async () => {
+    const dataPath = await mkdtemp(join(tmpdir(), 'devpattern-factory-'));
+    const storage = createStorage('sqlite', { dataPath });
+
+    expect(storage).toBeInstanceOf(SqliteStorage);
+    (storage as SqliteStorage).close();
+    await rm(dataPath, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildTaskTree, taskStatusViews, validateTaskRelations } from '../src/context-layer/task-graph.js';
+import type { TaskCommit } from '../src/context-layer/types.js';
+
+function task(taskId: string, overrides: Partial<TaskCommit> = {}): TaskCommit {
+  return {
+    sessionId: 's1',
+    taskId,
+    taskTitle: taskId,
+    completedAtThought: 0,
+    status: 'pending',
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('validateTaskRelations', () => {
+  const tasks = [
+    task('release'),
+    task('api', { parentTaskId: 'release' }),
+    task('schema', { parentTaskId: 'api' }),
+    task('docs', { blockedBy: ['api'] }),
+  ];
+
+  it('should accept acyclic relations', () => {
+    expect(() => validateTaskRelations(tasks, 'tests', { parentTaskId: 'api', blockedBy: ['schema', 'docs'] })).not.toThrow();
+  });
+
+  it('should reject subtask cycles', () => {
+    expect(() => validateTaskRelations(tasks, 'release', { parentTaskId: 'schema' }))
+      .toThrow('Subtask cycle: release → schema → api → release');
+    expect(() => validateTaskRelations(tasks, 'api', { parentTaskId: 'api' })).toThrow('Subtask cycle');
+  });
+
+  it('should reject dependency cycles', () => {
+    expect(() => validateTaskRelations(tasks, 'api', { blockedBy: ['docs'] }))
+      .toThrow('Dependency cycle: api → docs → api');
+  });
+
+  it('should reject unknown tasks', () => {
+    expect(() => validateTaskRelations(tasks, 'x', { blockedBy: ['missing'] })).toThrow('Task not found: missing');
+  });
+});
+
+describe('taskStatusViews', () => {
+  it('should mark tasks actionable when unblocked and without open subtasks', () => {
+    const views = taskStatusViews([
+      task('release'),
+      task('api', { parentTaskId: 'release', status: 'in_progress' }),
+      task('schema', { parentTaskId: 'release', status: 'completed' }),
+      task('docs', { blockedBy: ['api', 'schema'] }),
+      task('done', { status: 'completed' }),
+    ]);
+
+    expect(views.get('release')).toEqual({ actionable: false, waitingOn: [] });
+    expect(views.get('api')).toEqual({ actionable: true, waitingOn: [] });
+    expect(views.get('docs')).toEqual({ actionable: false, waitingOn: ['api'] });
+    expect(views.get('done')?.actionable).toBe(false);
+  });
+});
+
+describe('buildTaskTree', () => {
+  it('should nest subtasks and roll up completion', () => {
+    const [release, orphan] = buildTaskTree([
+      task('release'),
+      task('api', { parentTaskId: 'release' }),
+      task('schema', { parentTaskId: 'api', status: 'completed' }),
+      task('routes', { parentTaskId: 'api' }),
+      task('docs', { parentTaskId: 'release', status: 'completed' }),
+      task('orphan', { parentTaskId: 'gone' }),
+    ]);
+
+    expect(release.children.map(c => c.task.taskId)).toEqual(['api', 'docs']);
+    expect(release.children[0].completion).toBe(50);
+    expect(release.completion).toBe(75);
+    expect(orphan.task.taskId).toBe('orphan');
+  });
+
+  it('should still list tasks caught in a stored parent cycle', () => {
+    const tree = buildTaskTree([task('a', { parentTaskId: 'b' }), task('b', { parentTaskId: 'a' })]);
+
+    expect(tree.map(n => n.task.taskId)).toEqual(['a']);
+    expect(tree[0].children.map(n => n.task.taskId)).toEqual(['b']);
+  });
+});
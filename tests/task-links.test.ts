@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { addThoughtRef, tasksForThought, thoughtsForTask } from '../src/context-layer/task-links.js';
+import type { TaskCommit, ThoughtRecord } from '../src/context-layer/types.js';
+
+const timestamp = new Date('2024-01-01');
+
+function thought(thoughtNumber: number, extra: Partial<ThoughtRecord> = {}): ThoughtRecord {
+  return { sessionId: 's1', thought: `Thought ${thoughtNumber}`, thoughtNumber, totalThoughts: 5, timestamp, ...extra };
+}
+
+function task(taskId: string, overrides: Partial<TaskCommit> = {}): TaskCommit {
+  return { sessionId: 's1', taskId, taskTitle: taskId, completedAtThought: 0, status: 'pending', createdAt: timestamp, ...overrides };
+}
+
+describe('addThoughtRef', () => {
+  it('should keep references sorted and unique', () => {
+    const t = task('api');
+    addThoughtRef(t, 3);
+    addThoughtRef(t, 1);
+    addThoughtRef(t, 3);
+    expect(t.thoughtRefs).toEqual([1, 3]);
+  });
+});
+
+describe('thoughtsForTask', () => {
+  const thoughts = [
+    thought(1),
+    thought(2, { taskId: 'api' }),
+    thought(2, { branchId: 'alt', branchFromThought: 1 }),
+    thought(3),
+    thought(4, { taskId: 'api' }),
+  ];
+
+  it('should resolve created, referenced and completed thoughts', () => {
+    const links = thoughtsForTask(
+      task('api', { createdAtThought: 1, thoughtRefs: [2, 4], status: 'completed', completedAtThought: 4 }),
+      thoughts
+    );
+
+    expect(links.created).toBe(thoughts[0]);
+    expect(links.referenced).toEqual([thoughts[1], thoughts[4]]);
+    expect(links.completed).toBe(thoughts[4]);
+  });
+
+  it('should prefer the thought that named the task over another with the same number', () => {
+    const links = thoughtsForTask(task('api', { createdAtThought: 2 }), thoughts);
+
+    expect(links.created).toBe(thoughts[1]);
+    expect(thoughtsForTask(task('other', { createdAtThought: 2 }), thoughts).created).toBe(thoughts[2]);
+  });
+
+  it('should leave out links to thoughts that are gone or not yet made', () => {
+    const links = thoughtsForTask(task('api', { createdAtThought: 0, thoughtRefs: [9] }), thoughts);
+
+    expect(links).toEqual({ taskId: 'api', created: undefined, referenced: [], completed: undefined });
+  });
+});
+
+describe('tasksForThought', () => {
+  it('should list each task a thought touched with its roles', () => {
+    const tasks = [
+      task('api', { createdAtThought: 1, thoughtRefs: [1, 3], status: 'completed', completedAtThought: 3 }),
+      task('docs', { createdAtThought: 2, thoughtRefs: [3] }),
+      task('tests', { createdAtThought: 2 }),
+    ];
+
+    expect(tasksForThought(tasks, 3).map(l => [l.task.taskId, l.roles])).toEqual([
+      ['api', ['referenced', 'completed']],
+      ['docs', ['referenced']],
+    ]);
+    expect(tasksForThought(tasks, 2).map(l => l.task.taskId)).toEqual(['docs', 'tests']);
+    expect(tasksForThought(tasks, 5)).toEqual([]);
+  });
+});
@@ -1,70 +1,25 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { TaskManager } from '../src/context-layer/task-manager.js';
 import type { Storage } from '../src/context-layer/storage/storage.js';
-import type { TaskCommit, Session, ThoughtRecord, DocumentationEntry } from '../src/context-layer/types.js';
-
-// Mock storage matching actual Storage interface
-class MockStorage implements Storage {
-  private sessions: Map<string, Session> = new Map();
-  private tasks: Map<string, TaskCommit[]> = new Map();
-
-  async createSession(session: Session): Promise<void> {
-    this.sessions.set(session.id, session);
-  }
-
-  async getSession(sessionId: string): Promise<Session | null> {
-    return this.sessions.get(sessionId) || null;
-  }
-
-  async updateSession(session: Session): Promise<void> {
-    this.sessions.set(session.id, session);
-  }
-
-  async listSessions(): Promise<Session[]> {
-    return Array.from(this.sessions.values());
-  }
-
-  async deleteSession(sessionId: string): Promise<void> {
-    this.sessions.delete(sessionId);
-  }
-
-  async saveThought(): Promise<void> {}
-  async getThoughts(): Promise<ThoughtRecord[]> { return []; }
-
-  async saveTask(task: TaskCommit): Promise<void> {
-    const existing = this.tasks.get(task.sessionId) || [];
-    existing.push(task);
-    this.tasks.set(task.sessionId, existing);
-  }
-
-  async getTask(sessionId: string, taskId: string): Promise<TaskCommit | null> {
-    const tasks = this.tasks.get(sessionId) || [];
-    return tasks.find(t => t.taskId === taskId) || null;
-  }
-
-  async getTasks(sessionId: string): Promise<TaskCommit[]> {
-    return this.tasks.get(sessionId) || [];
-  }
-
-  async updateTask(task: TaskCommit): Promise<void> {
-    const tasks = this.tasks.get(task.sessionId) || [];
-    const index = tasks.findIndex(t => t.taskId === task.taskId);
-    if (index >= 0) {
-      tasks[index] = task;
-    }
-  }
-
-  async saveDocumentation(): Promise<void> {}
-  async getDocumentation(): Promise<DocumentationEntry | null> { return null; }
-}
+import { storageBackends, type TestBackend } from './fixtures/storage-backends.js';
 
-describe('TaskManager', () => {
+describe.each(storageBackends)('TaskManager (%s storage)', (_name, openBackend) => {
+  let backend: TestBackend;
   let manager: TaskManager;
-  let mockStorage: MockStorage;
+  let storage: Storage;
+
+  beforeEach(async () => {
+    backend = await openBackend();
+    storage = backend.storage;
+    manager = new TaskManager(storage);
+    const now = new Date();
+    for (const id of ['session-1', 'session-2']) {
+      await storage.createSession({ id, createdAt: now, updatedAt: now, status: 'active', thoughtCount: 0, taskCount: 0 });
+    }
+  });
 
-  beforeEach(() => {
-    mockStorage = new MockStorage();
-    manager = new TaskManager(mockStorage);
+  afterEach(async () => {
+    await backend.close();
   });
 
   describe('createTask', () => {
@@ -100,6 +55,89 @@ describe('TaskManager', () => {
     });
   });
 
+  describe('createTask with options', () => {
+    it('should accept a task ID and initial status', async () => {
+      const task = await manager.createTask({ sessionId: 'session-1', taskId: 'plan', taskTitle: 'Plan', status: 'in_progress' });
+
+      expect(task).toMatchObject({ taskId: 'plan', status: 'in_progress' });
+    });
+
+    it('should reject a duplicate task ID', async () => {
+      await manager.createTask({ sessionId: 'session-1', taskId: 'plan', taskTitle: 'Plan' });
+
+      await expect(manager.createTask({ sessionId: 'session-1', taskId: 'plan', taskTitle: 'Again' }))
+        .rejects.toThrow('Task already exists: plan');
+    });
+
+    it('should bump the session task count', async () => {
+      await manager.createTask({ sessionId: 'session-1', taskTitle: 'Plan' });
+
+      expect((await storage.getSession('session-1'))?.taskCount).toBe(1);
+    });
+  });
+
+  describe('updateTask', () => {
+    it('should move a task through pending, in_progress and completed', async () => {
+      const task = await manager.createTask({ sessionId: 'session-1', taskTitle: 'Task' });
+
+      const started = await manager.updateTask('session-1', task.taskId, { status: 'in_progress' });
+      expect(started.status).toBe('in_progress');
+
+      const done = await manager.updateTask('session-1', task.taskId, { status: 'completed', atThought: 4 });
+      expect(done).toMatchObject({ status: 'completed', completedAtThought: 4 });
+      expect(done.completedAt).toBeInstanceOf(Date);
+      expect(done.history?.map(h => [h.from, h.status])).toEqual([
+        [undefined, 'pending'],
+        ['pending', 'in_progress'],
+        ['in_progress', 'completed'],
+      ]);
+      expect(done.history?.[2].atThought).toBe(4);
+    });
+
+    it('should not record a transition when the status is unchanged', async () => {
+      const task = await manager.createTask({ sessionId: 'session-1', taskTitle: 'Task' });
+
+      const same = await manager.updateTask('session-1', task.taskId, { status: 'pending', taskTitle: 'Renamed' });
+
+      expect(same.history).toHaveLength(1);
+    });
+
+    it('should clear completion when a task is reopened', async () => {
+      const task = await manager.commitTask({ sessionId: 'session-1', taskTitle: 'Task', completedAtThought: 2 });
+
+      const reopened = await manager.updateTask('session-1', task.taskId, { status: 'pending' });
+
+      expect(reopened).toMatchObject({ status: 'pending', completedAtThought: 0 });
+      expect(reopened.completedAt).toBeUndefined();
+    });
+
+    it('should update title and description only', async () => {
+      const task = await manager.createTask({ sessionId: 'session-1', taskTitle: 'Task' });
+
+      const renamed = await manager.updateTask('session-1', task.taskId, { taskTitle: 'Renamed', description: 'Details' });
+
+      expect(renamed).toMatchObject({ taskTitle: 'Renamed', description: 'Details', status: 'pending' });
+    });
+
+    it('should set and clear relations, rejecting cycles', async () => {
+      await manager.createTask({ sessionId: 'session-1', taskId: 'release', taskTitle: 'Release' });
+      await manager.createTask({ sessionId: 'session-1', taskId: 'api', taskTitle: 'API', parentTaskId: 'release' });
+      await manager.createTask({ sessionId: 'session-1', taskId: 'docs', taskTitle: 'Docs', blockedBy: ['api'] });
+
+      await expect(manager.updateTask('session-1', 'release', { parentTaskId: 'api' })).rejects.toThrow('Subtask cycle');
+      await expect(manager.updateTask('session-1', 'api', { blockedBy: ['docs'] })).rejects.toThrow('Dependency cycle');
+
+      const moved = await manager.updateTask('session-1', 'api', { parentTaskId: null, blockedBy: [] });
+      expect(moved.parentTaskId).toBeUndefined();
+      expect(moved.blockedBy).toEqual([]);
+    });
+
+    it('should throw for unknown tasks', async () => {
+      await expect(manager.updateTask('session-1', 'missing', { status: 'completed' }))
+        .rejects.toThrow('Task not found: missing');
+    });
+  });
+
   describe('commitTask', () => {
     it('should commit a task with completed status', async () => {
       const committed = await manager.commitTask({
@@ -113,6 +151,19 @@ describe('TaskManager', () => {
       expect(committed.completedAtThought).toBe(5);
     });
 
+    it('should upsert by task ID', async () => {
+      await manager.createTask({ sessionId: 'session-1', taskId: 'api', taskTitle: 'Build API', atThought: 1 });
+
+      await manager.commitTask({ sessionId: 'session-1', taskId: 'api', completedAtThought: 3 });
+      const again = await manager.commitTask({ sessionId: 'session-1', taskId: 'api', taskTitle: 'Build the API', completedAtThought: 5 });
+
+      expect(await manager.getTasks('session-1')).toHaveLength(1);
+      expect((await storage.getSession('session-1'))?.taskCount).toBe(1);
+      expect(again).toMatchObject({ taskTitle: 'Build the API', status: 'completed', completedAtThought: 3 });
+      expect(again.history?.map(h => [h.status, h.atThought])).toEqual([['pending', 1], ['completed', 3]]);
+      expect(again).toMatchObject({ createdAtThought: 1, thoughtRefs: [3, 5] });
+    });
+
     it('should generate task ID if not provided', async () => {
       const committed = await manager.commitTask({
         sessionId: 'session-1',
@@ -124,6 +175,23 @@ describe('TaskManager', () => {
     });
   });
 
+  describe('referenceTask', () => {
+    it('should create an unknown task at the referencing thought', async () => {
+      const task = await manager.referenceTask({ sessionId: 'session-1', taskId: 'api', taskTitle: 'Build API', thoughtNumber: 2 });
+
+      expect(task).toMatchObject({ status: 'pending', createdAtThought: 2, thoughtRefs: [2] });
+    });
+
+    it('should add references to an existing task', async () => {
+      await manager.createTask({ sessionId: 'session-1', taskId: 'api', taskTitle: 'Build API', atThought: 1 });
+      await manager.referenceTask({ sessionId: 'session-1', taskId: 'api', thoughtNumber: 4 });
+      const task = await manager.referenceTask({ sessionId: 'session-1', taskId: 'api', thoughtNumber: 2 });
+
+      expect(await manager.getTasks('session-1')).toHaveLength(1);
+      expect(task).toMatchObject({ taskTitle: 'Build API', createdAtThought: 1, thoughtRefs: [2, 4] });
+    });
+  });
+
   describe('getTasks', () => {
     it('should return all tasks for a session', async () => {
       await manager.createTask({ sessionId: 'session-1', taskTitle: 'Task 1' });
@@ -134,6 +202,15 @@ describe('TaskManager', () => {
 
       expect(tasks).toHaveLength(2);
     });
+
+    it('should filter by status', async () => {
+      await manager.createTask({ sessionId: 'session-1', taskTitle: 'Open' });
+      await manager.commitTask({ sessionId: 'session-1', taskTitle: 'Done', completedAtThought: 1 });
+
+      const tasks = await manager.getTasks('session-1', { status: 'completed' });
+
+      expect(tasks.map(t => t.taskTitle)).toEqual(['Done']);
+    });
   });
 
   describe('shouldCommitTask', () => {
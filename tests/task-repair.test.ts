@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryStorage } from '../src/context-layer/storage/memory-storage.js';
+import { FileStorage } from '../src/context-layer/storage/file-storage.js';
+import { SqliteStorage } from '../src/context-layer/storage/sqlite-storage.js';
+import { mergeDuplicateTasks, repairTasks } from '../src/context-layer/task-repair.js';
+import type { Storage } from '../src/context-layer/storage/storage.js';
+import type { TaskCommit } from '../src/context-layer/types.js';
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 0, minute));
+
+function task(taskId: string, overrides: Partial<TaskCommit> = {}): TaskCommit {
+  return {
+    sessionId: 's1',
+    taskId,
+    taskTitle: taskId,
+    completedAtThought: 0,
+    status: 'pending',
+    createdAt: at(0),
+    ...overrides,
+  };
+}
+
+// What repeated commits of one taskId used to leave behind
+async function seedDuplicates(storage: Storage): Promise<void> {
+  await storage.createSession({
+    id: 's1', createdAt: at(0), updatedAt: at(0), status: 'active', thoughtCount: 5, taskCount: 4,
+  });
+  await storage.saveThought({ sessionId: 's1', thought: 'T', thoughtNumber: 1, totalThoughts: 1, timestamp: at(0) });
+  await storage.saveTask(task('api', { createdAt: at(1) }));
+  await storage.saveTask(task('api', { status: 'completed', completedAtThought: 3, createdAt: at(3), completedAt: at(3) }));
+  await storage.saveTask(task('api', { status: 'completed', completedAtThought: 4, createdAt: at(4), completedAt: at(4) }));
+  await storage.saveTask(task('docs', { createdAt: at(2) }));
+}
+
+describe('mergeDuplicateTasks', () => {
+  it('should keep one task per ID, completed by the first duplicate commit', () => {
+    const merged = mergeDuplicateTasks([
+      task('api', { createdAt: at(1) }),
+      task('docs'),
+      task('api', { status: 'completed', completedAtThought: 3, createdAt: at(3), completedAt: at(3) }),
+    ]);
+
+    expect(merged.map(t => t.taskId)).toEqual(['api', 'docs']);
+    expect(merged[0]).toMatchObject({ status: 'completed', completedAtThought: 3, completedAt: at(3) });
+    expect(merged[0].history).toEqual([
+      { status: 'pending', at: at(1), atThought: 0 },
+      { from: 'pending', status: 'completed', at: at(3), atThought: 3 },
+    ]);
+    expect(merged[1].history).toBeUndefined();
+  });
+
+  it('should keep existing history', () => {
+    const history = [{ status: 'completed' as const, at: at(1), atThought: 1 }];
+    const [merged] = mergeDuplicateTasks([
+      task('api', { status: 'completed', history }),
+      task('api', { status: 'completed' }),
+    ]);
+
+    expect(merged.history).toEqual(history);
+  });
+});
+
+describe('repairTasks', () => {
+  let dataPath: string;
+
+  beforeEach(async () => {
+    dataPath = await mkdtemp(join(tmpdir(), 'devpattern-repair-'));
+  });
+
+  afterEach(async () => {
+    await rm(dataPath, { recursive: true, force: true });
+  });
+
+  const backends: Array<[string, () => Storage]> = [
+    ['memory', () => new MemoryStorage()],
+    ['file', () => new FileStorage(dataPath)],
+    ['sqlite', () => new SqliteStorage(join(dataPath, 'devpattern.db'))],
+  ];
+
+  it.each(backends)('should merge duplicates and fix counters with %s storage', async (_name, create) => {
+    const storage = create();
+    await seedDuplicates(storage);
+
+    const report = await repairTasks(storage);
+
+    expect(report.repaired).toEqual([{
+      sessionId: 's1',
+      duplicatesRemoved: 2,
+      taskCount: { from: 4, to: 2 },
+      thoughtCount: { from: 5, to: 1 },
+    }]);
+    expect((await storage.getTasks('s1')).map(t => [t.taskId, t.status])).toEqual([['api', 'completed'], ['docs', 'pending']]);
+    expect(await storage.getSession('s1')).toMatchObject({ taskCount: 2, thoughtCount: 1 });
+    expect((await repairTasks(storage)).repaired).toEqual([]);
+  });
+
+  it('should change nothing in a dry run', async () => {
+    const storage = new MemoryStorage();
+    await seedDuplicates(storage);
+
+    const report = await repairTasks(storage, { dryRun: true });
+
+    expect(report.repaired).toHaveLength(1);
+    expect(await storage.getTasks('s1')).toHaveLength(4);
+  });
+
+  it('should skip pruned sessions', async () => {
+    const storage = new MemoryStorage();
+    await seedDuplicates(storage);
+    const session = await storage.getSession('s1');
+    await storage.updateSession({ ...session!, prunedAt: at(10) });
+
+    expect((await repairTasks(storage)).repaired).toEqual([]);
+  });
+});
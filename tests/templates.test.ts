@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadTemplate, loadTemplates, parseSessionTemplate, summarizeTemplate } from '../src/context-layer/templates.js';
+
+describe('parseSessionTemplate', () => {
+  it('should default to no tasks', () => {
+    expect(parseSessionTemplate('empty', {})).toEqual({ name: 'empty', tasks: [] });
+  });
+
+  it('should only let tasks refer to earlier tasks', () => {
+    expect(() => parseSessionTemplate('t', {
+      tasks: [{ taskId: 'b', taskTitle: 'B', blockedBy: ['a'] }, { taskId: 'a', taskTitle: 'A' }],
+    })).toThrow('Invalid template t at tasks.0: a is not an earlier task');
+    expect(() => parseSessionTemplate('t', {
+      tasks: [{ taskId: 'a', taskTitle: 'A' }, { taskId: 'a', taskTitle: 'Again' }],
+    })).toThrow('Duplicate task ID a');
+  });
+
+  it('should reject unknown fields and documentation sections', () => {
+    expect(() => parseSessionTemplate('t', { totalThought: 5 })).toThrow('Invalid template t');
+    expect(() => parseSessionTemplate('t', { documentation: { sections: ['appendix'] } })).toThrow('documentation.sections.0');
+  });
+});
+
+describe('loadTemplates', () => {
+  let dirPath: string;
+
+  beforeEach(async () => {
+    dirPath = await mkdtemp(join(tmpdir(), 'devpattern-templates-'));
+  });
+
+  afterEach(async () => {
+    await rm(dirPath, { recursive: true, force: true });
+  });
+
+  it('should read JSON and YAML files, named after the file', async () => {
+    await writeFile(join(dirPath, 'triage.yaml'), 'description: Triage\ntags: [bug]\ntotalThoughts: 6\ntasks:\n  - taskTitle: Reproduce\n');
+    await writeFile(join(dirPath, 'review.json'), JSON.stringify({ documentation: { title: 'Review', sections: ['summary'] } }));
+    await writeFile(join(dirPath, 'notes.txt'), 'not a template');
+
+    const templates = await loadTemplates(dirPath);
+
+    expect(templates.map(t => t.name)).toEqual(['review', 'triage']);
+    expect(summarizeTemplate(templates[1])).toEqual({
+      name: 'triage', description: 'Triage', tags: ['bug'], totalThoughts: 6, taskCount: 1,
+    });
+    expect((await loadTemplate(dirPath, 'review')).documentation).toEqual({ title: 'Review', sections: ['summary'] });
+  });
+
+  it('should report missing, duplicate and malformed templates', async () => {
+    await expect(loadTemplate(dirPath, 'missing')).rejects.toThrow('Template not found: missing');
+
+    await writeFile(join(dirPath, 'broken.yml'), 'tasks: [');
+    await expect(loadTemplate(dirPath, 'broken')).rejects.toThrow('Invalid template');
+
+    await writeFile(join(dirPath, 'broken.json'), '{}');
+    await expect(loadTemplates(dirPath)).rejects.toThrow('Duplicate template: broken');
+  });
+
+  it('should skip malformed templates when listing', async () => {
+    await writeFile(join(dirPath, 'triage.yaml'), 'tasks:\n  - taskTitle: Reproduce\n');
+    await writeFile(join(dirPath, 'broken.yml'), 'tasks: [');
+    await writeFile(join(dirPath, 'unknown.json'), JSON.stringify({ totalThought: 5 }));
+    const warn = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      const templates = await loadTemplates(dirPath);
+
+      expect(templates.map(t => t.name)).toEqual(['triage']);
+      expect(warn).toHaveBeenCalledTimes(2);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should have no templates without a directory', async () => {
+    expect(await loadTemplates(join(dirPath, 'missing'))).toEqual([]);
+  });
+
+  it('should load the bundled templates', async () => {
+    const templates = await loadTemplates(join(__dirname, '..', 'templates'));
+
+    expect(templates.map(t => t.name)).toEqual(['bug-triage', 'design-review', 'incident-postmortem', 'migration-planning']);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { buildThoughtGraph, MAIN_LINE } from '../src/context-layer/thought-graph.js';
+import type { ThoughtRecord } from '../src/context-layer/types.js';
+
+const timestamp = new Date('2024-01-01');
+
+function thought(thoughtNumber: number, extra: Partial<ThoughtRecord> = {}): ThoughtRecord {
+  return { sessionId: 's1', thought: `Thought ${thoughtNumber}`, thoughtNumber, totalThoughts: 5, timestamp, ...extra };
+}
+
+describe('buildThoughtGraph', () => {
+  it('should link a linear session with sequence edges', () => {
+    const graph = buildThoughtGraph('s1', [thought(1), thought(2), thought(3)]);
+
+    expect(graph.edges).toEqual([
+      { from: 0, to: 1, type: 'sequence' },
+      { from: 1, to: 2, type: 'sequence' },
+    ]);
+    expect(graph.currentLine).toEqual([0, 1, 2]);
+    expect(graph.nodes.every(n => n.line === MAIN_LINE && n.current)).toBe(true);
+  });
+
+  it('should drop revised thoughts from the current line', () => {
+    const graph = buildThoughtGraph('s1', [
+      thought(1),
+      thought(2),
+      thought(3, { isRevision: true, revisesThought: 2 }),
+    ]);
+
+    expect(graph.edges).toContainEqual({ from: 1, to: 2, type: 'revision' });
+    expect(graph.nodes[1].revisedBy).toEqual([2]);
+    expect(graph.nodes[2].revises).toBe(1);
+    expect(graph.currentLine).toEqual([0, 2]);
+  });
+
+  it('should follow the latest branch back to where it diverged', () => {
+    const graph = buildThoughtGraph('s1', [
+      thought(1),
+      thought(2),
+      thought(3),
+      thought(3, { branchFromThought: 2, branchId: 'alt' }),
+      thought(4, { branchFromThought: 2, branchId: 'alt' }),
+    ]);
+
+    expect(graph.edges).toContainEqual({ from: 1, to: 3, type: 'branch' });
+    expect(graph.edges).toContainEqual({ from: 3, to: 4, type: 'sequence' });
+    expect(graph.branches).toEqual([{ branchId: 'alt', fromNode: 1, nodes: [3, 4], status: 'open' }]);
+    expect(graph.currentLine).toEqual([0, 1, 3, 4]);
+    expect(graph.nodes[2].current).toBe(false);
+  });
+
+  it('should skip references that match no thought', () => {
+    const graph = buildThoughtGraph('s1', [
+      thought(1),
+      thought(2, { isRevision: true, revisesThought: 9 }),
+      thought(3, { branchFromThought: 9, branchId: 'lost' }),
+    ]);
+
+    expect(graph.edges).toEqual([{ from: 0, to: 1, type: 'sequence' }]);
+    expect(graph.branches).toEqual([{ branchId: 'lost', fromNode: undefined, nodes: [2], status: 'open' }]);
+    expect(graph.currentLine).toEqual([2]);
+  });
+
+  it('should carry branch resolutions', () => {
+    const graph = buildThoughtGraph('s1', [
+      thought(1),
+      thought(2, { branchFromThought: 1, branchId: 'alt' }),
+    ], {
+      alt: { status: 'abandoned', reason: 'Too slow', atThought: 2, resolvedAt: new Date() },
+    });
+
+    expect(graph.branches[0]).toMatchObject({ branchId: 'alt', status: 'abandoned', reason: 'Too slow' });
+  });
+
+  it('should end the current line outside abandoned branches', () => {
+    const abandoned = { status: 'abandoned' as const, atThought: 4, resolvedAt: new Date() };
+    const graph = buildThoughtGraph('s1', [
+      thought(1),
+      thought(2),
+      thought(3),
+      thought(3, { branchFromThought: 2, branchId: 'alt' }),
+      thought(4, { branchFromThought: 2, branchId: 'alt' }),
+    ], { alt: abandoned });
+
+    expect(graph.currentLine).toEqual([0, 1, 2]);
+    expect(graph.nodes.filter(n => n.line === 'alt').every(n => !n.current)).toBe(true);
+    expect(buildThoughtGraph('s1', [thought(1, { branchId: 'alt' })], { alt: abandoned }).currentLine).toEqual([]);
+  });
+
+  it('should handle an empty session', () => {
+    expect(buildThoughtGraph('s1', [])).toEqual({ sessionId: 's1', nodes: [], edges: [], branches: [], currentLine: [] });
+  });
+});